@@ -1,36 +1,70 @@
 import { useState } from "react";
+import { signInAnonymously } from "firebase/auth";
 import RoleSelector from "./components/RoleSelector";
 import ChatInterface from "./components/chat/ChatInterface";
+import SearchPage from "./components/search/SearchPage";
+import DocumentViewer from "./components/documents/DocumentViewer";
 import useAuth from "./hooks/useAuth";
+import useI18n from "./hooks/useI18n";
+import { useDocumentRoute } from "./hooks/useDocumentRoute";
+import { auth } from "./lib/firebase";
 
 function App() {
   const [selectedRole, setSelectedRole] = useState<"patient" | "professional" | null>(null);
+  const [view, setView] = useState<"chat" | "search">("chat");
   const { user } = useAuth();
+  const { t } = useI18n();
+  const documentRoute = useDocumentRoute();
 
-  const handleRoleSelect = (role: "patient" | "professional") => {
+  const handleRoleSelect = async (role: "patient" | "professional") => {
+    if (role === "patient" && !user && auth) {
+      // Anonymous accounts let patients keep their conversations across refreshes
+      try {
+        await signInAnonymously(auth);
+      } catch (error) {
+        console.warn("Anonymous sign-in failed, chat history will not be saved:", error);
+      }
+    }
     if (role === "professional") {
       // TODO: Trigger authentication flow
       // For now, we'll check if user is authenticated
-      if (!user) {
+      if (!user || user.isAnonymous) {
         // Show login modal or redirect to login
-        alert("Authentication required for healthcare professionals. Please sign in.");
+        alert(t("app.professionalSignInRequired"));
         return;
       }
     }
     setSelectedRole(role);
   };
 
-  // Show role selector if no role is selected
-  if (!selectedRole) {
-    return <RoleSelector onSelectRole={handleRoleSelect} />;
-  }
+  const renderView = () => {
+    // Show role selector if no role is selected
+    if (!selectedRole) {
+      return <RoleSelector onSelectRole={handleRoleSelect} />;
+    }
+
+    // Professionals can also browse the corpus directly
+    if (selectedRole === "professional" && view === "search") {
+      return <SearchPage onBack={() => setView("chat")} />;
+    }
+
+    // Show chat interface for selected role
+    return (
+      <ChatInterface
+        role={selectedRole}
+        onOpenSearch={selectedRole === "professional" ? () => setView("search") : undefined}
+      />
+    );
+  };
 
-  // Show chat interface for selected role
+  // The viewer opens over the current view, which stays mounted underneath
   return (
-    <ChatInterface
-      role={selectedRole}
-      sessionId={user?.uid ? `session-${user.uid}` : undefined}
-    />
+    <>
+      {renderView()}
+      {documentRoute && (
+        <DocumentViewer route={documentRoute} onClose={() => (window.location.hash = "")} />
+      )}
+    </>
   );
 }
 
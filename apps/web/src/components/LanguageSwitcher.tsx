@@ -0,0 +1,29 @@
+import { Languages } from "lucide-react";
+import { useI18n } from "@/hooks";
+import { UI_LANGUAGES, type UiLanguage } from "@/i18n";
+
+/**
+ * Picks the UI language. Language names stay in their own language so
+ * users can find theirs whatever is selected.
+ */
+export default function LanguageSwitcher() {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-gray-600">
+      <Languages className="h-4 w-4" aria-hidden />
+      <span className="sr-only">{t("language.label")}</span>
+      <select
+        value={language}
+        onChange={(event) => setLanguage(event.target.value as UiLanguage)}
+        className="rounded-md border border-input bg-background px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      >
+        {UI_LANGUAGES.map((option) => (
+          <option key={option} value={option}>
+            {t(`language.${option}`)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
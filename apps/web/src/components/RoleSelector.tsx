@@ -2,6 +2,8 @@ import { useState } from "react";
 import { UserCircle, Stethoscope, Shield, Heart, ArrowRight } from "lucide-react";
 import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
+import LanguageSwitcher from "./LanguageSwitcher";
+import { useI18n } from "@/hooks";
 
 interface RoleSelectorProps {
   onSelectRole: (role: "patient" | "professional") => void;
@@ -10,6 +12,7 @@ interface RoleSelectorProps {
 
 export default function RoleSelector({ onSelectRole, isLoading = false }: RoleSelectorProps) {
   const [selectedRole, setSelectedRole] = useState<"patient" | "professional" | null>(null);
+  const { t } = useI18n();
 
   const handlePatientClick = () => {
     if (isLoading) return;
@@ -26,21 +29,29 @@ export default function RoleSelector({ onSelectRole, isLoading = false }: RoleSe
   const roles = [
     {
       id: "patient",
-      title: "I'm a Patient",
-      description: "Get reliable health information in simple language",
+      title: t("role.patient.title"),
+      description: t("role.patient.description"),
       icon: UserCircle,
       color: "blue",
-      buttonText: "Continue as Patient",
-      features: ["Simple language", "Quick health guidance", "24/7 available"]
+      buttonText: t("role.patient.button"),
+      features: [
+        t("role.patient.feature1"),
+        t("role.patient.feature2"),
+        t("role.patient.feature3"),
+      ]
     },
     {
       id: "professional",
-      title: "I'm a Healthcare Professional",
-      description: "Access clinical guidelines and evidence-based protocols",
+      title: t("role.professional.title"),
+      description: t("role.professional.description"),
       icon: Stethoscope,
       color: "green",
-      buttonText: "Sign in as Professional",
-      features: ["Clinical guidelines", "Evidence-based protocols", "Professional tools"]
+      buttonText: t("role.professional.button"),
+      features: [
+        t("role.professional.feature1"),
+        t("role.professional.feature2"),
+        t("role.professional.feature3"),
+      ]
     }
   ];
 
@@ -65,19 +76,23 @@ export default function RoleSelector({ onSelectRole, isLoading = false }: RoleSe
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center p-4">
       <div className="w-full max-w-4xl">
+        <div className="flex justify-end mb-4">
+          <LanguageSwitcher />
+        </div>
+
         {/* Header Section */}
         <div className="text-center mb-12">
           <div className="flex justify-center items-center mb-4">
             <Heart className="h-8 w-8 text-red-500 mr-3" />
             <h1 className="text-4xl md:text-5xl font-bold text-gray-900 bg-gradient-to-r from-blue-600 to-green-600 bg-clip-text text-transparent">
-              Umoyo Health Hub
+              {t("app.name")}
             </h1>
           </div>
           <p className="text-lg md:text-xl text-gray-600 mb-2">
-            At the Heart of Zambian Healthcare
+            {t("app.tagline")}
           </p>
           <p className="text-sm text-gray-500 max-w-2xl mx-auto">
-            Trusted health guidance for patients and healthcare professionals across Zambia
+            {t("role.subtitle")}
           </p>
         </div>
 
@@ -145,7 +160,7 @@ export default function RoleSelector({ onSelectRole, isLoading = false }: RoleSe
                     {isProcessing ? (
                       <div className="flex items-center justify-center">
                         <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                        Processing...
+                        {t("role.processing")}
                       </div>
                     ) : (
                       <div className="flex items-center justify-center">
@@ -165,21 +180,20 @@ export default function RoleSelector({ onSelectRole, isLoading = false }: RoleSe
           <div className="flex flex-col sm:flex-row justify-center items-center gap-4 text-sm text-gray-500">
             <div className="flex items-center">
               <Shield className="h-4 w-4 mr-2 text-green-500" />
-              Secure & Confidential
+              {t("role.footer.secure")}
             </div>
             <div className="flex items-center">
               <Heart className="h-4 w-4 mr-2 text-red-500" />
-              Zambian Health Guidelines
+              {t("role.footer.guidelines")}
             </div>
             <div className="flex items-center">
               <UserCircle className="h-4 w-4 mr-2 text-blue-500" />
-              Patient-First Approach
+              {t("role.footer.patientFirst")}
             </div>
           </div>
           
           <p className="text-xs text-gray-400 max-w-2xl mx-auto">
-            Umoyo Health Hub follows Zambian Ministry of Health guidelines. 
-            For emergencies, please contact your nearest healthcare facility immediately.
+            {t("role.footer.notice")}
           </p>
         </div>
       </div>
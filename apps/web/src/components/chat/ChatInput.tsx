@@ -1,12 +1,13 @@
-import { Send } from "lucide-react";
+import { Send, Square } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "../ui/button";
 import { Textarea } from "../ui/textarea";
+import { useI18n } from "@/hooks";
 
 const chatInputSchema = z.object({
-  message: z.string().min(1, "Message cannot be empty"),
+  message: z.string().min(1),
 });
 
 type ChatInputForm = z.infer<typeof chatInputSchema>;
@@ -15,13 +16,19 @@ interface ChatInputProps {
   onSubmit: (message: string) => void;
   isLoading?: boolean;
   disabled?: boolean;
+  placeholder?: string;
+  /** When set, a stop button replaces send while loading */
+  onCancel?: () => void;
 }
 
 export default function ChatInput({
   onSubmit,
   isLoading = false,
   disabled = false,
+  placeholder,
+  onCancel,
 }: ChatInputProps) {
+  const { t } = useI18n();
   const {
     register,
     handleSubmit,
@@ -47,7 +54,7 @@ export default function ChatInput({
         <div className="flex-1">
           <Textarea
             {...register("message")}
-            placeholder="Ask about symptoms, treatments, medications..."
+            placeholder={placeholder ?? t("input.placeholder")}
             className="min-h-[60px] resize-none"
             disabled={isDisabled}
             onKeyDown={(e) => {
@@ -59,18 +66,32 @@ export default function ChatInput({
           />
           {errors.message && (
             <p className="text-sm text-destructive mt-1">
-              {errors.message.message}
+              {t("input.empty")}
             </p>
           )}
         </div>
-        <Button
-          type="submit"
-          disabled={isDisabled}
-          size="icon"
-          className="h-[60px] w-[60px]"
-        >
-          <Send className="h-5 w-5" />
-        </Button>
+        {isLoading && onCancel ? (
+          <Button
+            type="button"
+            variant="destructive"
+            size="icon"
+            className="h-[60px] w-[60px]"
+            onClick={onCancel}
+            aria-label={t("input.stop")}
+          >
+            <Square className="h-5 w-5" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            disabled={isDisabled}
+            size="icon"
+            className="h-[60px] w-[60px]"
+            aria-label={t("input.send")}
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        )}
       </div>
     </form>
   );
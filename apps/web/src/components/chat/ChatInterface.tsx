@@ -1,72 +1,100 @@
 import { useEffect, useRef, useState } from "react";
-import { Loader2, Bot, User, Shield, BookOpen, AlertCircle } from "lucide-react";
-import { useChat } from "@/hooks";
-import { trpc } from "@/lib/trpc";
+import { Loader2, Bot, Shield, BookOpen, AlertCircle, Search } from "lucide-react";
+import { useChat, useChatStream, useI18n, getLastSessionId } from "@/hooks";
 import { Card, CardContent } from "../ui/card";
 import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
 import ChatMessage from "./ChatMessage";
 import ChatInput from "./ChatInput";
+import EmergencyAlert from "./EmergencyAlert";
+import OutbreakBanner from "./OutbreakBanner";
+import LanguageSwitcher from "../LanguageSwitcher";
 import type { ChatMessage as ChatMessageType } from "@umoyo/shared";
 
 interface ChatInterfaceProps {
   role: "patient" | "professional";
   sessionId?: string;
   onExit?: () => void;
+  /** Shows a button that opens guideline search */
+  onOpenSearch?: () => void;
 }
 
 export default function ChatInterface({
   role,
   sessionId: initialSessionId,
   onExit,
+  onOpenSearch,
 }: ChatInterfaceProps) {
-  const { messages, sessionId, addMessage, initializeSession, clearMessages } = useChat();
+  const {
+    messages,
+    sessionId,
+    isRestoring,
+    addMessage,
+    initializeSession,
+    clearMessages,
+    resumeSession,
+    restoreSession,
+  } = useChat();
+  const { language, t } = useI18n();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const restoreAttemptedRef = useRef(false);
   const [isAtBottom, setIsAtBottom] = useState(true);
   const [showScrollButton, setShowScrollButton] = useState(false);
 
+  // Resume the requested (or last used) session once, falling back to a new one
   useEffect(() => {
-    initializeSession(initialSessionId);
-  }, [initialSessionId, initializeSession]);
+    if (restoreAttemptedRef.current) return;
+    restoreAttemptedRef.current = true;
 
-  const queryMutation = (trpc as any).chat.query.useMutation({
-    onSuccess: (response: any) => {
+    const storedSessionId = initialSessionId ?? getLastSessionId();
+    if (!storedSessionId) {
+      initializeSession();
+      return;
+    }
+    restoreSession(storedSessionId).then((restored) => {
+      if (!restored) initializeSession(initialSessionId);
+    });
+  }, [initialSessionId, initializeSession, restoreSession]);
+
+  const chatStream = useChatStream({
+    onDone: ({ sessionId, ...answer }) => {
+      if (sessionId) resumeSession(sessionId);
+      addMessage({ role: "assistant", ...answer });
+    },
+    onCancel: (partial) => {
+      if (partial.sessionId) resumeSession(partial.sessionId);
+      if (!partial.content) return;
       addMessage({
         role: "assistant",
-        content: response.message.content,
-        sources: response.sources,
-        timestamp: new Date(),
+        content: partial.content,
+        sources: partial.sources,
+        stopped: true,
       });
     },
-    onError: (error: any) => {
+    onError: (error) => {
       addMessage({
         role: "assistant",
-        content: `I apologize, but I'm having trouble accessing medical information right now. ${error.message || "Please try again in a moment."}`,
-        isError: true,
-        timestamp: new Date(),
+        content: `${t("chat.error")} ${error.message || t("chat.errorRetry")}`,
       });
     },
   });
 
   const handleSubmit = (message: string) => {
-    if (!message.trim() || queryMutation.isPending) return;
+    if (!message.trim() || chatStream.isActive) return;
 
-    const userMessage: ChatMessageType = {
+    addMessage({
       role: "user",
       content: message,
-      timestamp: new Date(),
-    };
-
-    addMessage(userMessage);
+    });
 
-    queryMutation.mutate({
+    chatStream.start({
       message,
       sessionId: sessionId,
+      // The UI language is a default: a message clearly written in Nyanja or Bemba wins
       context: {
         audience: role === "patient" ? "patient" : "healthcare-professional",
-        language: "en",
-        region: "ZM",
+        language,
       },
     });
   };
@@ -88,33 +116,34 @@ export default function ChatInterface({
     if (isAtBottom) {
       scrollToBottom();
     }
-  }, [messages, isAtBottom]);
+  }, [messages, chatStream.partial, isAtBottom]);
 
   const handleClearChat = () => {
+    chatStream.cancel();
     clearMessages();
   };
 
   const getWelcomeMessage = () => {
     if (role === "patient") {
       return {
-        title: "Welcome to Umoyo Health Hub",
-        description: "I'm here to provide general health information in simple terms. Remember, I'm not a substitute for professional medical advice.",
+        title: t("chat.welcome.patient.title"),
+        description: t("chat.welcome.patient.description"),
         tips: [
-          "Describe your symptoms clearly",
-          "Ask about medications or treatments",
-          "Request information in simple language",
-          "Always consult a doctor for serious concerns"
+          t("chat.welcome.patient.tip1"),
+          t("chat.welcome.patient.tip2"),
+          t("chat.welcome.patient.tip3"),
+          t("chat.welcome.patient.tip4"),
         ]
       };
     } else {
       return {
-        title: "Healthcare Professional Portal",
-        description: "Access evidence-based clinical guidelines and medical protocols. All information is sourced from verified medical databases.",
+        title: t("chat.welcome.professional.title"),
+        description: t("chat.welcome.professional.description"),
         tips: [
-          "Search for clinical guidelines",
-          "Ask about drug interactions",
-          "Request diagnostic criteria",
-          "Access treatment protocols"
+          t("chat.welcome.professional.tip1"),
+          t("chat.welcome.professional.tip2"),
+          t("chat.welcome.professional.tip3"),
+          t("chat.welcome.professional.tip4"),
         ]
       };
     }
@@ -134,16 +163,16 @@ export default function ChatInterface({
                   <Bot className="h-5 w-5 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-xl font-bold text-gray-900">Umoyo Health Hub</h1>
+                  <h1 className="text-xl font-bold text-gray-900">{t("app.name")}</h1>
                   <div className="flex items-center gap-2">
                     <p className="text-sm text-muted-foreground">
-                      At the Heart of Zambian Healthcare
+                      {t("app.tagline")}
                     </p>
                     <Badge 
                       variant={role === "patient" ? "default" : "secondary"}
                       className="text-xs"
                     >
-                      {role === "patient" ? "Patient Mode" : "Professional Mode"}
+                      {role === "patient" ? t("chat.mode.patient") : t("chat.mode.professional")}
                     </Badge>
                   </div>
                 </div>
@@ -151,13 +180,20 @@ export default function ChatInterface({
             </div>
             
             <div className="flex items-center gap-2">
+              <LanguageSwitcher />
+              {onOpenSearch && (
+                <Button variant="outline" size="sm" onClick={onOpenSearch}>
+                  <Search className="mr-1 h-4 w-4" />
+                  {t("search.open")}
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
                 onClick={handleClearChat}
                 disabled={messages.length === 0}
               >
-                Clear Chat
+                {t("chat.clear")}
               </Button>
               {onExit && (
                 <Button
@@ -165,7 +201,7 @@ export default function ChatInterface({
                   size="sm"
                   onClick={onExit}
                 >
-                  Exit
+                  {t("chat.exit")}
                 </Button>
               )}
             </div>
@@ -180,8 +216,19 @@ export default function ChatInterface({
         onScroll={handleScroll}
       >
         <div className="container mx-auto max-w-4xl py-6 px-4">
+          {/* Outbreak News */}
+          <OutbreakBanner />
+
+          {/* Restoring Session */}
+          {isRestoring && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t("chat.restoring")}
+            </div>
+          )}
+
           {/* Welcome Message */}
-          {messages.length === 0 && (
+          {messages.length === 0 && !isRestoring && (
             <div className="text-center max-w-2xl mx-auto mb-8">
               <div className="bg-white rounded-2xl p-8 shadow-sm border">
                 <div className="flex justify-center mb-4">
@@ -199,7 +246,7 @@ export default function ChatInterface({
                 <div className="bg-blue-50 rounded-lg p-4 mb-6">
                   <div className="flex items-center gap-2 mb-3">
                     <BookOpen className="h-4 w-4 text-blue-600" />
-                    <h3 className="font-semibold text-gray-900">You can ask me about:</h3>
+                    <h3 className="font-semibold text-gray-900">{t("chat.welcome.askAbout")}</h3>
                   </div>
                   <div className="grid gap-2 text-sm text-gray-700">
                     {welcomeData.tips.map((tip, index) => (
@@ -214,11 +261,11 @@ export default function ChatInterface({
                 <div className="flex items-center justify-center gap-4 text-xs text-gray-500">
                   <div className="flex items-center gap-1">
                     <Shield className="h-3 w-3" />
-                    Secure & Private
+                    {t("chat.welcome.secure")}
                   </div>
                   <div className="flex items-center gap-1">
                     <AlertCircle className="h-3 w-3" />
-                    Not for emergencies
+                    {t("chat.welcome.notEmergency")}
                   </div>
                 </div>
               </div>
@@ -227,16 +274,33 @@ export default function ChatInterface({
 
           {/* Messages */}
           <div className="space-y-6">
-            {messages.map((message: ChatMessageType, index) => (
-              <ChatMessage 
-                key={message.id} 
-                message={message}
-                isLatest={index === messages.length - 1}
+            {messages.map((message: ChatMessageType) =>
+              message.emergency ? (
+                <EmergencyAlert key={message.id} guidance={message.emergency} />
+              ) : (
+                <ChatMessage
+                  key={message.id}
+                  message={message}
+                />
+              )
+            )}
+
+            {/* Streaming Answer */}
+            {chatStream.status === "streaming" && chatStream.partial && (
+              <ChatMessage
+                message={{
+                  id: "streaming",
+                  role: "assistant",
+                  content: chatStream.partial.content,
+                  sources: chatStream.partial.sources,
+                  timestamp: new Date(),
+                }}
+                isStreaming
               />
-            ))}
+            )}
 
             {/* Enhanced Loading State */}
-            {queryMutation.isPending && (
+            {chatStream.status === "searching" && (
               <div className="flex justify-start">
                 <div className="max-w-[80%]">
                   <Card className="bg-blue-50 border-blue-200 shadow-sm">
@@ -251,11 +315,11 @@ export default function ChatInterface({
                           <div className="flex items-center gap-2 mb-1">
                             <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />
                             <div className="text-sm font-semibold text-gray-700">
-                              Searching medical knowledge...
+                              {t("chat.searching")}
                             </div>
                           </div>
                           <div className="text-xs text-gray-600">
-                            Analyzing your query against Zambian healthcare guidelines
+                            {t("chat.searchingDetail")}
                           </div>
                         </div>
                       </div>
@@ -288,12 +352,13 @@ export default function ChatInterface({
         <div className="container mx-auto max-w-4xl p-4">
           <ChatInput
             onSubmit={handleSubmit}
-            isLoading={queryMutation.isPending}
-            disabled={queryMutation.isPending}
+            isLoading={chatStream.isActive}
+            disabled={chatStream.isActive}
+            onCancel={chatStream.cancel}
             placeholder={
-              role === "patient" 
-                ? "Describe your symptoms or ask a health question..." 
-                : "Search clinical guidelines or ask about treatments..."
+              role === "patient"
+                ? t("chat.placeholder.patient")
+                : t("chat.placeholder.professional")
             }
           />
           
@@ -301,7 +366,7 @@ export default function ChatInterface({
           <div className="text-center mt-3">
             <p className="text-xs text-gray-500 flex items-center justify-center gap-1">
               <AlertCircle className="h-3 w-3" />
-              For medical emergencies, contact your nearest healthcare facility immediately
+              {t("chat.emergencyNotice")}
             </p>
           </div>
         </div>
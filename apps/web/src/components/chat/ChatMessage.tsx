@@ -1,14 +1,90 @@
-import { User, Bot } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { User, Bot, AlertTriangle, ShieldAlert } from "lucide-react";
 import { Card, CardContent } from "../ui/card";
-import type { ChatMessage as ChatMessageType, DocumentSource } from "@umoyo/shared";
+import { Badge } from "../ui/badge";
+import { useI18n } from "@/hooks";
+import { documentHref } from "@/lib/routes";
+import { splitCitations } from "@umoyo/shared";
+import type {
+  ChatMessage as ChatMessageType,
+  ConfidenceLevel,
+  DocumentSource,
+} from "@umoyo/shared";
+
+const HIGHLIGHT_MS = 2000;
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-blue-100 text-blue-800",
+  low: "bg-amber-100 text-amber-800",
+  insufficient: "bg-gray-200 text-gray-800",
+};
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  /** Renders partial text with a cursor while the answer is still arriving */
+  isStreaming?: boolean;
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
+export default function ChatMessage({ message, isStreaming = false }: ChatMessageProps) {
+  const { t } = useI18n();
   const isUser = message.role === "user";
   const isAssistant = message.role === "assistant";
+  const sources = message.sources ?? [];
+  const drugAlerts = message.drugAlerts ?? [];
+  const grounding = isAssistant ? message.grounding : undefined;
+  const unsupportedClaims =
+    grounding?.claims.filter((claim) => claim.status === "unsupported") ?? [];
+  // Without a citation check, every listed source counts as cited
+  const replacedSources = sources.flatMap((source, index) =>
+    source.status && (!message.citations || message.citations.cited.includes(index + 1))
+      ? [{ source, status: source.status, number: index + 1 }]
+      : []
+  );
+  const sourceRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (highlighted === null) return;
+    const timer = setTimeout(() => setHighlighted(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlighted]);
+
+  const showSource = (number: number) => {
+    sourceRefs.current[number - 1]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    setHighlighted(number);
+  };
+
+  /** Renders [n] markers as superscript links; unknown numbers stay as text */
+  const renderContent = () => {
+    if (!isAssistant || sources.length === 0) {
+      return message.content;
+    }
+
+    return splitCitations(message.content).map((segment, index) => {
+      if (segment.type === "text") {
+        return segment.text;
+      }
+      if (segment.numbers.some((number) => number < 1 || number > sources.length)) {
+        return `[${segment.numbers.join(", ")}]`;
+      }
+      return (
+        <sup key={index} className="ml-0.5">
+          {segment.numbers.map((number) => (
+            <button
+              key={number}
+              type="button"
+              onClick={() => showSource(number)}
+              title={sources[number - 1].documentTitle}
+              className="px-0.5 font-semibold text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              [{number}]
+            </button>
+          ))}
+        </sup>
+      );
+    });
+  };
 
   return (
     <Card
@@ -30,39 +106,193 @@ export default function ChatMessage({ message }: ChatMessageProps) {
           {/* Content */}
           <div className="flex-1 min-w-0">
             {/* Label */}
-            <div className="text-sm font-semibold text-gray-700 mb-2">
-              {isUser ? "You" : "MoyoHealth Assistant"}
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-sm font-semibold text-gray-700">
+                {isUser ? t("message.you") : t("message.assistant")}
+              </span>
+              {grounding && (
+                <Badge
+                  variant="outline"
+                  className={`border-0 ${CONFIDENCE_STYLES[grounding.confidence]}`}
+                >
+                  {t(`message.confidence.${grounding.confidence}`)}
+                </Badge>
+              )}
             </div>
 
             {/* Message Text */}
             <div className="text-gray-900 whitespace-pre-wrap break-words">
-              {message.content}
+              {renderContent()}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+              )}
             </div>
+            {message.stopped && (
+              <p className="mt-2 text-sm italic text-gray-500">{t("chat.answerStopped")}</p>
+            )}
+
+            {/* Claims the excerpts do not back up */}
+            {unsupportedClaims.length > 0 && (
+              <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                <div className="flex items-center gap-2 font-semibold">
+                  <AlertTriangle className="h-4 w-4" />
+                  {t("message.unsupported")}
+                </div>
+                <ul className="mt-1 list-disc pl-5 space-y-1">
+                  {unsupportedClaims.map((claim, index) => (
+                    <li key={index}>{claim.text}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Recalls and safety communications for medicines mentioned */}
+            {isAssistant && drugAlerts.length > 0 && !isStreaming && (
+              <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-900">
+                <div className="flex items-center gap-2 font-semibold">
+                  <ShieldAlert className="h-4 w-4" />
+                  {t("message.drugAlerts")}
+                </div>
+                <ul className="mt-2 space-y-2">
+                  {drugAlerts.map((alert) => (
+                    <li key={alert.alertId}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className="border-0 bg-red-100 text-red-800">
+                          {alert.classification
+                            ? `${t(`message.alert.${alert.kind}`)} · ${alert.classification}`
+                            : t(`message.alert.${alert.kind}`)}
+                        </Badge>
+                        <span className="font-medium">{alert.title}</span>
+                      </div>
+                      <div className="text-xs text-red-700">
+                        {t("message.alert.issued", {
+                          date: new Date(alert.date).toLocaleDateString(),
+                          source: alert.source,
+                        })}
+                      </div>
+                      <p className="mt-1 line-clamp-3">{alert.summary}</p>
+                      <a
+                        href={alert.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs font-medium underline"
+                      >
+                        {t("message.alert.details")}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Cited guidance that has since been replaced */}
+            {isAssistant && replacedSources.length > 0 && !isStreaming && (
+              <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                <div className="flex items-center gap-2 font-semibold">
+                  <AlertTriangle className="h-4 w-4" />
+                  {t("message.replaced")}
+                </div>
+                <ul className="mt-1 list-disc pl-5 space-y-1">
+                  {replacedSources.map(({ source, status, number }) => (
+                    <li key={number}>
+                      [{number}] {source.documentTitle}:{" "}
+                      {source.replacedBy ? (
+                        <a
+                          href={documentHref({ documentId: source.replacedBy.documentId })}
+                          className="font-medium underline"
+                        >
+                          {t("message.replacedBy", { title: source.replacedBy.documentTitle })}
+                        </a>
+                      ) : (
+                        t(`message.status.${status}`)
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
-            {/* Citations */}
-            {isAssistant && message.sources && message.sources.length > 0 && (
+            {/* Sources */}
+            {isAssistant && sources.length > 0 && (
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <div className="text-sm font-semibold text-gray-700 mb-2">
-                  Sources:
+                  {t("message.sources")}
                 </div>
-                <div className="space-y-1">
-                  {message.sources.map((source: DocumentSource, index: number) => (
-                    <a
-                      key={source.documentId}
-                      href={`#source-${source.documentId}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="block text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                <ol className="space-y-2">
+                  {sources.map((source: DocumentSource, index: number) => (
+                    <li
+                      key={`${source.documentId}-${index}`}
+                      ref={(element) => {
+                        sourceRefs.current[index] = element;
+                      }}
+                      className={`rounded-md p-2 text-sm transition-colors ${
+                        highlighted === index + 1 ? "bg-yellow-100 ring-1 ring-yellow-300" : ""
+                      }`}
                     >
-                      [{index + 1}] {source.documentTitle}
-                    </a>
+                      <a
+                        href={documentHref({
+                          documentId: source.documentId,
+                          page: source.pageNumber,
+                          chunkId: source.chunkId,
+                        })}
+                        className="font-medium text-blue-700 hover:underline"
+                      >
+                        [{index + 1}] {source.documentTitle}
+                        {source.pageNumber
+                          ? `, ${t("message.page", { page: source.pageNumber })}`
+                          : ""}
+                      </a>
+                      {source.status && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 border-0 bg-amber-100 text-amber-800"
+                        >
+                          {t(`message.status.${source.status}`)}
+                        </Badge>
+                      )}
+                      {source.sectionPath && source.sectionPath.length > 0 && (
+                        <div className="text-xs text-gray-500">
+                          {source.sectionPath.join(" › ")}
+                        </div>
+                      )}
+                      <p className="mt-1 text-gray-600 line-clamp-3">{source.excerpt}</p>
+                    </li>
                   ))}
-                </div>
+                </ol>
+                {message.citations?.uncited && (
+                  <div className="mt-2 text-xs text-amber-700">
+                    {t("message.uncited")}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Translated question */}
+            {isAssistant && message.query?.translated && !isStreaming && (
+              <div className="mt-3 text-xs text-gray-500">
+                {t("message.askedIn", {
+                  language: t(`language.${message.query.language}`),
+                  query: message.query.retrievalQuery,
+                })}
+              </div>
+            )}
+
+            {/* Disclaimer */}
+            {isAssistant && message.disclaimer && !isStreaming && (
+              <div
+                className="mt-3 text-xs italic text-gray-500"
+                title={
+                  message.prompt
+                    ? `${message.prompt.templateId} v${message.prompt.version}`
+                    : undefined
+                }
+              >
+                {message.disclaimer}
               </div>
             )}
 
             {/* Timestamp */}
-            {message.timestamp && (
+            {message.timestamp && !isStreaming && (
               <div className="text-xs text-gray-500 mt-2">
                 {new Date(message.timestamp).toLocaleString()}
               </div>
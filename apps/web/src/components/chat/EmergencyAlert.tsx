@@ -0,0 +1,53 @@
+import { Phone, Siren } from "lucide-react";
+import { Card, CardContent } from "../ui/card";
+import { useI18n } from "@/hooks";
+import type { EmergencyGuidance } from "@umoyo/shared";
+
+interface EmergencyAlertProps {
+  guidance: EmergencyGuidance;
+}
+
+/**
+ * Shown in place of an answer when triage finds danger signs
+ */
+export default function EmergencyAlert({ guidance }: EmergencyAlertProps) {
+  const { t } = useI18n();
+
+  return (
+    <Card role="alert" className="mb-4 border-2 border-red-500 bg-red-50 shadow-md">
+      <CardContent className="p-5">
+        <div className="flex items-start gap-3">
+          <div className="flex-shrink-0 p-2 bg-red-600 rounded-full">
+            <Siren className="h-5 w-5 text-white" />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="text-lg font-bold text-red-800">{guidance.headline}</div>
+            <div className="mt-1 text-sm text-red-700">
+              {t("emergency.dangerSigns", { signs: guidance.signs.join(", ") })}
+            </div>
+
+            <ol className="mt-3 list-decimal pl-5 space-y-1 text-gray-900">
+              {guidance.instructions.map((instruction, index) => (
+                <li key={index}>{instruction}</li>
+              ))}
+            </ol>
+
+            <div className="mt-4 flex flex-wrap gap-2">
+              {guidance.contacts.map((contact) => (
+                <a
+                  key={`${contact.label}-${contact.number}`}
+                  href={`tel:${contact.number}`}
+                  className="inline-flex items-center gap-2 rounded-md bg-red-600 px-3 py-2 text-sm font-semibold text-white hover:bg-red-700"
+                >
+                  <Phone className="h-4 w-4" />
+                  {contact.label}: {contact.number}
+                </a>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
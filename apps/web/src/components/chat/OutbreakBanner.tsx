@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Megaphone, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { useI18n } from "@/hooks";
+import { trpc } from "@/lib/trpc";
+import type { DocumentRegion } from "@umoyo/shared";
+
+const DISMISSED_KEY = "umoyo.outbreaks.dismissed";
+const MAX_SHOWN = 3;
+/** Outbreak news changes daily at most */
+const STALE_MS = 30 * 60 * 1000;
+
+function readDismissed(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(DISMISSED_KEY) ?? "[]") as string[];
+  } catch {
+    return [];
+  }
+}
+
+function writeDismissed(ids: string[]) {
+  try {
+    localStorage.setItem(DISMISSED_KEY, JSON.stringify(ids));
+  } catch {
+    // Storage can be unavailable (private mode); the banner returns next visit
+  }
+}
+
+function titleCase(name: string): string {
+  return name.replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
+
+interface OutbreakBannerProps {
+  region?: DocumentRegion;
+}
+
+/**
+ * Recent WHO outbreak news for the region. Dismissing hides the outbreaks
+ * shown; newer ones bring the banner back.
+ */
+export default function OutbreakBanner({ region = "southern-africa" }: OutbreakBannerProps) {
+  const { t } = useI18n();
+  const outbreaks = trpc.alerts.outbreaks.useQuery(
+    { region },
+    { retry: false, staleTime: STALE_MS }
+  );
+  const [dismissed, setDismissed] = useState(readDismissed);
+
+  const shown = (outbreaks.data ?? [])
+    .filter((outbreak) => !dismissed.includes(outbreak.outbreakId))
+    .slice(0, MAX_SHOWN);
+  if (shown.length === 0) return null;
+
+  const dismiss = () => {
+    // Only ids still listed are kept, so the stored list stays short
+    const listed = new Set((outbreaks.data ?? []).map((outbreak) => outbreak.outbreakId));
+    const next = [
+      ...dismissed.filter((id) => listed.has(id)),
+      ...shown.map((outbreak) => outbreak.outbreakId),
+    ];
+    writeDismissed(next);
+    setDismissed(next);
+  };
+
+  return (
+    <div
+      role="status"
+      className="mb-6 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-900"
+    >
+      <div className="flex items-start gap-2">
+        <Megaphone className="mt-0.5 h-4 w-4 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold">{t("outbreak.title")}</div>
+          <ul className="mt-1 space-y-1">
+            {shown.map((outbreak) => (
+              <li key={outbreak.outbreakId}>
+                <a
+                  href={outbreak.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium underline"
+                >
+                  {outbreak.title}
+                </a>{" "}
+                <span className="text-xs text-orange-700">
+                  {t("outbreak.published", {
+                    date: new Date(outbreak.date).toLocaleDateString(),
+                    source: outbreak.source,
+                  })}
+                  {outbreak.countries.length > 0 &&
+                    ` · ${outbreak.countries.map(titleCase).join(", ")}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 flex-shrink-0 text-orange-900 hover:bg-orange-100"
+          onClick={dismiss}
+          aria-label={t("outbreak.dismiss")}
+          title={t("outbreak.dismiss")}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
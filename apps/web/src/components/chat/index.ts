@@ -2,4 +2,5 @@
 export { default as ChatInterface } from "./ChatInterface";
 export { default as ChatMessage } from "./ChatMessage";
 export { default as ChatInput } from "./ChatInput";
-
+export { default as EmergencyAlert } from "./EmergencyAlert";
+export { default as OutbreakBanner } from "./OutbreakBanner";
@@ -0,0 +1,131 @@
+import { Fragment, useEffect, useRef } from "react";
+import { AlertCircle, ExternalLink, FileText, Loader2, X } from "lucide-react";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { useI18n } from "@/hooks";
+import { trpc } from "@/lib/trpc";
+import type { DocumentRoute } from "@/lib/routes";
+
+interface DocumentViewerProps {
+  route: DocumentRoute;
+  onClose: () => void;
+}
+
+/**
+ * Full document text, opened at the cited page with the cited chunk
+ * highlighted. Shown over the current view so closing returns to it.
+ */
+export default function DocumentViewer({ route, onClose }: DocumentViewerProps) {
+  const { t } = useI18n();
+  const document = trpc.documents.get.useQuery(
+    { documentId: route.documentId },
+    { retry: false }
+  );
+  const anchorRef = useRef<HTMLDivElement>(null);
+
+  const chunks = document.data?.chunks ?? [];
+  const cited = chunks.find((chunk) => chunk.chunkId === route.chunkId);
+  // Without a known chunk (e.g. ids from another backend), open at the page
+  const anchor =
+    cited ?? chunks.find((chunk) => route.page !== undefined && chunk.pageNumber === route.page);
+
+  useEffect(() => {
+    anchorRef.current?.scrollIntoView({ block: "center" });
+  }, [anchor?.chunkId]);
+
+  const renderBody = () => {
+    if (document.isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          {t("documents.loading")}
+        </div>
+      );
+    }
+    if (document.error || !document.data) {
+      return (
+        <div className="flex flex-col items-center gap-2 py-16 text-center text-gray-600">
+          <AlertCircle className="h-8 w-8 text-red-500" />
+          {document.error?.data?.code === "NOT_FOUND" ? t("documents.notFound") : t("documents.error")}
+        </div>
+      );
+    }
+
+    return chunks.map((chunk, index) => {
+      const startsPage =
+        chunk.pageNumber !== undefined && chunk.pageNumber !== chunks[index - 1]?.pageNumber;
+      const section = chunk.sectionPath?.join(" › ");
+      const startsSection = section && section !== chunks[index - 1]?.sectionPath?.join(" › ");
+      const isCited = chunk.chunkId === cited?.chunkId;
+
+      return (
+        <Fragment key={chunk.chunkId}>
+          {startsPage && (
+            <h3 id={`page-${chunk.pageNumber}`} className="mt-6 mb-2 text-xs font-semibold uppercase text-gray-400">
+              {t("documents.page", { page: chunk.pageNumber! })}
+            </h3>
+          )}
+          {startsSection && (
+            <h4 className="mt-4 mb-1 px-2 text-sm font-semibold text-gray-700">{section}</h4>
+          )}
+          <div
+            ref={chunk.chunkId === anchor?.chunkId ? anchorRef : undefined}
+            className={`mb-3 whitespace-pre-wrap rounded-md p-2 leading-relaxed text-gray-800 ${
+              isCited ? "bg-yellow-100 ring-1 ring-yellow-300" : ""
+            }`}
+          >
+            {isCited && (
+              <div className="mb-1 text-xs font-semibold text-yellow-800">{t("documents.cited")}</div>
+            )}
+            {chunk.text}
+          </div>
+        </Fragment>
+      );
+    });
+  };
+
+  const metadata = document.data?.metadata;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 overflow-y-auto bg-white">
+      <header className="sticky top-0 z-10 border-b bg-white/90 shadow-sm backdrop-blur-sm">
+        <div className="container mx-auto flex max-w-4xl items-start justify-between gap-4 px-4 py-3">
+          <div className="flex min-w-0 items-start gap-2">
+            <FileText className="mt-1 h-5 w-5 flex-shrink-0 text-blue-600" />
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-gray-900">{metadata?.title ?? route.documentId}</h2>
+              {metadata && (
+                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <Badge variant="secondary">{t(`category.${metadata.category}`)}</Badge>
+                  <span>{t(`language.${metadata.language}`)}</span>
+                  <span>·</span>
+                  <span>{t(`region.${metadata.region}`)}</span>
+                  <span>·</span>
+                  <span>
+                    {t("search.updated", { date: new Date(metadata.lastUpdated).toLocaleDateString() })}
+                  </span>
+                  {metadata.sourceUrl && (
+                    <a
+                      href={metadata.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      {t("documents.openOriginal")}
+                    </a>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("documents.close")}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-4xl px-4 py-4">{renderBody()}</main>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+// Document viewer components
+export { default as DocumentViewer } from "./DocumentViewer";
@@ -0,0 +1,86 @@
+import {
+  documentAudienceSchema,
+  documentCategorySchema,
+  documentLanguageSchema,
+  documentRegionSchema,
+} from "@umoyo/shared";
+import type { SearchFacets } from "@umoyo/shared";
+import type { MessageKey } from "@/i18n";
+import { EMPTY_SELECTION, useI18n, type SearchSelection } from "@/hooks";
+
+/** Value labels use the `<field>.<value>` catalog keys */
+const FIELDS: Array<{ field: keyof SearchSelection; values: readonly string[] }> = [
+  { field: "category", values: documentCategorySchema.options },
+  { field: "language", values: documentLanguageSchema.options },
+  { field: "audience", values: documentAudienceSchema.options },
+  { field: "region", values: documentRegionSchema.options },
+];
+
+interface FilterChipsProps {
+  selection: SearchSelection;
+  onChange: (selection: SearchSelection) => void;
+  /** Counts from the current search; chips show no counts without them */
+  facets?: SearchFacets;
+}
+
+/**
+ * One row of toggleable chips per facet. Chips in a row are ORed.
+ */
+export default function FilterChips({ selection, onChange, facets }: FilterChipsProps) {
+  const { t } = useI18n();
+  const hasSelection = FIELDS.some(({ field }) => selection[field].length > 0);
+
+  const toggle = (field: keyof SearchSelection, value: string) => {
+    const selected: string[] = selection[field];
+    onChange({
+      ...selection,
+      [field]: selected.includes(value)
+        ? selected.filter((item) => item !== value)
+        : [...selected, value],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {FIELDS.map(({ field, values }) => (
+        <div key={field} className="flex flex-wrap items-center gap-2">
+          <span className="w-24 text-xs font-semibold uppercase text-gray-500">
+            {t(`search.facet.${field}`)}
+          </span>
+          {values.map((value) => {
+            const isSelected = (selection[field] as string[]).includes(value);
+            const count = facets?.[field].find((facet) => facet.value === value)?.count;
+            const isEmpty = facets !== undefined && !count && !isSelected;
+
+            return (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggle(field, value)}
+                disabled={isEmpty}
+                aria-pressed={isSelected}
+                className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+                  isSelected
+                    ? "border-blue-600 bg-blue-600 text-white"
+                    : "border-gray-300 bg-white text-gray-700 hover:border-blue-400"
+                } disabled:cursor-not-allowed disabled:opacity-40`}
+              >
+                {t(`${field}.${value}` as MessageKey)}
+                {count !== undefined && <span className="ml-1 opacity-75">({count})</span>}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      {hasSelection && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_SELECTION)}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          {t("search.clearFilters")}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,45 @@
-// Placeholder for SearchBar component
-export default function SearchBar() {
-  return <div>Search Bar (Coming Soon)</div>;
+import { Loader2, Search, X } from "lucide-react";
+import { Input } from "../ui/input";
+import { useI18n } from "@/hooks";
+
+interface SearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Shows a spinner while a search is pending */
+  isSearching?: boolean;
 }
 
+export default function SearchBar({ value, onChange, isSearching = false }: SearchBarProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+      <Input
+        type="search"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={t("search.placeholder")}
+        aria-label={t("search.title")}
+        className="h-12 pl-10 pr-10 text-base"
+        autoFocus
+      />
+      <div className="absolute right-3 top-1/2 -translate-y-1/2">
+        {isSearching ? (
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+        ) : (
+          value && (
+            <button
+              type="button"
+              onClick={() => onChange("")}
+              aria-label={t("search.clearQuery")}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { ArrowLeft, Search } from "lucide-react";
+import { Button } from "../ui/button";
+import LanguageSwitcher from "../LanguageSwitcher";
+import SearchBar from "./SearchBar";
+import FilterChips from "./FilterChips";
+import SearchResults from "./SearchResults";
+import { EMPTY_SELECTION, useI18n, useSearch, type SearchSelection } from "@/hooks";
+
+interface SearchPageProps {
+  onBack?: () => void;
+}
+
+/**
+ * Browse the guideline corpus directly, for professionals
+ */
+export default function SearchPage({ onBack }: SearchPageProps) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [selection, setSelection] = useState<SearchSelection>(EMPTY_SELECTION);
+  const search = useSearch(query, selection);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-b from-blue-50/50 to-white">
+      <header className="sticky top-0 z-10 border-b bg-white/80 shadow-sm backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-3">
+          <div className="flex items-center gap-2">
+            <div className="rounded-lg bg-blue-600 p-2">
+              <Search className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">{t("search.title")}</h1>
+              <p className="text-sm text-muted-foreground">{t("app.name")}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            {onBack && (
+              <Button variant="ghost" size="sm" onClick={onBack}>
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                {t("search.back")}
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-4xl flex-1 space-y-6 px-4 py-6">
+        <SearchBar
+          value={query}
+          onChange={setQuery}
+          isSearching={search.isDebouncing || search.isLoading}
+        />
+        <FilterChips selection={selection} onChange={setSelection} facets={search.facets} />
+
+        {!search.isReady ? (
+          <p className="py-16 text-center text-gray-500">{t("search.prompt")}</p>
+        ) : (
+          <>
+            {search.total !== undefined && (
+              <p className="text-sm text-gray-600">
+                {search.total === 1
+                  ? t("search.resultCount.one")
+                  : t("search.resultCount.other", { count: search.total })}
+              </p>
+            )}
+            <SearchResults
+              results={search.results}
+              query={query}
+              isLoading={search.isLoading}
+              isError={search.isError}
+              onRetry={search.refetch}
+              hasNextPage={search.hasNextPage}
+              isFetchingNextPage={search.isFetchingNextPage}
+              onLoadMore={search.fetchNextPage}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
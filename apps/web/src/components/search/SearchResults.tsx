@@ -1,5 +1,173 @@
-// Placeholder for SearchResults component
-export default function SearchResults() {
-  return <div>Search Results (Coming Soon)</div>;
+import { useEffect, useRef, type ReactNode } from "react";
+import { AlertCircle, FileSearch, Loader2 } from "lucide-react";
+import { Card, CardContent } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { useI18n } from "@/hooks";
+import { documentHref } from "@/lib/routes";
+import type { SearchResult } from "@umoyo/shared";
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  /** Words to highlight in excerpts */
+  query: string;
+  isLoading: boolean;
+  isError: boolean;
+  onRetry: () => void;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Wraps each occurrence of the query's words in <mark>
+ */
+function highlight(text: string, query: string): ReactNode[] {
+  const words = query
+    .split(/\s+/)
+    .filter((word) => word.length > 1)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (words.length === 0) {
+    return [text];
+  }
+
+  // With a capture group, split puts the matches at odd indexes
+  return text.split(new RegExp(`(${words.join("|")})`, "gi")).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="rounded bg-yellow-200 px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
 }
 
+function StatusMessage({ icon, title, children }: { icon: ReactNode; title: string; children?: ReactNode }) {
+  return (
+    <div className="flex flex-col items-center gap-2 py-16 text-center text-gray-600">
+      {icon}
+      <div className="font-semibold text-gray-800">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Results in relevance order. More pages load when the end of the list
+ * scrolls into view.
+ */
+export default function SearchResults({
+  results,
+  query,
+  isLoading,
+  isError,
+  onRetry,
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+}: SearchResultsProps) {
+  const { t } = useI18n();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, onLoadMore]);
+
+  if (isError) {
+    return (
+      <StatusMessage icon={<AlertCircle className="h-8 w-8 text-red-500" />} title={t("search.error")}>
+        <Button variant="outline" size="sm" onClick={onRetry}>
+          {t("search.retry")}
+        </Button>
+      </StatusMessage>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <StatusMessage
+        icon={<Loader2 className="h-8 w-8 animate-spin text-blue-600" />}
+        title={t("search.loading")}
+      />
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <StatusMessage icon={<FileSearch className="h-8 w-8 text-gray-400" />} title={t("search.noResults")}>
+        <p className="text-sm">{t("search.noResultsHint")}</p>
+      </StatusMessage>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {results.map((result) => (
+        <Card key={result.documentId} className="shadow-sm">
+          <CardContent className="p-4">
+            <div className="flex items-start justify-between gap-3">
+              <a
+                href={documentHref({
+                  documentId: result.documentId,
+                  page: result.pageNumber,
+                  chunkId: result.chunkId,
+                })}
+                className="font-semibold text-blue-700 hover:underline"
+              >
+                {result.title}
+              </a>
+              <span className="flex-shrink-0 text-xs text-gray-500">
+                {t("search.relevance", { percent: Math.round(result.relevanceScore * 100) })}
+              </span>
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+              <Badge variant="secondary">{t(`category.${result.metadata.category}`)}</Badge>
+              <span>{t(`language.${result.metadata.language}`)}</span>
+              <span>·</span>
+              <span>{t(`region.${result.metadata.region}`)}</span>
+              <span>·</span>
+              <span>
+                {t("search.updated", {
+                  date: new Date(result.metadata.lastUpdated).toLocaleDateString(),
+                })}
+              </span>
+              {result.pageNumber && (
+                <>
+                  <span>·</span>
+                  <span>{t("message.page", { page: result.pageNumber })}</span>
+                </>
+              )}
+            </div>
+
+            <p className="mt-3 text-sm leading-relaxed text-gray-700 line-clamp-4">
+              {highlight(result.excerpt, query)}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+
+      <div ref={sentinelRef} className="py-4 text-center text-sm text-gray-500">
+        {isFetchingNextPage ? (
+          <span className="inline-flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t("search.loadingMore")}
+          </span>
+        ) : (
+          !hasNextPage && t("search.end")
+        )}
+      </div>
+    </div>
+  );
+}
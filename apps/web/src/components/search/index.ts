@@ -1,4 +1,5 @@
 // Search UI components
+export { default as SearchPage } from "./SearchPage";
 export { default as SearchBar } from "./SearchBar";
+export { default as FilterChips } from "./FilterChips";
 export { default as SearchResults } from "./SearchResults";
-
@@ -1,5 +1,6 @@
 export * from "./card";
 export * from "./button";
 export * from "./textarea";
+export * from "./input";
 export * from "./badge";
 
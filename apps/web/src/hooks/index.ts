@@ -1,4 +1,7 @@
 // Custom React hooks
 export { default as useAuth } from "./useAuth";
-export { useChat } from "./useChat";
-
+export { useChat, getLastSessionId } from "./useChat";
+export { useChatStream } from "./useChatStream";
+export { default as useI18n } from "./useI18n";
+export { useSearch, EMPTY_SELECTION, type SearchSelection } from "./useSearch";
+export { useDocumentRoute } from "./useDocumentRoute";
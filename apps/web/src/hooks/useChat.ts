@@ -1,10 +1,38 @@
 import { useState, useCallback } from "react";
 import type { ChatMessage } from "@umoyo/shared";
 import { generateId } from "@umoyo/shared";
+import { trpc } from "@/lib/trpc";
+
+const LAST_SESSION_KEY = "umoyo.chat.lastSessionId";
+
+function rememberSession(sessionId: string | null) {
+  try {
+    if (sessionId) {
+      localStorage.setItem(LAST_SESSION_KEY, sessionId);
+    } else {
+      localStorage.removeItem(LAST_SESSION_KEY);
+    }
+  } catch {
+    // Storage can be unavailable (private mode); resuming is best-effort
+  }
+}
+
+/**
+ * Returns the id of the session the user last chatted in on this device
+ */
+export function getLastSessionId(): string | null {
+  try {
+    return localStorage.getItem(LAST_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
 
 export function useChat() {
+  const utils = trpc.useUtils();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
 
   const addMessage = useCallback((message: Omit<ChatMessage, "id" | "timestamp">) => {
     const newMessage: ChatMessage = {
@@ -19,6 +47,7 @@ export function useChat() {
   const clearMessages = useCallback(() => {
     setMessages([]);
     setSessionId(null);
+    rememberSession(null);
   }, []);
 
   const initializeSession = useCallback((newSessionId?: string) => {
@@ -29,12 +58,48 @@ export function useChat() {
     }
   }, [sessionId]);
 
+  /**
+   * Makes the given session current so follow-up messages continue it
+   */
+  const resumeSession = useCallback((id: string) => {
+    setSessionId(id);
+    rememberSession(id);
+  }, []);
+
+  /**
+   * Loads a stored session and its messages from the server.
+   * Resolves to false when the session is missing or the user is signed out.
+   */
+  const restoreSession = useCallback(
+    async (id: string) => {
+      setIsRestoring(true);
+      try {
+        const detail = await utils.chat.getSession.fetch({ sessionId: id });
+        setMessages(
+          detail.messages.map((message) => ({
+            ...message,
+            timestamp: new Date(message.timestamp),
+          }))
+        );
+        resumeSession(detail.session.id);
+        return true;
+      } catch {
+        return false;
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [utils, resumeSession]
+  );
+
   return {
     messages,
     sessionId: sessionId || undefined,
+    isRestoring,
     addMessage,
     clearMessages,
     initializeSession,
+    resumeSession,
+    restoreSession,
   };
 }
-
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ChatMessage,
+  ChatQuerySchemaType,
+  ChatStreamEvent,
+  DocumentSource,
+} from "@umoyo/shared";
+import { trpc } from "@/lib/trpc";
+
+/** Stream events as received over the wire, where dates arrive as ISO strings */
+type ChatStreamPayload =
+  | Exclude<ChatStreamEvent, { type: "done" }>
+  | { type: "done"; message: Omit<ChatMessage, "timestamp"> & { timestamp: string } };
+
+export type ChatStreamStatus = "idle" | "searching" | "streaming";
+
+/** Fields the server adds to the final message only */
+type AnswerDetails = Pick<
+  ChatMessage,
+  "citations" | "grounding" | "emergency" | "prompt" | "disclaimer" | "query" | "drugAlerts"
+>;
+
+export interface StreamedAnswer extends AnswerDetails {
+  content: string;
+  sources: DocumentSource[];
+  sessionId?: string;
+}
+
+interface ChatStreamHandlers {
+  onDone?: (answer: StreamedAnswer) => void;
+  onError?: (error: Error) => void;
+  /** Called with whatever was received before the user stopped the answer */
+  onCancel?: (partial: StreamedAnswer) => void;
+}
+
+/**
+ * Streams an answer from `chat.stream`: sources arrive first,
+ * then answer tokens, and the stream can be cancelled mid-answer.
+ */
+export function useChatStream(handlers: ChatStreamHandlers = {}) {
+  const utils = trpc.useUtils();
+  const [status, setStatus] = useState<ChatStreamStatus>("idle");
+  const [partial, setPartial] = useState<StreamedAnswer | null>(null);
+  const subscriptionRef = useRef<{ unsubscribe: () => void } | null>(null);
+  const partialRef = useRef<StreamedAnswer>({ content: "", sources: [] });
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const reset = useCallback(() => {
+    subscriptionRef.current?.unsubscribe();
+    subscriptionRef.current = null;
+    partialRef.current = { content: "", sources: [] };
+    setPartial(null);
+    setStatus("idle");
+  }, []);
+
+  const handleEvent = useCallback(
+    (event: ChatStreamPayload) => {
+      switch (event.type) {
+        case "sources":
+          partialRef.current = { content: "", sources: event.sources, sessionId: event.sessionId };
+          setStatus("streaming");
+          break;
+        case "token":
+          partialRef.current = {
+            ...partialRef.current,
+            content: partialRef.current.content + event.text,
+          };
+          break;
+        case "done": {
+          const { content, citations, grounding, emergency, prompt, disclaimer, query } =
+            event.message;
+          const answer = {
+            ...partialRef.current,
+            content,
+            citations,
+            grounding,
+            emergency,
+            prompt,
+            disclaimer,
+            query,
+            drugAlerts: event.message.drugAlerts,
+          };
+          reset();
+          handlersRef.current.onDone?.(answer);
+          return;
+        }
+      }
+      setPartial(partialRef.current);
+    },
+    [reset]
+  );
+
+  const start = useCallback(
+    (input: ChatQuerySchemaType) => {
+      reset();
+      setStatus("searching");
+
+      subscriptionRef.current = utils.client.chat.stream.subscribe(input, {
+        onData: handleEvent,
+        onError: (error) => {
+          reset();
+          handlersRef.current.onError?.(error);
+        },
+      });
+    },
+    [utils, handleEvent, reset]
+  );
+
+  const cancel = useCallback(() => {
+    if (!subscriptionRef.current) return;
+    const received = partialRef.current;
+    reset();
+    handlersRef.current.onCancel?.(received);
+  }, [reset]);
+
+  useEffect(() => reset, [reset]);
+
+  return {
+    status,
+    isActive: status !== "idle",
+    partial,
+    start,
+    cancel,
+  };
+}
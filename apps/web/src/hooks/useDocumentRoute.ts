@@ -0,0 +1,17 @@
+import { useEffect, useMemo, useState } from "react";
+import { parseDocumentRoute } from "@/lib/routes";
+
+/**
+ * The document the URL hash points to, if any. Follows back/forward.
+ */
+export function useDocumentRoute() {
+  const [hash, setHash] = useState(() => window.location.hash);
+
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  return useMemo(() => parseDocumentRoute(hash), [hash]);
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import type {
+  DocumentAudience,
+  DocumentCategory,
+  DocumentLanguage,
+  DocumentRegion,
+} from "@umoyo/shared";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+const PAGE_SIZE = 20;
+
+export interface SearchSelection {
+  category: DocumentCategory[];
+  language: DocumentLanguage[];
+  audience: DocumentAudience[];
+  region: DocumentRegion[];
+}
+
+export const EMPTY_SELECTION: SearchSelection = {
+  category: [],
+  language: [],
+  audience: [],
+  region: [],
+};
+
+function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
+
+/**
+ * Pages through `search.search` for a debounced query. Short queries do
+ * not search.
+ */
+export function useSearch(query: string, selection: SearchSelection) {
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS);
+  const isReady = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const search = trpc.search.search.useInfiniteQuery(
+    { query: debouncedQuery, ...selection, limit: PAGE_SIZE },
+    {
+      enabled: isReady,
+      getNextPageParam: (page) => page.nextCursor ?? undefined,
+    }
+  );
+
+  const pages = isReady ? search.data?.pages ?? [] : [];
+
+  return {
+    isReady,
+    /** Still typing: the query differs from the one being searched */
+    isDebouncing: query.trim() !== debouncedQuery,
+    results: pages.flatMap((page) => page.results),
+    total: pages[0]?.total,
+    facets: pages[0]?.facets,
+    isLoading: isReady && search.isLoading,
+    isError: isReady && search.isError,
+    error: search.error,
+    refetch: search.refetch,
+    hasNextPage: search.hasNextPage,
+    isFetchingNextPage: search.isFetchingNextPage,
+    fetchNextPage: search.fetchNextPage,
+  };
+}
@@ -0,0 +1,42 @@
+import { useCallback, useMemo, useState, type ReactNode } from "react";
+import { I18nContext } from "./context";
+import type { MessageKey } from "./catalogs/en";
+import { translate, UI_LANGUAGES, type MessageParams, type UiLanguage } from "./translate";
+
+const LANGUAGE_STORAGE_KEY = "umoyo.ui.language";
+
+function getStoredLanguage(): UiLanguage {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return UI_LANGUAGES.find((language) => language === stored) ?? "en";
+  } catch {
+    return "en";
+  }
+}
+
+/**
+ * Provides the UI language and `t`. The choice is kept in local storage.
+ */
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<UiLanguage>(getStoredLanguage);
+
+  const setLanguage = useCallback((next: UiLanguage) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+    } catch {
+      // Storage can be unavailable (private mode); the choice lasts for this visit
+    }
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      language,
+      setLanguage,
+      t: (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    }),
+    [language, setLanguage]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
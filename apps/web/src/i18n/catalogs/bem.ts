@@ -0,0 +1,140 @@
+import type { Catalog } from "./en";
+
+/**
+ * Bemba (Ichibemba) UI strings. Have changes reviewed by a native speaker.
+ */
+export const bem: Catalog = {
+  "app.name": "Umoyo Health Hub",
+  "app.tagline": "Pa Mutima wa fya Bumi mu Zambia",
+  "app.professionalSignInRequired": "Bakabomba ba fya bumi balingile ukwingila intanshi. Mukwai ingileni.",
+
+  "language.label": "Ululimi",
+  "language.en": "English",
+  "language.ny": "Chinyanja",
+  "language.bem": "Ichibemba",
+
+  "role.subtitle": "Ukutungulula kwa bumi ukwa cishinka ku balwele na bakabomba ba fya bumi mu Zambia monse",
+  "role.patient.title": "Ndi Umulwele",
+  "role.patient.description": "Sangeni ilyashi lya bumi ilya cishinka mu lulimi ulwanguka",
+  "role.patient.button": "Twalilileni nga Umulwele",
+  "role.patient.feature1": "Ululimi ulwanguka",
+  "role.patient.feature2": "Ukutungulula kwa bumi bwangu",
+  "role.patient.feature3": "Kulapezeka inshita yonse",
+  "role.professional.title": "Ndi Kabomba wa fya Bumi",
+  "role.professional.description": "Sangeni ukutungulula kwa fya cipatala ne nshila ishashintilila pa bushininkisho",
+  "role.professional.button": "Ingileni nga Kabomba wa fya Bumi",
+  "role.professional.feature1": "Ukutungulula kwa fya cipatala",
+  "role.professional.feature2": "Inshila ishashintilila pa bushininkisho",
+  "role.professional.feature3": "Ifipe fya bakabomba",
+  "role.processing": "Tulebomba...",
+  "role.footer.secure": "Icakusungilila kabili Icankama",
+  "role.footer.guidelines": "Ukutungulula kwa Bumi mu Zambia",
+  "role.footer.patientFirst": "Umulwele Pa Ntanshi",
+  "role.footer.notice":
+    "Umoyo Health Hub ikonka ukutungulula kwa Ministry of Health mu Zambia. Pa fya bwangu, kabiyeni ku cipatala ica mupepi bwangu bwangu.",
+
+  "chat.mode.patient": "Icipande ca Balwele",
+  "chat.mode.professional": "Icipande ca Bakabomba",
+  "chat.clear": "Fuuteni Ilyashi",
+  "chat.exit": "Fumeni",
+  "chat.restoring": "Tulebwesesha ilyashi lyenu...",
+  "chat.welcome.patient.title": "Mwaiseni ku Umoyo Health Hub",
+  "chat.welcome.patient.description":
+    "Ndi pano ukumupeela ilyashi lya bumi mu mashiwi ayanguka. Ibukisheni, nshaba mu cifulo ca kutungulula kwa badokota.",
+  "chat.welcome.patient.tip1": "Londololeni bwino ifyo mulemona",
+  "chat.welcome.patient.tip2": "Ipusheni pa miti nangu ukundapwa",
+  "chat.welcome.patient.tip3": "Lombeni ilyashi mu lulimi ulwanguka",
+  "chat.welcome.patient.tip4": "Lyonse ipusheni dokota pa fyafina",
+  "chat.welcome.professional.title": "Icipande ca Bakabomba ba fya Bumi",
+  "chat.welcome.professional.description":
+    "Sangeni ukutungulula kwa fya cipatala ne nshila sha kundapa. Ilyashi lyonse lifuma mu fifulo ifyashininkishiwa.",
+  "chat.welcome.professional.tip1": "Fwailisheni ukutungulula kwa fya cipatala",
+  "chat.welcome.professional.tip2": "Ipusheni pa fyo imiti ilenga pamo",
+  "chat.welcome.professional.tip3": "Lombeni inshila sha kwishibilamo amalwele",
+  "chat.welcome.professional.tip4": "Sangeni inshila sha kundapa",
+  "chat.welcome.askAbout": "Kuti mwaipusha pa:",
+  "chat.welcome.secure": "Icakusungilila kabili Icankama",
+  "chat.welcome.notEmergency": "Te pa fya bwangu",
+  "chat.searching": "Tulefwaya ilyashi lya fya cipatala...",
+  "chat.searchingDetail": "Tulelinganya ilipusho lyenu no kutungulula kwa bumi mu Zambia",
+  "chat.placeholder.patient": "Londololeni ifyo mulemona nangu ipusheni ilipusho lya bumi...",
+  "chat.placeholder.professional": "Fwailisheni ukutungulula kwa fya cipatala nangu ipusheni pa kundapa...",
+  "chat.emergencyNotice": "Pa fya bwangu fya bumi, kabiyeni ku cipatala ica mupepi bwangu bwangu",
+  "chat.error": "Mwilefulwa, nshilekwata ukusanga ilyashi lya fya cipatala nomba line.",
+  "chat.errorRetry": "Mukwai eseshenipo na kabili.",
+  "chat.answerStopped": "[Icasuko calekelwa]",
+
+  "input.placeholder": "Ipusheni pa fyo mulemona, ukundapwa, imiti...",
+  "input.empty": "Ubukombe tabwingaba ubwa fye",
+  "input.send": "Tumeni ubukombe",
+  "input.stop": "Lekeni icasuko",
+
+  "message.you": "Imwe",
+  "message.assistant": "MoyoHealth Assistant",
+  "message.sources": "Ifyo twafumyamo:",
+  "message.page": "ibula {page}",
+  "message.uncited": "Ici casuko tacilumbula ifyo twafumyamo pa muulu. Mulinganye nafyo ilyo tamulacishintililapo.",
+  "message.unsupported": "Tafishintililwe ku fyo twafumyamo pa nshi",
+  "message.replaced": "Ifyebo fimo ifyo twalumbula fyalipilwamo. Konkeni ifipya.",
+  "message.replacedBy": "fyalipilwamo na {title}",
+  "message.status.superseded": "Fyalipilwamo",
+  "message.status.withdrawn": "Fyafumishiwepo",
+  "message.drugAlerts": "Ukusokelwa pa miti iyalumbulwa pano",
+  "message.alert.recall": "Imiti iyabwesefwa",
+  "message.alert.safety-communication": "Ubukombe bwa kucingilila",
+  "message.alert.issued": "Yafumishiwe {date} kuli {source}",
+  "message.alert.details": "Belengeni ubukombe bonse",
+  "message.askedIn": "Mwaipushe mu {language}. Twafwailishe mu kutungulula kwa ciNgeleshi: “{query}”",
+  "message.confidence.high": "Ukucetekela ukukalamba",
+  "message.confidence.medium": "Ukucetekela ukwa pakati",
+  "message.confidence.low": "Ukucetekela ukunono",
+  "message.confidence.insufficient": "Tacasangilwe mu kutungulula",
+
+  "emergency.dangerSigns": "Ifishibilo fya busanso: {signs}",
+
+  "outbreak.title": "Amalwele ayasalangana nomba mu Zambia na mu fyalo fyapalamina",
+  "outbreak.published": "{source}, {date}",
+  "outbreak.dismiss": "Fumyapo ukusokelwa pa malwele",
+
+  "search.open": "Fwailisheni ukutungulula",
+  "search.title": "Fwailisheni Ukutungulula",
+  "search.back": "Bwelelani ku lyashi",
+  "search.placeholder": "Fwailisheni ukutungulula, imiti, amalwele...",
+  "search.clearQuery": "Fuuteni ifyo mulefwaya",
+  "search.clearFilters": "Fumyeni ifyakusefa",
+  "search.resultCount.one": "Icasangwa 1",
+  "search.resultCount.other": "Ifyasangwa {count}",
+  "search.prompt": "Lembeni ifilembo fibili nangu ukucila pa kufwaya",
+  "search.noResults": "Tapali amabuku ayalingana ne fyo mwafwaya",
+  "search.noResultsHint": "Eseshenipo amashiwi yambi nangu fumyeni ifyakusefa fimo.",
+  "search.error": "Ukufwaya kwafilwa. Mukwai eseshenipo na kabili.",
+  "search.retry": "Eseshenipo na kabili",
+  "search.loading": "Tulefwaya...",
+  "search.loadingMore": "Tuleleta ifyasangwa fimbi...",
+  "search.end": "Ifyasangwa fyapwa",
+  "search.relevance": "Ukulingana {percent}%",
+  "search.updated": "Fyapyanikwa {date}",
+  "search.facet.category": "Umusango",
+  "search.facet.language": "Ululimi",
+  "search.facet.audience": "Abakutika",
+  "search.facet.region": "Icifulo",
+
+  "documents.close": "Isaleni",
+  "documents.loading": "Tulesokolola ibuku...",
+  "documents.notFound": "Ili ibuku talisangilwe.",
+  "documents.error": "Twafilwa ukwisula ili ibuku.",
+  "documents.page": "Ibula {page}",
+  "documents.openOriginal": "Isuleni apo lyafumine",
+  "documents.cited": "Icipande calumbulwa",
+
+  "category.clinical-guideline": "Ukutungulula kwa fya cipatala",
+  "category.drug-info": "Ilyashi lya miti",
+  "category.disease-reference": "Pa malwele",
+  "category.patient-education": "Ukusambilisha abalwele",
+  "audience.healthcare-professional": "Bakabomba",
+  "audience.patient": "Abalwele",
+  "audience.both": "Bonse",
+  "region.zambia": "Zambia",
+  "region.southern-africa": "Kapinda ka Kulyo ka Africa",
+  "region.global": "Icalo conse",
+};
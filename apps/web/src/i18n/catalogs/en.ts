@@ -0,0 +1,143 @@
+/**
+ * English UI strings. This catalog defines the keys: the Nyanja and Bemba
+ * catalogs are typed against it, so a missing or extra key fails the build.
+ */
+export const en = {
+  "app.name": "Umoyo Health Hub",
+  "app.tagline": "At the Heart of Zambian Healthcare",
+  "app.professionalSignInRequired": "Authentication required for healthcare professionals. Please sign in.",
+
+  "language.label": "Language",
+  "language.en": "English",
+  "language.ny": "Chinyanja",
+  "language.bem": "Ichibemba",
+
+  "role.subtitle": "Trusted health guidance for patients and healthcare professionals across Zambia",
+  "role.patient.title": "I'm a Patient",
+  "role.patient.description": "Get reliable health information in simple language",
+  "role.patient.button": "Continue as Patient",
+  "role.patient.feature1": "Simple language",
+  "role.patient.feature2": "Quick health guidance",
+  "role.patient.feature3": "24/7 available",
+  "role.professional.title": "I'm a Healthcare Professional",
+  "role.professional.description": "Access clinical guidelines and evidence-based protocols",
+  "role.professional.button": "Sign in as Professional",
+  "role.professional.feature1": "Clinical guidelines",
+  "role.professional.feature2": "Evidence-based protocols",
+  "role.professional.feature3": "Professional tools",
+  "role.processing": "Processing...",
+  "role.footer.secure": "Secure & Confidential",
+  "role.footer.guidelines": "Zambian Health Guidelines",
+  "role.footer.patientFirst": "Patient-First Approach",
+  "role.footer.notice":
+    "Umoyo Health Hub follows Zambian Ministry of Health guidelines. For emergencies, please contact your nearest healthcare facility immediately.",
+
+  "chat.mode.patient": "Patient Mode",
+  "chat.mode.professional": "Professional Mode",
+  "chat.clear": "Clear Chat",
+  "chat.exit": "Exit",
+  "chat.restoring": "Restoring your conversation...",
+  "chat.welcome.patient.title": "Welcome to Umoyo Health Hub",
+  "chat.welcome.patient.description":
+    "I'm here to provide general health information in simple terms. Remember, I'm not a substitute for professional medical advice.",
+  "chat.welcome.patient.tip1": "Describe your symptoms clearly",
+  "chat.welcome.patient.tip2": "Ask about medications or treatments",
+  "chat.welcome.patient.tip3": "Request information in simple language",
+  "chat.welcome.patient.tip4": "Always consult a doctor for serious concerns",
+  "chat.welcome.professional.title": "Healthcare Professional Portal",
+  "chat.welcome.professional.description":
+    "Access evidence-based clinical guidelines and medical protocols. All information is sourced from verified medical databases.",
+  "chat.welcome.professional.tip1": "Search for clinical guidelines",
+  "chat.welcome.professional.tip2": "Ask about drug interactions",
+  "chat.welcome.professional.tip3": "Request diagnostic criteria",
+  "chat.welcome.professional.tip4": "Access treatment protocols",
+  "chat.welcome.askAbout": "You can ask me about:",
+  "chat.welcome.secure": "Secure & Private",
+  "chat.welcome.notEmergency": "Not for emergencies",
+  "chat.searching": "Searching medical knowledge...",
+  "chat.searchingDetail": "Analyzing your query against Zambian healthcare guidelines",
+  "chat.placeholder.patient": "Describe your symptoms or ask a health question...",
+  "chat.placeholder.professional": "Search clinical guidelines or ask about treatments...",
+  "chat.emergencyNotice": "For medical emergencies, contact your nearest healthcare facility immediately",
+  "chat.error": "I apologize, but I'm having trouble accessing medical information right now.",
+  "chat.errorRetry": "Please try again in a moment.",
+  "chat.answerStopped": "[Answer stopped]",
+
+  "input.placeholder": "Ask about symptoms, treatments, medications...",
+  "input.empty": "Message cannot be empty",
+  "input.send": "Send message",
+  "input.stop": "Stop answer",
+
+  "message.you": "You",
+  "message.assistant": "MoyoHealth Assistant",
+  "message.sources": "Sources:",
+  "message.page": "page {page}",
+  "message.uncited": "This answer does not cite the sources above. Check it against them before relying on it.",
+  "message.unsupported": "Not supported by the sources below",
+  "message.replaced": "Some cited guidance has been replaced. Follow the current version.",
+  "message.replacedBy": "replaced by {title}",
+  "message.status.superseded": "Superseded",
+  "message.status.withdrawn": "Withdrawn",
+  "message.drugAlerts": "Safety alerts for medicines mentioned here",
+  "message.alert.recall": "Recall",
+  "message.alert.safety-communication": "Safety communication",
+  "message.alert.issued": "Issued {date} by {source}",
+  "message.alert.details": "Read the full notice",
+  "message.askedIn": "Asked in {language}. Searched English guidelines for: “{query}”",
+  "message.confidence.high": "High confidence",
+  "message.confidence.medium": "Medium confidence",
+  "message.confidence.low": "Low confidence",
+  "message.confidence.insufficient": "Not found in guidelines",
+
+  "emergency.dangerSigns": "Danger signs: {signs}",
+
+  "outbreak.title": "Current outbreaks in Zambia and neighbouring countries",
+  "outbreak.published": "{source}, {date}",
+  "outbreak.dismiss": "Dismiss outbreak alerts",
+
+  "search.open": "Search guidelines",
+  "search.title": "Search Guidelines",
+  "search.back": "Back to chat",
+  "search.placeholder": "Search guidelines, medicines, conditions...",
+  "search.clearQuery": "Clear search",
+  "search.clearFilters": "Clear filters",
+  "search.resultCount.one": "1 result",
+  "search.resultCount.other": "{count} results",
+  "search.prompt": "Type at least 2 characters to search",
+  "search.noResults": "No documents match your search",
+  "search.noResultsHint": "Try other words or remove some filters.",
+  "search.error": "Search failed. Please try again.",
+  "search.retry": "Try again",
+  "search.loading": "Searching...",
+  "search.loadingMore": "Loading more results...",
+  "search.end": "End of results",
+  "search.relevance": "{percent}% match",
+  "search.updated": "Updated {date}",
+  "search.facet.category": "Category",
+  "search.facet.language": "Language",
+  "search.facet.audience": "Audience",
+  "search.facet.region": "Region",
+
+  "documents.close": "Close",
+  "documents.loading": "Loading document...",
+  "documents.notFound": "This document could not be found.",
+  "documents.error": "Could not load this document.",
+  "documents.page": "Page {page}",
+  "documents.openOriginal": "Open original source",
+  "documents.cited": "Cited passage",
+
+  "category.clinical-guideline": "Clinical guideline",
+  "category.drug-info": "Drug information",
+  "category.disease-reference": "Disease reference",
+  "category.patient-education": "Patient education",
+  "audience.healthcare-professional": "Professionals",
+  "audience.patient": "Patients",
+  "audience.both": "Everyone",
+  "region.zambia": "Zambia",
+  "region.southern-africa": "Southern Africa",
+  "region.global": "Global",
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, string>;
@@ -0,0 +1,140 @@
+import type { Catalog } from "./en";
+
+/**
+ * Nyanja (Chinyanja) UI strings. Have changes reviewed by a native speaker.
+ */
+export const ny: Catalog = {
+  "app.name": "Umoyo Health Hub",
+  "app.tagline": "Pamtima pa Zaumoyo ku Zambia",
+  "app.professionalSignInRequired": "Ogwira ntchito za umoyo ayenera kulowa kaye. Chonde lowani.",
+
+  "language.label": "Chiyankhulo",
+  "language.en": "English",
+  "language.ny": "Chinyanja",
+  "language.bem": "Ichibemba",
+
+  "role.subtitle": "Malangizo odalirika a zaumoyo kwa odwala ndi ogwira ntchito za umoyo ku Zambia konse",
+  "role.patient.title": "Ndine Wodwala",
+  "role.patient.description": "Pezani uthenga wodalirika wa zaumoyo m'chiyankhulo chosavuta",
+  "role.patient.button": "Pitirizani ngati Wodwala",
+  "role.patient.feature1": "Chiyankhulo chosavuta",
+  "role.patient.feature2": "Malangizo a zaumoyo mwachangu",
+  "role.patient.feature3": "Ikupezeka nthawi zonse",
+  "role.professional.title": "Ndine Wogwira Ntchito za Umoyo",
+  "role.professional.description": "Pezani malangizo a chipatala ndi ndondomeko zozikidwa pa umboni",
+  "role.professional.button": "Lowani ngati Wogwira Ntchito za Umoyo",
+  "role.professional.feature1": "Malangizo a chipatala",
+  "role.professional.feature2": "Ndondomeko zozikidwa pa umboni",
+  "role.professional.feature3": "Zida za akatswiri",
+  "role.processing": "Tikukonza...",
+  "role.footer.secure": "Chotetezeka ndi Chachinsinsi",
+  "role.footer.guidelines": "Malangizo a Zaumoyo a ku Zambia",
+  "role.footer.patientFirst": "Wodwala Patsogolo",
+  "role.footer.notice":
+    "Umoyo Health Hub imatsatira malangizo a Unduna wa Zaumoyo ku Zambia. Pa zadzidzidzi, pitani kuchipatala chapafupi nthawi yomweyo.",
+
+  "chat.mode.patient": "Gawo la Odwala",
+  "chat.mode.professional": "Gawo la Akatswiri",
+  "chat.clear": "Fufutani Zokambirana",
+  "chat.exit": "Tulukani",
+  "chat.restoring": "Tikubwezeretsa zokambirana zanu...",
+  "chat.welcome.patient.title": "Takulandirani ku Umoyo Health Hub",
+  "chat.welcome.patient.description":
+    "Ndili pano kuti ndikupatseni uthenga wa zaumoyo m'mawu osavuta. Kumbukirani, sindilowa m'malo mwa malangizo a dokotala.",
+  "chat.welcome.patient.tip1": "Fotokozani bwino zizindikiro zanu",
+  "chat.welcome.patient.tip2": "Funsani za mankhwala kapena chithandizo",
+  "chat.welcome.patient.tip3": "Pemphani uthenga m'chiyankhulo chosavuta",
+  "chat.welcome.patient.tip4": "Nthawi zonse onanani ndi dokotala pa nkhani zazikulu",
+  "chat.welcome.professional.title": "Malo a Akatswiri a Zaumoyo",
+  "chat.welcome.professional.description":
+    "Pezani malangizo a chipatala ndi ndondomeko zozikidwa pa umboni. Uthenga wonse ukuchokera ku malo otsimikizika a zachipatala.",
+  "chat.welcome.professional.tip1": "Sakani malangizo a chipatala",
+  "chat.welcome.professional.tip2": "Funsani za momwe mankhwala amakhudzirana",
+  "chat.welcome.professional.tip3": "Pemphani njira zodziwira matenda",
+  "chat.welcome.professional.tip4": "Pezani ndondomeko za chithandizo",
+  "chat.welcome.askAbout": "Mungandifunse za:",
+  "chat.welcome.secure": "Chotetezeka ndi Chachinsinsi",
+  "chat.welcome.notEmergency": "Si za zadzidzidzi",
+  "chat.searching": "Tikusaka uthenga wa zachipatala...",
+  "chat.searchingDetail": "Tikuyerekeza funso lanu ndi malangizo a zaumoyo a ku Zambia",
+  "chat.placeholder.patient": "Fotokozani zizindikiro zanu kapena funsani funso la zaumoyo...",
+  "chat.placeholder.professional": "Sakani malangizo a chipatala kapena funsani za chithandizo...",
+  "chat.emergencyNotice": "Pa zadzidzidzi za zaumoyo, pitani kuchipatala chapafupi nthawi yomweyo",
+  "chat.error": "Pepani, sindikutha kupeza uthenga wa zachipatala pakali pano.",
+  "chat.errorRetry": "Chonde yesaninso posachedwa.",
+  "chat.answerStopped": "[Yankho layimitsidwa]",
+
+  "input.placeholder": "Funsani za zizindikiro, chithandizo, mankhwala...",
+  "input.empty": "Uthenga sungakhale wopanda kanthu",
+  "input.send": "Tumizani uthenga",
+  "input.stop": "Imitsani yankho",
+
+  "message.you": "Inu",
+  "message.assistant": "MoyoHealth Assistant",
+  "message.sources": "Magwero:",
+  "message.page": "tsamba {page}",
+  "message.uncited": "Yankho ili silitchula magwero ali pamwambawa. Lifanizeni nawo musanalidalire.",
+  "message.unsupported": "Sizikuchirikizidwa ndi magwero ali m'munsiwa",
+  "message.replaced": "Malangizo ena otchulidwa asinthidwa. Tsatirani atsopano.",
+  "message.replacedBy": "asinthidwa ndi {title}",
+  "message.status.superseded": "Asinthidwa",
+  "message.status.withdrawn": "Achotsedwa",
+  "message.drugAlerts": "Machenjezo a chitetezo a mankhwala otchulidwa pano",
+  "message.alert.recall": "Mankhwala obwezedwa",
+  "message.alert.safety-communication": "Uthenga wa chitetezo",
+  "message.alert.issued": "Yatulutsidwa {date} ndi {source}",
+  "message.alert.details": "Werengani chidziwitso chonse",
+  "message.askedIn": "Mwafunsa m'{language}. Tasaka malangizo a Chingerezi ndi: “{query}”",
+  "message.confidence.high": "Chidaliro chachikulu",
+  "message.confidence.medium": "Chidaliro chapakati",
+  "message.confidence.low": "Chidaliro chochepa",
+  "message.confidence.insufficient": "Sichinapezeke m'malangizo",
+
+  "emergency.dangerSigns": "Zizindikiro zoopsa: {signs}",
+
+  "outbreak.title": "Miliri yomwe ilipo ku Zambia ndi maiko oyandikana nawo",
+  "outbreak.published": "{source}, {date}",
+  "outbreak.dismiss": "Chotsani machenjezo a miliri",
+
+  "search.open": "Sakani malangizo",
+  "search.title": "Sakani Malangizo",
+  "search.back": "Bwererani ku zokambirana",
+  "search.placeholder": "Sakani malangizo, mankhwala, matenda...",
+  "search.clearQuery": "Fufutani zosaka",
+  "search.clearFilters": "Chotsani zosefa",
+  "search.resultCount.one": "Chotsatira 1",
+  "search.resultCount.other": "Zotsatira {count}",
+  "search.prompt": "Lembani zilembo ziwiri kapena kuposerapo kuti musake",
+  "search.noResults": "Palibe zikalata zogwirizana ndi zomwe mwasaka",
+  "search.noResultsHint": "Yesani mawu ena kapena chotsani zosefa zina.",
+  "search.error": "Kusaka kwalephera. Chonde yesaninso.",
+  "search.retry": "Yesaninso",
+  "search.loading": "Tikusaka...",
+  "search.loadingMore": "Tikutenga zotsatira zina...",
+  "search.end": "Zotsatira zatha",
+  "search.relevance": "Zogwirizana {percent}%",
+  "search.updated": "Zasinthidwa {date}",
+  "search.facet.category": "Mtundu",
+  "search.facet.language": "Chiyankhulo",
+  "search.facet.audience": "Omvera",
+  "search.facet.region": "Dera",
+
+  "documents.close": "Tsekani",
+  "documents.loading": "Tikutsegula chikalata...",
+  "documents.notFound": "Chikalatachi sichinapezeke.",
+  "documents.error": "Sitinathe kutsegula chikalatachi.",
+  "documents.page": "Tsamba {page}",
+  "documents.openOriginal": "Tsegulani gwero loyambirira",
+  "documents.cited": "Gawo lotchulidwa",
+
+  "category.clinical-guideline": "Malangizo a chipatala",
+  "category.drug-info": "Uthenga wa mankhwala",
+  "category.disease-reference": "Za matenda",
+  "category.patient-education": "Maphunziro a odwala",
+  "audience.healthcare-professional": "Akatswiri",
+  "audience.patient": "Odwala",
+  "audience.both": "Onse",
+  "region.zambia": "Zambia",
+  "region.southern-africa": "Kummwera kwa Africa",
+  "region.global": "Dziko lonse",
+};
@@ -0,0 +1,11 @@
+import { createContext } from "react";
+import type { MessageKey } from "./catalogs/en";
+import type { MessageParams, UiLanguage } from "./translate";
+
+export interface I18nContextValue {
+  language: UiLanguage;
+  setLanguage: (language: UiLanguage) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
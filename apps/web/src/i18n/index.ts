@@ -0,0 +1,5 @@
+// UI localisation: message catalogs, lookup and the language provider
+export type { Catalog, MessageKey } from "./catalogs/en";
+export { translate, catalogs, UI_LANGUAGES, type UiLanguage, type MessageParams } from "./translate";
+export { I18nContext, type I18nContextValue } from "./context";
+export { default as I18nProvider } from "./I18nProvider";
@@ -0,0 +1,26 @@
+import type { DocumentLanguage } from "@umoyo/shared";
+import { en, type Catalog, type MessageKey } from "./catalogs/en";
+import { ny } from "./catalogs/ny";
+import { bem } from "./catalogs/bem";
+
+/** UI languages match the languages the assistant answers in */
+export type UiLanguage = DocumentLanguage;
+
+export type MessageParams = Record<string, string | number>;
+
+export const UI_LANGUAGES: UiLanguage[] = ["en", "ny", "bem"];
+
+export const catalogs: Record<UiLanguage, Catalog> = { en, ny, bem };
+
+/**
+ * Looks up a message and fills `{name}` placeholders
+ */
+export function translate(language: UiLanguage, key: MessageKey, params?: MessageParams): string {
+  const template = catalogs[language][key] ?? en[key];
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
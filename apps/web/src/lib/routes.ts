@@ -0,0 +1,34 @@
+/**
+ * Hash routes, so deep links work on static hosting without rewrites
+ */
+
+export interface DocumentRoute {
+  documentId: string;
+  page?: number;
+  /** Chunk to highlight, usually the cited one */
+  chunkId?: string;
+}
+
+const DOCUMENT_ROUTE = /^#\/documents\/([^?]+)(?:\?(.*))?$/;
+
+export function documentHref({ documentId, page, chunkId }: DocumentRoute): string {
+  const params = new URLSearchParams();
+  if (page) params.set("page", String(page));
+  if (chunkId) params.set("chunk", chunkId);
+  const query = params.toString();
+  return `#/documents/${encodeURIComponent(documentId)}${query ? `?${query}` : ""}`;
+}
+
+export function parseDocumentRoute(hash: string): DocumentRoute | null {
+  const match = DOCUMENT_ROUTE.exec(hash);
+  if (!match) {
+    return null;
+  }
+  const params = new URLSearchParams(match[2] ?? "");
+  const page = Number(params.get("page"));
+  return {
+    documentId: decodeURIComponent(match[1]),
+    page: Number.isInteger(page) && page > 0 ? page : undefined,
+    chunkId: params.get("chunk") ?? undefined,
+  };
+}
@@ -1,20 +1,60 @@
-import { httpBatchLink } from "@trpc/client";
+import { httpBatchLink, httpSubscriptionLink, splitLink } from "@trpc/client";
+import type { TRPCClient } from "@trpc/client";
 import { createTRPCReact } from "@trpc/react-query";
-// @ts-expect-error - AppRouter type will be available after functions are built
-import type { AppRouter } from "../../../functions/src/index";
+import { API_FUNCTION_REGION } from "@umoyo/shared";
+import { auth } from "./firebase";
+import type { AppRouter } from "../../../../functions/src/index";
 
 export const trpc = createTRPCReact<AppRouter>();
 
+/**
+ * Functions emulator URL for the `api` function, used when VITE_TRPC_URL is not set
+ */
+function getEmulatorUrl() {
+  const projectId = import.meta.env.VITE_FIREBASE_PROJECT_ID || "demo-umoyo";
+  return `http://127.0.0.1:5001/${projectId}/${API_FUNCTION_REGION}/api`;
+}
+
+/**
+ * Attaches the signed-in user's Firebase ID token as a bearer token
+ */
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await auth?.currentUser?.getIdToken();
+  return token ? { authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * EventSource cannot set headers and puts connection params in the URL, so
+ * signed-in users open streams with a single-use ticket instead of the token
+ */
+async function getStreamParams(client: TRPCClient<AppRouter>): Promise<Record<string, string>> {
+  if (!auth?.currentUser) {
+    return {};
+  }
+  const { ticket } = await client.chat.streamTicket.mutate();
+  return { ticket };
+}
+
 export function createTRPCClient() {
-  // @ts-expect-error - Client will work at runtime
-  return trpc.createClient({
+  const url = import.meta.env.VITE_TRPC_URL || getEmulatorUrl();
+
+  const client: TRPCClient<AppRouter> = trpc.createClient({
     links: [
-      httpBatchLink({
-        url: import.meta.env.VITE_TRPC_URL || "http://localhost:5001/api",
+      splitLink({
+        condition: (op) => op.type === "subscription",
+        // Evaluated for every connection, so a reconnect fetches a fresh ticket
+        true: httpSubscriptionLink({
+          url,
+          connectionParams: () => getStreamParams(client),
+        }),
+        false: httpBatchLink({
+          url,
+          headers: getAuthHeaders,
+        }),
       }),
     ],
   });
+  return client;
 }
 
 export const trpcClient = createTRPCClient();
-
@@ -3,6 +3,7 @@ import ReactDOM from "react-dom/client";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { trpc, trpcClient } from "./lib/trpc";
 import App from "./App";
+import { I18nProvider } from "./i18n";
 import "./index.css";
 
 const queryClient = new QueryClient({
@@ -14,13 +15,15 @@ const queryClient = new QueryClient({
   },
 });
 
-const TRPCProvider = (trpc as any).Provider;
+const TRPCProvider = trpc.Provider;
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <TRPCProvider client={trpcClient} queryClient={queryClient}>
       <QueryClientProvider client={queryClient}>
-        <App />
+        <I18nProvider>
+          <App />
+        </I18nProvider>
       </QueryClientProvider>
     </TRPCProvider>
   </React.StrictMode>
@@ -1,18 +1,18 @@
-import { initTRPC } from "@trpc/server";
+import { router } from "./trpc";
+import { alertsRouter } from "./routers/alerts.router";
 import { chatRouter } from "./routers/chat.router";
+import { documentsRouter } from "./routers/documents.router";
 import { searchRouter } from "./routers/search.router";
 import { userRouter } from "./routers/user.router";
 
-const t = initTRPC.create();
-
-export const router = t.router;
-export const publicProcedure = t.procedure;
+export { router, publicProcedure, protectedProcedure, professionalProcedure } from "./trpc";
 
 export const app = router({
+  alerts: alertsRouter,
   chat: chatRouter,
+  documents: documentsRouter,
   search: searchRouter,
   user: userRouter,
 });
 
 export type AppRouter = typeof app;
-
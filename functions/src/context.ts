@@ -0,0 +1,49 @@
+import { randomUUID } from "node:crypto";
+import type { Response } from "express";
+import type { Request } from "firebase-functions/v2/https";
+import { validateAuthToken } from "./middleware/auth.middleware";
+import { streamTicketService } from "./services/stream-ticket.service";
+
+interface CreateContextOptions {
+  req: Request;
+  res: Response;
+  /** Sent by subscription links, which cannot set request headers */
+  connectionParams?: Record<string, string | undefined> | null;
+}
+
+/**
+ * Extracts the bearer token from the Authorization header
+ */
+function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return undefined;
+  }
+  return header.slice("Bearer ".length).trim() || undefined;
+}
+
+/**
+ * Builds the per-request tRPC context. Subscriptions authenticate with a
+ * stream ticket in their connection params instead of a bearer token.
+ */
+export async function createContext({ req, res, connectionParams }: CreateContextOptions) {
+  const requestId = req.get("x-request-id") || randomUUID();
+  res.setHeader("x-request-id", requestId);
+
+  const authToken = getBearerToken(req);
+  const ticket = connectionParams?.ticket;
+  const user = authToken
+    ? await validateAuthToken(authToken)
+    : ticket
+      ? await streamTicketService.redeem(ticket)
+      : null;
+
+  return {
+    headers: req.headers,
+    authToken,
+    user,
+    requestId,
+  };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
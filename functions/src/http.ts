@@ -0,0 +1,61 @@
+import { nodeHTTPRequestHandler } from "@trpc/server/adapters/node-http";
+import type { Response } from "express";
+import type { Request } from "firebase-functions/v2/https";
+import { app } from "./app";
+import { createContext } from "./context";
+
+/**
+ * Origins allowed to call the API from a browser.
+ * Defaults to the Vite dev server and the Firebase Hosting domains.
+ */
+export function getCorsOrigins(): string[] {
+  if (process.env.CORS_ORIGINS) {
+    return process.env.CORS_ORIGINS.split(",").map((origin) => origin.trim());
+  }
+
+  const projectId = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT_ID || "";
+  const origins = ["http://localhost:3000", "http://127.0.0.1:3000"];
+  if (projectId) {
+    origins.push(`https://${projectId}.web.app`, `https://${projectId}.firebaseapp.com`);
+  }
+  return origins;
+}
+
+/**
+ * Resolves the tRPC procedure path from the request path.
+ * Requests may arrive directly (`/chat.query`) or through the
+ * Hosting rewrite (`/api/chat.query`).
+ */
+function getProcedurePath(req: Request): string {
+  return req.path.replace(/^\/api(?=\/|$)/, "").replace(/^\/+/, "");
+}
+
+/**
+ * HTTP handler serving the tRPC AppRouter
+ */
+export async function handleApiRequest(req: Request, res: Response): Promise<void> {
+  const path = getProcedurePath(req);
+
+  if (path === "health") {
+    res.status(200).json({
+      status: "ok",
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  await nodeHTTPRequestHandler({
+    router: app,
+    req,
+    res,
+    path,
+    allowBatching: true,
+    createContext: ({ req, res, info }) =>
+      createContext({ req, res, connectionParams: info.connectionParams }),
+    onError: ({ path, error, ctx }) => {
+      if (error.code === "INTERNAL_SERVER_ERROR") {
+        console.error(`tRPC error on ${path ?? "<no-path>"} [${ctx?.requestId ?? "-"}]:`, error);
+      }
+    },
+  });
+}
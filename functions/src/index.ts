@@ -1,12 +1,22 @@
 import { initializeApp } from "firebase-admin/app";
+import { onRequest } from "firebase-functions/v2/https";
+import { API_FUNCTION_REGION } from "@umoyo/shared";
 import { app } from "./app";
 import type { AppRouter } from "./app";
+import { getCorsOrigins, handleApiRequest } from "./http";
 
 initializeApp();
 
 export { app };
 export type { AppRouter };
 
-// TODO: Set up tRPC HTTP endpoint using Firebase Cloud Functions
-// This will require Express adapter or similar for tRPC integration
-
+/**
+ * tRPC HTTP endpoint
+ */
+export const api = onRequest(
+  {
+    region: API_FUNCTION_REGION,
+    cors: getCorsOrigins(),
+  },
+  handleApiRequest
+);
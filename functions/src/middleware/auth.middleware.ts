@@ -1,5 +1,7 @@
+import { TRPCError } from "@trpc/server";
 import { getAuth } from "firebase-admin/auth";
 import type { DecodedIdToken } from "firebase-admin/auth";
+import type { UserRole } from "@umoyo/shared";
 
 /**
  * Middleware to validate Firebase Authentication token
@@ -22,11 +24,36 @@ export async function validateAuthToken(
 }
 
 /**
- * Creates a tRPC middleware for authentication
+ * Resolves the user's role from the `role` custom claim.
+ * Users without the claim are treated as patients.
  */
-export function createAuthMiddleware() {
-  // TODO: Implement tRPC authentication middleware
-  // This will be used to protect authenticated routes
-  throw new Error("Auth middleware not implemented yet");
+export function getUserRole(user: DecodedIdToken): UserRole {
+  return user.role === "healthcare-professional" ? "healthcare-professional" : "patient";
 }
 
+/**
+ * Ensures the request carries a valid Firebase ID token
+ */
+export function requireUser(user: DecodedIdToken | null): DecodedIdToken {
+  if (!user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Authentication required",
+    });
+  }
+  return user;
+}
+
+/**
+ * Ensures the authenticated user holds the given role
+ */
+export function requireRole(user: DecodedIdToken | null, role: UserRole): DecodedIdToken {
+  const authedUser = requireUser(user);
+  if (getUserRole(authedUser) !== role) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `This resource is restricted to the ${role} role`,
+    });
+  }
+  return authedUser;
+}
@@ -0,0 +1,13 @@
+import { router, publicProcedure } from "../trpc";
+import { outbreakQuerySchema } from "@umoyo/shared";
+import { outbreakService } from "../services/outbreak.service";
+
+export const alertsRouter = router({
+  /**
+   * Recent WHO outbreak news for a region, newest first. Patients and
+   * professionals both see them, signed in or not.
+   */
+  outbreaks: publicProcedure
+    .input(outbreakQuerySchema)
+    .query(({ input }) => outbreakService.listActive(input.region)),
+});
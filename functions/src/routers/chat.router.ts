@@ -1,34 +1,357 @@
-import { z } from "zod";
-import { router, publicProcedure } from "../app";
-import { chatQuerySchema } from "@umoyo/shared";
+import { TRPCError } from "@trpc/server";
+import { router, publicProcedure, protectedProcedure } from "../trpc";
+import {
+  chatQuerySchema,
+  listSessionsSchema,
+  renameSessionSchema,
+  documentLanguageSchema,
+  sessionIdSchema,
+  validateCitations,
+} from "@umoyo/shared";
+import type {
+  ChatQuerySchemaType,
+  ChatStreamEvent,
+  DocumentLanguage,
+  EmergencyGuidance,
+  QueryTrace,
+} from "@umoyo/shared";
+import type { Context } from "../context";
 import { ragService } from "../services/rag.service";
-import { geminiService } from "../services/gemini.service";
+import { geminiService, type Conversation } from "../services/gemini.service";
+import { LANGUAGE_NAMES, languageService } from "../services/language.service";
+import type { PromptTemplate } from "../services/prompts";
+import { sessionService } from "../services/session.service";
+import { groundingService, type Evidence } from "../services/grounding.service";
+import { conversationService, type PreparedTurn } from "../services/conversation.service";
+import { formatEmergency, triageService } from "../services/triage.service";
+import { drugAlertService } from "../services/drug-alert.service";
+import { streamTicketService } from "../services/stream-ticket.service";
+import { requireRole } from "../middleware/auth.middleware";
+
+/**
+ * Professional-audience answers are only available to verified professionals
+ */
+function assertAudienceAllowed(ctx: Context, context: ChatQuerySchemaType["context"]) {
+  if (context?.audience === "healthcare-professional") {
+    requireRole(ctx.user, "healthcare-professional");
+  }
+}
+
+interface Turn extends PreparedTurn {
+  sessionId: string;
+}
+
+/**
+ * Opens the session and stores the user's message for signed-in users.
+ * Anonymous conversations are not persisted.
+ */
+async function openSession(ctx: Context, input: ChatQuerySchemaType): Promise<string> {
+  if (!ctx.user) {
+    return input.sessionId || `session-${Date.now()}`;
+  }
+
+  const sessionId = await sessionService.ensureSession(ctx.user.uid, input.sessionId, {
+    firstMessage: input.message,
+    audience: input.context?.audience,
+  });
+  await sessionService.addMessage(ctx.user.uid, sessionId, {
+    role: "user",
+    content: input.message,
+  });
+  return sessionId;
+}
+
+/**
+ * Loads the conversation history, then opens the session. Anonymous
+ * conversations have no history. `query` is the English form of the message.
+ */
+async function startTurn(ctx: Context, input: ChatQuerySchemaType, query: string): Promise<Turn> {
+  const prepared = ctx.user
+    ? await conversationService.prepare(ctx.user.uid, input.sessionId, query)
+    : { retrievalQuery: query, conversation: { turns: [] } };
+  const sessionId = await openSession(ctx, input);
+  return { ...prepared, sessionId };
+}
+
+/**
+ * `context.language` (the client's UI language) is a default. A message
+ * that is clearly Nyanja or Bemba is answered in that language instead.
+ */
+function resolveLanguage(message: string, requested?: string): DocumentLanguage {
+  const detected = languageService.detect(message);
+  if (detected !== "en") {
+    return detected;
+  }
+  const parsed = documentLanguageSchema.safeParse(requested);
+  return parsed.success ? parsed.data : "en";
+}
+
+interface PreparedAnswer {
+  sessionId: string;
+  evidence: Evidence;
+  conversation: Conversation;
+  language: DocumentLanguage;
+  query: QueryTrace;
+}
+
+/**
+ * Resolves the question's language, retrieves with an English query and
+ * gates the evidence
+ */
+async function prepareAnswer(ctx: Context, input: ChatQuerySchemaType): Promise<PreparedAnswer> {
+  const { message, context } = input;
+  const language = resolveLanguage(message, context?.language);
+  const translated = await languageService.toEnglish(message, language);
+
+  const { sessionId, retrievalQuery, conversation } = await startTurn(ctx, input, translated);
+  // The question language is not a document filter: answers come from English documents
+  const retrieved = await ragService.searchDocuments(retrievalQuery, {
+    category: context?.category,
+    audience: context?.audience,
+  });
+
+  return {
+    sessionId,
+    evidence: groundingService.assessEvidence(retrieved, context?.audience),
+    conversation,
+    language,
+    query: {
+      original: message,
+      language,
+      ...(language !== "en" ? { translated } : {}),
+      retrievalQuery,
+    },
+  };
+}
+
+/**
+ * Patient questions naming a danger sign skip retrieval entirely.
+ * Professionals asking about emergencies get a normal answer.
+ */
+function triage(input: ChatQuerySchemaType): EmergencyGuidance | null {
+  if (input.context?.audience === "healthcare-professional") {
+    return null;
+  }
+  const language = resolveLanguage(input.message, input.context?.language);
+  return triageService.assess(input.message, language);
+}
+
+async function saveEmergency(ctx: Context, sessionId: string, emergency: EmergencyGuidance) {
+  const message = {
+    role: "assistant" as const,
+    content: formatEmergency(emergency),
+    emergency,
+  };
+
+  if (!ctx.user) {
+    return { ...message, id: `msg-${Date.now()}`, timestamp: new Date() };
+  }
+  return sessionService.addMessage(ctx.user.uid, sessionId, message);
+}
+
+/**
+ * Stores the answer after checking its [n] markers and claims against the
+ * sources it was generated from. Generated answers record their template
+ * and carry active safety alerts for drugs the question or answer names.
+ * A stopped answer is flagged rather than marked in its text, so clients
+ * can label it in the user's language.
+ */
+async function saveAnswer(
+  ctx: Context,
+  prepared: PreparedAnswer,
+  answer: string,
+  template?: PromptTemplate,
+  { stopped = false }: { stopped?: boolean } = {}
+) {
+  const { sessionId, evidence, language, query } = prepared;
+  const { sources } = evidence;
+  const { content, citations } = validateCitations(answer, sources.length);
+  if (citations.dropped.length > 0 || citations.uncited) {
+    console.warn(`Citation check for session ${sessionId}:`, citations);
+  }
+  const grounding = groundingService.verify(content, evidence, language);
+  const drugAlerts = await drugAlertService.findAlerts(
+    [query.original, query.translated ?? "", content].filter(Boolean)
+  );
+
+  const message = {
+    role: "assistant" as const,
+    content,
+    sources,
+    citations,
+    grounding,
+    query,
+    drugAlerts,
+    ...(stopped ? { stopped } : {}),
+    ...(template
+      ? {
+          prompt: { templateId: template.id, version: template.version },
+          disclaimer: template.disclaimer,
+        }
+      : {}),
+  };
+
+  if (!ctx.user) {
+    return { ...message, id: `msg-${Date.now()}`, timestamp: new Date() };
+  }
+  const stored = await sessionService.addMessage(ctx.user.uid, sessionId, message);
+  return { ...stored, grounding };
+}
+
+/**
+ * The fixed "not found in trusted guidelines" reply, in the user's language
+ */
+async function abstain(ctx: Context, prepared: PreparedAnswer) {
+  const reply = await languageService.fromEnglish(groundingService.abstentionMessage, prepared.language);
+  return saveAnswer(ctx, prepared, reply);
+}
+
+function notFound(sessionId: string): never {
+  throw new TRPCError({
+    code: "NOT_FOUND",
+    message: `Chat session ${sessionId} not found`,
+  });
+}
 
 export const chatRouter = router({
   query: publicProcedure
     .input(chatQuerySchema)
-    .mutation(async ({ input }) => {
-      // TODO: Implement RAG query flow
-      // 1. Retrieve relevant documents using RAG service
-      // 2. Generate response using Gemini with context
-      // 3. Return response with sources
-      
-      const { message, sessionId, context } = input;
-      
-      // Placeholder implementation
-      const sources = await ragService.searchDocuments(message, context);
-      const response = await geminiService.generateResponse(message, sources);
-      
+    .mutation(async ({ input, ctx }) => {
+      const { message, context } = input;
+      assertAudienceAllowed(ctx, context);
+
+      const emergency = triage(input);
+      if (emergency) {
+        const sessionId = await openSession(ctx, input);
+        return {
+          message: await saveEmergency(ctx, sessionId, emergency),
+          sources: [],
+          sessionId,
+          confidence: "high" as const,
+          claims: [],
+          drugAlerts: [],
+        };
+      }
+
+      const prepared = await prepareAnswer(ctx, input);
+      const { sessionId, evidence, conversation, language } = prepared;
+
+      let assistantMessage;
+      if (evidence.confidence === "insufficient") {
+        assistantMessage = await abstain(ctx, prepared);
+      } else {
+        const template = geminiService.selectTemplate(context?.audience, context?.category);
+        const response = await geminiService.generateResponse(message, evidence.sources, {
+          template,
+          conversation,
+          answerLanguage: language === "en" ? undefined : LANGUAGE_NAMES[language],
+        });
+        assistantMessage = await saveAnswer(ctx, prepared, response, template);
+      }
+
       return {
-        message: {
-          id: `msg-${Date.now()}`,
-          role: "assistant" as const,
-          content: response,
-          timestamp: new Date(),
-        },
-        sources,
-        sessionId: sessionId || `session-${Date.now()}`,
+        message: assistantMessage,
+        sources: evidence.sources,
+        sessionId,
+        confidence: assistantMessage.grounding.confidence,
+        claims: assistantMessage.grounding.claims,
+        prompt: assistantMessage.prompt,
+        drugAlerts: assistantMessage.drugAlerts ?? [],
       };
     }),
-});
 
+  /**
+   * Streaming variant of `query`: emits the retrieved sources first,
+   * then answer tokens as they are generated, then the final message.
+   * Unsubscribing aborts generation; the partial answer is still saved.
+   */
+  stream: publicProcedure
+    .input(chatQuerySchema)
+    .subscription(async function* ({ input, ctx, signal }): AsyncGenerator<ChatStreamEvent> {
+      const { message, context } = input;
+      assertAudienceAllowed(ctx, context);
+
+      const emergency = triage(input);
+      if (emergency) {
+        const sessionId = await openSession(ctx, input);
+        yield { type: "sources", sessionId, sources: [] };
+        yield { type: "done", message: await saveEmergency(ctx, sessionId, emergency) };
+        return;
+      }
+
+      const prepared = await prepareAnswer(ctx, input);
+      const { sessionId, evidence, conversation, language } = prepared;
+      yield { type: "sources", sessionId, sources: evidence.sources };
+
+      if (evidence.confidence === "insufficient") {
+        yield { type: "done", message: await abstain(ctx, prepared) };
+        return;
+      }
+
+      const template = geminiService.selectTemplate(context?.audience, context?.category);
+      let content = "";
+      let completed = false;
+      try {
+        for await (const text of geminiService.streamResponse(message, evidence.sources, {
+          template,
+          conversation,
+          answerLanguage: language === "en" ? undefined : LANGUAGE_NAMES[language],
+          signal,
+        })) {
+          content += text;
+          yield { type: "token", text };
+        }
+        completed = !signal?.aborted;
+      } finally {
+        if (!completed && content) {
+          await saveAnswer(ctx, prepared, content, template, { stopped: true });
+        }
+      }
+      if (!completed) return;
+
+      const assistantMessage = await saveAnswer(ctx, prepared, content, template);
+      yield { type: "done", message: assistantMessage };
+    }),
+
+  /**
+   * Single-use ticket that authenticates the next `stream` subscription,
+   * so the ID token never appears in a stream URL
+   */
+  streamTicket: protectedProcedure.mutation(async ({ ctx }) => {
+    return streamTicketService.issue(ctx.user);
+  }),
+
+  listSessions: protectedProcedure
+    .input(listSessionsSchema)
+    .query(async ({ input, ctx }) => {
+      return sessionService.listSessions(ctx.user.uid, input);
+    }),
+
+  getSession: protectedProcedure
+    .input(sessionIdSchema)
+    .query(async ({ input, ctx }) => {
+      const detail = await sessionService.getSession(ctx.user.uid, input.sessionId);
+      return detail ?? notFound(input.sessionId);
+    }),
+
+  renameSession: protectedProcedure
+    .input(renameSessionSchema)
+    .mutation(async ({ input, ctx }) => {
+      const session = await sessionService.renameSession(
+        ctx.user.uid,
+        input.sessionId,
+        input.title
+      );
+      return session ?? notFound(input.sessionId);
+    }),
+
+  deleteSession: protectedProcedure
+    .input(sessionIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const deleted = await sessionService.deleteSession(ctx.user.uid, input.sessionId);
+      if (!deleted) {
+        notFound(input.sessionId);
+      }
+      return { sessionId: input.sessionId, deleted: true };
+    }),
+});
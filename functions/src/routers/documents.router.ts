@@ -0,0 +1,27 @@
+import { TRPCError } from "@trpc/server";
+import { router, publicProcedure } from "../trpc";
+import { documentIdSchema } from "@umoyo/shared";
+import { ragService } from "../services/rag.service";
+import { requireRole } from "../middleware/auth.middleware";
+
+export const documentsRouter = router({
+  /**
+   * Metadata and chunked text for the document viewer. Documents written
+   * only for professionals need the professional role, as in chat.
+   */
+  get: publicProcedure
+    .input(documentIdSchema)
+    .query(async ({ input, ctx }) => {
+      const document = await ragService.getDocument(input.documentId);
+      if (!document) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Document ${input.documentId} not found`,
+        });
+      }
+      if (document.metadata.audience === "healthcare-professional") {
+        requireRole(ctx.user, "healthcare-professional");
+      }
+      return document;
+    }),
+});
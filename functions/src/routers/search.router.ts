@@ -1,29 +1,23 @@
-import { router, publicProcedure } from "../app";
+import { TRPCError } from "@trpc/server";
+import { router, professionalProcedure } from "../trpc";
 import { searchParamsSchema } from "@umoyo/shared";
-import { ragService } from "../services/rag.service";
+import { InvalidCursorError, searchService } from "../services/search.service";
 
 export const searchRouter = router({
-  search: publicProcedure
+  /**
+   * Ranked documents with the total hit count, facet counts and a cursor
+   * for the next page
+   */
+  search: professionalProcedure
     .input(searchParamsSchema)
     .query(async ({ input }) => {
-      // TODO: Implement search functionality
-      // Query RAG service for documents matching search parameters
-      
-      const results = await ragService.searchDocuments(
-        input.query,
-        {
-          category: input.category,
-          language: input.language,
-          audience: input.audience,
-          region: input.region,
-        },
-        {
-          limit: input.limit || 20,
-          offset: input.offset || 0,
+      try {
+        return await searchService.search(input);
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
         }
-      );
-      
-      return results;
+        throw error;
+      }
     }),
 });
-
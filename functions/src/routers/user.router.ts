@@ -1,10 +1,8 @@
-import { router, publicProcedure } from "../app";
+import { router, protectedProcedure } from "../trpc";
+import { userService } from "../services/user.service";
 
 export const userRouter = router({
-  profile: publicProcedure.query(async () => {
-    // TODO: Implement user profile retrieval
-    // Get user profile from Firestore based on auth token
-    throw new Error("Not implemented yet");
+  profile: protectedProcedure.query(async ({ ctx }) => {
+    return userService.getOrCreateProfile(ctx.user);
   }),
 });
-
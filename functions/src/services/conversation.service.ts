@@ -0,0 +1,118 @@
+/**
+ * Conversation Service
+ * Builds the history sent with each chat turn: a window of recent turns that
+ * fits the token budget, a rolling summary of older turns, and a standalone
+ * retrieval query for follow-up questions
+ */
+
+import type { ChatMessage } from "@umoyo/shared";
+import { geminiService, type Conversation } from "./gemini.service";
+import { sessionService } from "./session.service";
+import type { ConversationTurn } from "./llm";
+
+const DEFAULT_TOKEN_BUDGET = 1500;
+const MAX_WINDOW_TURNS = 8;
+/** Rough English average; good enough for budgeting, not for billing */
+const CHARS_PER_TOKEN = 4;
+const SHORT_FOLLOW_UP_WORDS = 6;
+
+const FOLLOW_UP_PATTERN =
+  /^(and|but|also|what about|how about|what if|and if|same|then)\b|\b(it|its|that|this|these|those|they|them|their|he|she|her|him|his)\b/i;
+
+export interface PreparedTurn {
+  /** Query to run retrieval with; the message itself unless it was a follow-up */
+  retrievalQuery: string;
+  conversation: Conversation;
+}
+
+class ConversationService {
+  private readonly tokenBudget = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || DEFAULT_TOKEN_BUDGET;
+
+  /**
+   * Loads the session history before the new message is stored.
+   * Turns that no longer fit are folded into the stored summary.
+   */
+  async prepare(uid: string, sessionId: string | undefined, message: string): Promise<PreparedTurn> {
+    if (!sessionId) {
+      return { retrievalQuery: message, conversation: { turns: [] } };
+    }
+
+    const state = await sessionService.getConversationState(uid, sessionId);
+    const { window, aged } = this.splitWindow(state.messages, state.summary);
+
+    let summary = state.summary;
+    if (aged.length > 0) {
+      summary = await this.updateSummary(uid, sessionId, summary, aged);
+    }
+
+    const turns = window.map(toTurn);
+    const retrievalQuery =
+      turns.length > 0 && isFollowUp(message)
+        ? await geminiService.rewriteQuery(message, turns)
+        : message;
+
+    return { retrievalQuery, conversation: { summary, turns } };
+  }
+
+  /**
+   * Keeps the newest messages that fit the budget. The window always starts
+   * with a user message so the turns alternate from the beginning.
+   */
+  private splitWindow(messages: ChatMessage[], summary?: string) {
+    let remaining = this.tokenBudget - estimateTokens(summary ?? "");
+    let start = messages.length;
+
+    while (start > 0 && messages.length - start < MAX_WINDOW_TURNS) {
+      const cost = estimateTokens(messages[start - 1].content);
+      if (cost > remaining) {
+        break;
+      }
+      remaining -= cost;
+      start--;
+    }
+    while (start < messages.length && messages[start].role !== "user") {
+      start++;
+    }
+
+    return { window: messages.slice(start), aged: messages.slice(0, start) };
+  }
+
+  private async updateSummary(
+    uid: string,
+    sessionId: string,
+    previous: string | undefined,
+    aged: ChatMessage[]
+  ): Promise<string | undefined> {
+    try {
+      const summary = await geminiService.summarizeConversation(previous, aged.map(toTurn));
+      await sessionService.saveSummary(uid, sessionId, summary, aged[aged.length - 1].timestamp);
+      return summary;
+    } catch (error) {
+      // The aged turns are retried on the next message
+      console.warn("Conversation summary failed:", error);
+      return previous;
+    }
+  }
+}
+
+function toTurn(message: ChatMessage): ConversationTurn {
+  return {
+    role: message.role === "assistant" ? "model" : "user",
+    text: message.content,
+  };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Short messages and ones leaning on earlier turns ("what about in
+ * pregnancy?", "is it safe?") need the history to be searchable
+ */
+function isFollowUp(message: string): boolean {
+  const words = message.trim().split(/\s+/);
+  return words.length <= SHORT_FOLLOW_UP_WORDS || FOLLOW_UP_PATTERN.test(message);
+}
+
+export const conversationService = new ConversationService();
@@ -0,0 +1,57 @@
+/**
+ * Drug Alert Service
+ * Looks up active recalls and safety communications for the drugs named in
+ * a chat question or answer
+ */
+
+import type { DrugAlert } from "@umoyo/shared";
+import { createDrugAlertStore, DrugAlertMatcher, type DrugAlertStore } from "./drug-alerts";
+
+/** Alerts are reloaded from the store after this long */
+const CACHE_TTL_MS = 10 * 60 * 1000;
+/** Most alerts attached to one answer */
+const MAX_ALERTS = 5;
+
+class DrugAlertService {
+  private store: DrugAlertStore | null = null;
+  private cached: { matcher: DrugAlertMatcher; loadedAt: number } | null = null;
+
+  private getStore(): DrugAlertStore {
+    if (!this.store) {
+      this.store = createDrugAlertStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Active alerts issued within DRUG_ALERT_MAX_AGE_DAYS (default 730),
+   * indexed by drug name
+   */
+  private async getMatcher(): Promise<DrugAlertMatcher> {
+    if (this.cached && Date.now() - this.cached.loadedAt < CACHE_TTL_MS) {
+      return this.cached.matcher;
+    }
+    const maxAgeDays = parseInt(process.env.DRUG_ALERT_MAX_AGE_DAYS || "730", 10);
+    const since = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const matcher = new DrugAlertMatcher(await this.getStore().listActive(since));
+    this.cached = { matcher, loadedAt: Date.now() };
+    return matcher;
+  }
+
+  /**
+   * Alerts for drugs named in any of the texts, newest first. Lookup
+   * failures are logged and yield no alerts rather than failing the answer.
+   */
+  async findAlerts(texts: string[]): Promise<DrugAlert[]> {
+    try {
+      return (await this.getMatcher()).match(texts).slice(0, MAX_ALERTS);
+    } catch (error) {
+      console.warn("Drug alert lookup failed:", error);
+      return [];
+    }
+  }
+}
+
+export const drugAlertService = new DrugAlertService();
@@ -0,0 +1,13 @@
+import type { DrugAlert } from "@umoyo/shared";
+
+/**
+ * Where ingested drug alerts are kept: Firestore in production, a JSON file
+ * for offline development
+ */
+export interface DrugAlertStore {
+  readonly name: string;
+  /** Adds alerts, replacing any with the same `alertId` */
+  upsert(alerts: DrugAlert[]): Promise<void>;
+  /** Active alerts issued on or after `since` (`YYYY-MM-DD`) */
+  listActive(since: string): Promise<DrugAlert[]>;
+}
@@ -0,0 +1,45 @@
+/**
+ * File Drug Alert Store
+ * Keeps alerts in one JSON file, for offline development and fixtures
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { drugAlertSchema, type DrugAlert } from "@umoyo/shared";
+import type { DrugAlertStore } from "./drug-alerts.types";
+
+const alertFileSchema = z.object({ alerts: z.array(drugAlertSchema) });
+
+export class FileDrugAlertStore implements DrugAlertStore {
+  readonly name = "file";
+
+  constructor(private readonly file: string) {}
+
+  async upsert(alerts: DrugAlert[]): Promise<void> {
+    const byId = new Map((await this.read()).map((alert) => [alert.alertId, alert]));
+    alerts.forEach((alert) => byId.set(alert.alertId, alert));
+
+    const sorted = [...byId.values()].sort((a, b) => b.date.localeCompare(a.date));
+    await mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const temporary = `${this.file}.tmp`;
+    await writeFile(temporary, `${JSON.stringify({ alerts: sorted }, null, 2)}\n`, "utf8");
+    await rename(temporary, this.file);
+  }
+
+  async listActive(since: string): Promise<DrugAlert[]> {
+    return (await this.read()).filter((alert) => alert.active && alert.date >= since);
+  }
+
+  private async read(): Promise<DrugAlert[]> {
+    try {
+      return alertFileSchema.parse(JSON.parse(await readFile(this.file, "utf8"))).alerts;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Firestore Drug Alert Store
+ * One document per alert in the `drugAlerts` collection, keyed by alert id
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { drugAlertSchema, type DrugAlert } from "@umoyo/shared";
+import type { DrugAlertStore } from "./drug-alerts.types";
+
+const DRUG_ALERTS_COLLECTION = "drugAlerts";
+
+export class FirestoreDrugAlertStore implements DrugAlertStore {
+  readonly name = "firestore";
+
+  async upsert(alerts: DrugAlert[]): Promise<void> {
+    const collection = getFirestore().collection(DRUG_ALERTS_COLLECTION);
+    const writer = getFirestore().bulkWriter();
+    // Awaited together so a failed write rejects here instead of going unhandled
+    const writes = alerts.map((alert) => writer.set(collection.doc(alert.alertId), alert));
+    await Promise.all([...writes, writer.close()]);
+  }
+
+  /**
+   * Filters `active` in memory: combining it with the date range would
+   * need a composite index
+   */
+  async listActive(since: string): Promise<DrugAlert[]> {
+    const snapshot = await getFirestore()
+      .collection(DRUG_ALERTS_COLLECTION)
+      .where("date", ">=", since)
+      .get();
+
+    return snapshot.docs.flatMap((doc) => {
+      const parsed = drugAlertSchema.safeParse(doc.data());
+      return parsed.success && parsed.data.active ? [parsed.data] : [];
+    });
+  }
+}
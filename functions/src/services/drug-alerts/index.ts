@@ -0,0 +1,25 @@
+import path from "node:path";
+import { FileDrugAlertStore } from "./file.store";
+import { FirestoreDrugAlertStore } from "./firestore.store";
+import type { DrugAlertStore } from "./drug-alerts.types";
+
+export type { DrugAlertStore } from "./drug-alerts.types";
+export { DrugAlertMatcher } from "./matcher";
+
+/**
+ * Creates the store selected by DRUG_ALERTS_STORE (`firestore` | `file`)
+ */
+export function createDrugAlertStore(): DrugAlertStore {
+  const store = process.env.DRUG_ALERTS_STORE || "firestore";
+
+  switch (store) {
+    case "firestore":
+      return new FirestoreDrugAlertStore();
+    case "file":
+      return new FileDrugAlertStore(
+        path.resolve(process.env.DRUG_ALERTS_FILE || "drug-alerts.json")
+      );
+    default:
+      throw new Error(`Unknown DRUG_ALERTS_STORE: ${store}`);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Drug Name Matching
+ * Finds the alerts whose drugs are named in a piece of text. Alert names
+ * are reduced to their ingredients without salt and dosage-form words, so
+ * "Metformin Hydrochloride Extended-Release Tablets" matches "metformin".
+ */
+
+import type { DrugAlert } from "@umoyo/shared";
+
+const IGNORED_WORDS = new Set(
+  [
+    // Salts
+    "hydrochloride hcl sodium potassium calcium magnesium sulfate sulphate maleate mesylate",
+    "besylate tartrate succinate citrate acetate phosphate fumarate bromide",
+    // Dosage forms
+    "tablet tablets capsule capsules injection injectable oral solution suspension syrup cream",
+    "ointment extended-release delayed-release er xr usp for",
+  ].flatMap((line) => line.split(" "))
+);
+
+/** Shorter names match too many ordinary words */
+const MIN_NAME_LENGTH = 4;
+/** Longest drug name, in words, looked up in the text */
+const MAX_NAME_WORDS = 4;
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9][a-z0-9-]*/g) ?? [];
+}
+
+/** Names an alert can be matched by */
+function matchNames(drug: string): string[] {
+  const names = new Set([words(drug).join(" ")]);
+  for (const ingredient of drug.split(/\band\b|[/,;+]/)) {
+    names.add(
+      words(ingredient)
+        .filter((word) => !IGNORED_WORDS.has(word))
+        .join(" ")
+    );
+  }
+  return [...names].filter((name) => name.length >= MIN_NAME_LENGTH);
+}
+
+export class DrugAlertMatcher {
+  private readonly byName = new Map<string, DrugAlert[]>();
+
+  constructor(alerts: DrugAlert[]) {
+    for (const alert of alerts) {
+      for (const name of new Set(alert.drugs.flatMap(matchNames))) {
+        this.byName.set(name, [...(this.byName.get(name) ?? []), alert]);
+      }
+    }
+  }
+
+  /**
+   * Alerts for every drug named in the texts, newest first
+   */
+  match(texts: string[]): DrugAlert[] {
+    const matched = new Map<string, DrugAlert>();
+    for (const text of texts) {
+      const tokens = words(text);
+      for (let start = 0; start < tokens.length; start++) {
+        for (
+          let length = 1;
+          length <= MAX_NAME_WORDS && start + length <= tokens.length;
+          length++
+        ) {
+          const name = tokens.slice(start, start + length).join(" ");
+          this.byName.get(name)?.forEach((alert) => matched.set(alert.alertId, alert));
+        }
+      }
+    }
+    return [...matched.values()].sort((a, b) => b.date.localeCompare(a.date));
+  }
+}
@@ -1,39 +1,284 @@
 /**
  * Gemini Service
- * Handles calls to Google Gemini models for text generation
+ * Builds grounded prompts from the prompt templates and generates answers
+ * through the configured LLM provider
  */
 
-interface DocumentSource {
-  documentId: string;
-  documentTitle: string;
-  excerpt: string;
+import type { DocumentSource } from "@umoyo/shared";
+import {
+  createLlmProvider,
+  type ConversationTurn,
+  type GenerationConfig,
+  type GenerationRequest,
+  type LlmProvider,
+  type SafetySetting,
+} from "./llm";
+import { createPromptRegistry, type PromptRegistry, type PromptTemplate } from "./prompts";
+
+const GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.2,
+  topP: 0.95,
+  maxOutputTokens: 1024,
+};
+
+const SAFETY_SETTINGS: SafetySetting[] = [
+  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  // Clinical content (doses, overdose thresholds) must not be over-blocked
+  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_ONLY_HIGH" },
+];
+
+const REWRITE_CONFIG: GenerationConfig = {
+  temperature: 0,
+  maxOutputTokens: 64,
+};
+
+const TRANSLATE_CONFIG: GenerationConfig = {
+  temperature: 0,
+  maxOutputTokens: 512,
+};
+
+const RERANK_CONFIG: GenerationConfig = {
+  temperature: 0,
+  maxOutputTokens: 256,
+};
+
+const SUMMARY_CONFIG: GenerationConfig = {
+  temperature: 0.2,
+  maxOutputTokens: 256,
+};
+
+const REWRITE_INSTRUCTION = [
+  "Rewrite the final follow-up question as a standalone search query.",
+  "Resolve pronouns and references using the conversation above.",
+  "Reply with the query only.",
+].join(" ");
+
+const RERANK_INSTRUCTION = [
+  "Grade how well each numbered passage answers the query, from 0 (irrelevant) to 10 (answers it fully).",
+  "Reply with a JSON array of numbers only, one per passage, in passage order.",
+].join(" ");
+
+const SUMMARY_INSTRUCTION = [
+  "Summarise the conversation above in a few sentences for later context.",
+  "Keep conditions, medicines, doses, patient details and open questions.",
+  "Reply with the summary only.",
+].join(" ");
+
+/**
+ * Earlier conversation passed along with a new question
+ */
+export interface Conversation {
+  /** Summary of turns that no longer fit in the window */
+  summary?: string;
+  /** Most recent turns, oldest first */
+  turns: ConversationTurn[];
+}
+
+interface ResponseOptions {
+  template: PromptTemplate;
+  conversation?: Conversation;
+  /** Language to answer in, e.g. "Nyanja (Chinyanja)"; English when omitted */
+  answerLanguage?: string;
+}
+
+interface StreamResponseOptions extends ResponseOptions {
+  signal?: AbortSignal;
 }
 
 class GeminiService {
-  private projectId: string;
-  private location: string;
-  private modelName: string;
+  private provider: LlmProvider | null = null;
 
-  constructor() {
-    this.projectId = process.env.GCP_PROJECT_ID || "";
-    this.location = process.env.GCP_LOCATION || "us-central1";
-    this.modelName = process.env.GEMINI_MODEL || "gemini-2.0-flash-exp";
+  private getProvider(): LlmProvider {
+    if (!this.provider) {
+      this.provider = createLlmProvider();
+    }
+    return this.provider;
+  }
+
+  private prompts: PromptRegistry | null = null;
+
+  /**
+   * Template for the audience and category. Record its id and version
+   * with the answer.
+   */
+  selectTemplate(audience?: string, category?: string): PromptTemplate {
+    if (!this.prompts) {
+      this.prompts = createPromptRegistry();
+    }
+    return this.prompts.resolve(audience, category);
   }
 
   async generateResponse(
     query: string,
-    context: DocumentSource[]
+    context: DocumentSource[],
+    options: ResponseOptions
   ): Promise<string> {
-    // TODO: Implement Gemini API integration
-    // 1. Format context documents
-    // 2. Create prompt with query and context
-    // 3. Call Gemini API
-    // 4. Return generated response
-    
-    console.log("Gemini generation:", { query, contextLength: context.length });
-    throw new Error("Gemini service not implemented yet");
+    const result = await this.getProvider().generate(buildRequest(query, context, options));
+
+    if (result.finishReason === "safety") {
+      throw new Error("The response was blocked by safety filters");
+    }
+
+    return result.text;
+  }
+
+  /**
+   * Streams the answer as text deltas. Stops quietly when the signal aborts.
+   */
+  async *streamResponse(
+    query: string,
+    context: DocumentSource[],
+    options: StreamResponseOptions
+  ): AsyncGenerator<string> {
+    const stream = this.getProvider().stream(buildRequest(query, context, options), {
+      signal: options.signal,
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.finishReason === "safety") {
+        throw new Error("The response was blocked by safety filters");
+      }
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  }
+
+  /**
+   * Turns a follow-up ("what about in children?") into a standalone query
+   * for retrieval. Falls back to the message as typed if generation fails.
+   */
+  async rewriteQuery(message: string, turns: ConversationTurn[]): Promise<string> {
+    try {
+      const result = await this.getProvider().generate({
+        task: "rewrite-query",
+        contents: [...turns, { role: "user", text: `${REWRITE_INSTRUCTION}\n\nFollow-up: ${message}` }],
+        question: message,
+        sources: [],
+        config: REWRITE_CONFIG,
+        safetySettings: SAFETY_SETTINGS,
+      });
+      const rewritten = result.text.trim();
+      return rewritten.length > 0 ? rewritten : message;
+    } catch (error) {
+      console.warn("Query rewrite failed, using the original message:", error);
+      return message;
+    }
+  }
+
+  /**
+   * Translates a short text between languages named in full. Falls back to
+   * the original text if translation fails.
+   */
+  async translate(text: string, from: string, to: string): Promise<string> {
+    try {
+      const result = await this.getProvider().generate({
+        task: "translate",
+        systemInstruction:
+          "You translate health questions and messages. Keep medical terms, medicine names and numbers exact.",
+        contents: [
+          {
+            role: "user",
+            text: `Translate from ${from} to ${to}. Reply with the translation only.\n\n${text}`,
+          },
+        ],
+        question: text,
+        sources: [],
+        config: TRANSLATE_CONFIG,
+        safetySettings: SAFETY_SETTINGS,
+      });
+      const translated = result.text.trim();
+      return translated.length > 0 ? translated : text;
+    } catch (error) {
+      console.warn(`Translation from ${from} to ${to} failed:`, error);
+      return text;
+    }
+  }
+
+  /**
+   * Grades passages against a query. Returns relevance (0..1) per passage,
+   * in order; throws if the reply cannot be read so callers keep their order.
+   */
+  async rerank(query: string, passages: DocumentSource[]): Promise<number[]> {
+    const numbered = passages
+      .map((passage, index) => `[${index + 1}] ${passage.documentTitle}\n${passage.excerpt}`)
+      .join("\n\n");
+    const result = await this.getProvider().generate({
+      task: "rerank",
+      contents: [
+        { role: "user", text: `${RERANK_INSTRUCTION}\n\nQuery: ${query}\n\nPassages:\n${numbered}` },
+      ],
+      question: query,
+      sources: passages,
+      config: RERANK_CONFIG,
+      safetySettings: SAFETY_SETTINGS,
+    });
+
+    const grades: unknown = JSON.parse(result.text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+    if (
+      !Array.isArray(grades) ||
+      grades.length !== passages.length ||
+      grades.some((grade) => typeof grade !== "number")
+    ) {
+      throw new Error(`Reranker reply does not grade ${passages.length} passages: ${result.text}`);
+    }
+    return grades.map((grade: number) => Math.min(1, Math.max(0, grade / 10)));
+  }
+
+  /**
+   * Folds turns that left the window into the running summary
+   */
+  async summarizeConversation(
+    previousSummary: string | undefined,
+    turns: ConversationTurn[]
+  ): Promise<string> {
+    const contents: ConversationTurn[] = previousSummary
+      ? [{ role: "user", text: `Summary of the earlier conversation: ${previousSummary}` }, ...turns]
+      : turns;
+
+    const result = await this.getProvider().generate({
+      task: "summarize",
+      contents: [...contents, { role: "user", text: SUMMARY_INSTRUCTION }],
+      question: "",
+      sources: [],
+      config: SUMMARY_CONFIG,
+      safetySettings: SAFETY_SETTINGS,
+    });
+
+    return result.text.trim();
   }
 }
 
-export const geminiService = new GeminiService();
+function buildRequest(
+  query: string,
+  context: DocumentSource[],
+  { template, conversation, answerLanguage }: ResponseOptions
+): GenerationRequest {
+  const instructions = [template.systemInstruction];
+  if (answerLanguage) {
+    instructions.push(
+      `The excerpts are in English. Write the answer in ${answerLanguage}, keeping medicine names, doses and [n] markers unchanged.`
+    );
+  }
+  if (conversation?.summary) {
+    instructions.push(`Earlier in this conversation: ${conversation.summary}`);
+  }
+  const systemInstruction = instructions.join("\n\n");
 
+  return {
+    task: "answer",
+    systemInstruction,
+    contents: [
+      ...(conversation?.turns ?? []),
+      { role: "user", text: template.formatPrompt(query, context) },
+    ],
+    question: query,
+    sources: context,
+    config: { ...GENERATION_CONFIG, ...template.config },
+    safetySettings: SAFETY_SETTINGS,
+  };
+}
+
+export const geminiService = new GeminiService();
@@ -0,0 +1,160 @@
+/**
+ * Grounding Service
+ * Decides whether retrieved evidence is strong enough to answer from, and
+ * checks each statement of a generated answer against the cited excerpts
+ */
+
+import { splitCitations } from "@umoyo/shared";
+import type {
+  ClaimStatus,
+  ClaimSupport,
+  ConfidenceLevel,
+  DocumentLanguage,
+  DocumentSource,
+  Grounding,
+} from "@umoyo/shared";
+import { tokenize } from "./retrieval";
+
+interface EvidenceThresholds {
+  /** Excerpts scoring below this are not shown to the model */
+  minScore: number;
+  /** Top score needed for medium or high confidence */
+  confidentScore: number;
+}
+
+/**
+ * Patients get a stricter gate: a wrong answer is less likely to be caught
+ */
+const THRESHOLDS: Record<string, EvidenceThresholds> = {
+  "healthcare-professional": { minScore: 0.35, confidentScore: 0.65 },
+  patient: { minScore: 0.5, confidentScore: 0.75 },
+};
+const DEFAULT_THRESHOLDS = THRESHOLDS.patient;
+
+/** Share of a claim's terms found in its excerpts */
+const SUPPORTED_OVERLAP = 0.6;
+const PARTIAL_OVERLAP = 0.35;
+/** Sentences with fewer terms ("Yes.", "See below:") are not checked */
+const MIN_CLAIM_TERMS = 4;
+
+const ABSTENTION_MESSAGE = [
+  "I could not find this in trusted guidelines.",
+  "Please rephrase your question, or ask a health worker for advice.",
+].join(" ");
+
+export interface Evidence {
+  confidence: ConfidenceLevel;
+  /** Excerpts that passed the gate, best first */
+  sources: DocumentSource[];
+}
+
+class GroundingService {
+  readonly abstentionMessage = ABSTENTION_MESSAGE;
+
+  /**
+   * Drops weak excerpts and rates what remains. No usable excerpt means
+   * the assistant should abstain instead of generating.
+   */
+  assessEvidence(sources: DocumentSource[], audience?: string): Evidence {
+    const thresholds = (audience && THRESHOLDS[audience]) || DEFAULT_THRESHOLDS;
+    const usable = sources.filter((source) => (source.relevanceScore ?? 0) >= thresholds.minScore);
+
+    if (usable.length === 0) {
+      return { confidence: "insufficient", sources: [] };
+    }
+
+    const topScore = Math.max(...usable.map((source) => source.relevanceScore ?? 0));
+    let confidence: ConfidenceLevel = "low";
+    if (topScore >= thresholds.confidentScore) {
+      confidence = usable.length > 1 ? "high" : "medium";
+    }
+    return { confidence, sources: usable };
+  }
+
+  /**
+   * Checks each sentence against the excerpts it cites, or all excerpts
+   * when it cites none. Unsupported statements lower the confidence.
+   * The check is lexical, so answers not written in English are not checked.
+   */
+  verify(answer: string, evidence: Evidence, language: DocumentLanguage = "en"): Grounding {
+    if (evidence.confidence === "insufficient") {
+      return { confidence: "insufficient", claims: [] };
+    }
+    if (language !== "en") {
+      return { confidence: evidence.confidence, claims: [] };
+    }
+
+    const excerptTerms = evidence.sources.map((source) => new Set(tokenize(source.excerpt)));
+    const claims = splitSentences(answer)
+      .map((sentence) => checkClaim(sentence, excerptTerms))
+      .filter((claim): claim is ClaimSupport => claim !== null);
+
+    return {
+      confidence: adjustConfidence(evidence.confidence, claims),
+      claims,
+    };
+  }
+}
+
+function checkClaim(sentence: string, excerptTerms: Set<string>[]): ClaimSupport | null {
+  let text = "";
+  const cited: number[] = [];
+  for (const segment of splitCitations(sentence)) {
+    if (segment.type === "text") {
+      text += segment.text;
+    } else {
+      cited.push(...segment.numbers.filter((number) => number <= excerptTerms.length));
+    }
+  }
+
+  const terms = [...new Set(tokenize(text))];
+  if (terms.length < MIN_CLAIM_TERMS) {
+    return null;
+  }
+
+  const candidates = cited.length > 0 ? cited : excerptTerms.map((_, index) => index + 1);
+  const covered = terms.filter((term) =>
+    candidates.some((number) => excerptTerms[number - 1].has(term))
+  );
+  const overlap = covered.length / terms.length;
+
+  let status: ClaimStatus = "unsupported";
+  if (overlap >= SUPPORTED_OVERLAP) {
+    status = "supported";
+  } else if (overlap >= PARTIAL_OVERLAP) {
+    status = "partial";
+  }
+
+  return {
+    text: text.replace(/\s+/g, " ").trim(),
+    status,
+    sources: cited.length > 0 ? [...new Set(cited)] : [],
+  };
+}
+
+/**
+ * One unsupported claim costs a level; a majority of them means low
+ */
+function adjustConfidence(confidence: ConfidenceLevel, claims: ClaimSupport[]): ConfidenceLevel {
+  const unsupported = claims.filter((claim) => claim.status === "unsupported").length;
+  if (unsupported === 0) {
+    return confidence;
+  }
+  if (unsupported * 2 > claims.length) {
+    return "low";
+  }
+  return confidence === "high" ? "medium" : "low";
+}
+
+/**
+ * Splits on sentence ends and line breaks. Citation markers that follow the
+ * full stop ("... daily. [2]") stay with the sentence before them.
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?](?:\s*\[[\d,\s]+\])*)\s+(?!\[\d)|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+export const groundingService = new GroundingService();
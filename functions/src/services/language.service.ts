@@ -0,0 +1,93 @@
+/**
+ * Language Service
+ * Detects whether a message is English, Nyanja or Bemba, and translates
+ * non-English questions to English so they can be matched against the
+ * mostly English corpus
+ */
+
+import type { DocumentLanguage } from "@umoyo/shared";
+import { geminiService } from "./gemini.service";
+
+/**
+ * Common words that rarely appear in the other two languages. Overlapping
+ * words ("ine", "ndi") are left out so they cannot tip the balance.
+ */
+const LEXICON: Record<DocumentLanguage, Set<string>> = {
+  en: new Set([
+    "the", "is", "are", "what", "how", "my", "i", "you", "can", "should", "do", "does",
+    "and", "of", "for", "with", "have", "has", "when", "why", "which", "this", "it",
+  ]),
+  ny: new Set([
+    "chiyani", "chani", "bwanji", "kodi", "ndili", "ndikufuna", "mwana", "wanga", "wanu",
+    "ndipo", "koma", "chifukwa", "mankhwala", "matenda", "mutu", "kupweteka", "magazi",
+    "chifuwa", "ndiyenera", "bwino", "kwambiri", "akudwala", "ndikudwala", "zotani",
+    "liti", "angati", "iye", "kapena", "ndingatani", "mimba",
+  ]),
+  bem: new Set([
+    "shani", "bushe", "nshi", "finshi", "ukuti", "ifyo", "umwana", "wandi", "ndefwaya",
+    "nomba", "pantu", "fye", "sana", "takwaba", "ubulwele", "umuti", "umulopa", "icifuba",
+    "umutwe", "ukukalipwa", "ndelwala", "alelwala", "nalwala", "kwisa", "cinshi", "ifwe",
+    "nangu", "ndecita", "cila",
+  ]),
+};
+
+/** Bemba spells "ch" as "c" (icifuba, cinshi); Nyanja keeps "ch" */
+const BEMBA_SPELLING = /\bc[aeiou]|[aeiou]c[aeiou]/;
+const NYANJA_SPELLING = /ch[aeiou]/;
+
+export const LANGUAGE_NAMES: Record<DocumentLanguage, string> = {
+  en: "English",
+  ny: "Nyanja (Chinyanja)",
+  bem: "Bemba (Icibemba)",
+};
+
+class LanguageService {
+  /**
+   * Counts lexicon hits per language. Falls back to English when nothing
+   * distinctive is found, since that is what the corpus is written in.
+   */
+  detect(text: string): DocumentLanguage {
+    const normalised = text.toLowerCase();
+    const words = normalised.split(/[^\p{L}']+/u).filter(Boolean);
+
+    const scores: Record<DocumentLanguage, number> = { en: 0, ny: 0, bem: 0 };
+    for (const word of words) {
+      for (const language of Object.keys(LEXICON) as DocumentLanguage[]) {
+        if (LEXICON[language].has(word)) {
+          scores[language]++;
+        }
+      }
+    }
+    if (scores.ny + scores.bem === 0) {
+      return "en";
+    }
+    if (BEMBA_SPELLING.test(normalised.replace(/ch/g, ""))) scores.bem += 0.5;
+    if (NYANJA_SPELLING.test(normalised)) scores.ny += 0.5;
+
+    const best = scores.bem > scores.ny ? "bem" : "ny";
+    return scores[best] > scores.en ? best : "en";
+  }
+
+  /**
+   * English version of a question for retrieval. Returns the text as is
+   * when it is already English or translation fails.
+   */
+  async toEnglish(text: string, language: DocumentLanguage): Promise<string> {
+    if (language === "en") {
+      return text;
+    }
+    return geminiService.translate(text, LANGUAGE_NAMES[language], LANGUAGE_NAMES.en);
+  }
+
+  /**
+   * Translates fixed English replies (abstentions) into the user's language
+   */
+  async fromEnglish(text: string, language: DocumentLanguage): Promise<string> {
+    if (language === "en") {
+      return text;
+    }
+    return geminiService.translate(text, LANGUAGE_NAMES.en, LANGUAGE_NAMES[language]);
+  }
+}
+
+export const languageService = new LanguageService();
@@ -0,0 +1,184 @@
+/**
+ * Gemini Provider
+ * Calls Gemini models through the Vertex AI PredictionService
+ */
+
+import { PredictionServiceClient } from "@google-cloud/aiplatform";
+import type { protos } from "@google-cloud/aiplatform";
+import { withRetry, withTimeout, TimeoutError } from "../../utils/retry";
+import type {
+  ConversationTurn,
+  FinishReason,
+  GenerateOptions,
+  GenerationChunk,
+  GenerationRequest,
+  GenerationResult,
+  LlmProvider,
+  StreamOptions,
+} from "./llm.types";
+
+type GenerateContentResponse = protos.google.cloud.aiplatform.v1.IGenerateContentResponse;
+
+/** gRPC status codes worth retrying: DEADLINE_EXCEEDED, RESOURCE_EXHAUSTED, UNAVAILABLE */
+const RETRYABLE_GRPC_CODES = new Set([4, 8, 14]);
+
+interface GeminiProviderOptions {
+  projectId: string;
+  location: string;
+  model: string;
+  timeoutMs: number;
+  retries: number;
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini";
+  private client: PredictionServiceClient | null = null;
+
+  constructor(private readonly options: GeminiProviderOptions) {}
+
+  get model(): string {
+    return this.options.model;
+  }
+
+  async generate(
+    request: GenerationRequest,
+    options: GenerateOptions = {}
+  ): Promise<GenerationResult> {
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+    const [response] = await withRetry(
+      () => this.getClient().generateContent(this.toApiRequest(request), { timeout: timeoutMs }),
+      {
+        retries: options.retries ?? this.options.retries,
+        timeoutMs,
+        isRetryable,
+      }
+    );
+
+    return {
+      text: getText(response),
+      finishReason: getFinishReason(response),
+      model: response.modelVersion || this.model,
+      usage: response.usageMetadata
+        ? {
+            promptTokens: response.usageMetadata.promptTokenCount ?? 0,
+            outputTokens: response.usageMetadata.candidatesTokenCount ?? 0,
+          }
+        : undefined,
+    };
+  }
+
+  async *stream(
+    request: GenerationRequest,
+    options: StreamOptions = {}
+  ): AsyncIterable<GenerationChunk> {
+    const stream = this.getClient().streamGenerateContent(this.toApiRequest(request));
+    const cancel = () => stream.cancel();
+    options.signal?.addEventListener("abort", cancel, { once: true });
+
+    try {
+      const iterator: AsyncIterator<GenerateContentResponse> = stream[Symbol.asyncIterator]();
+      let next = await withTimeout(iterator.next(), options.timeoutMs ?? this.options.timeoutMs);
+
+      while (!next.done) {
+        const response = next.value;
+        const finished =
+          response.candidates?.[0]?.finishReason || response.promptFeedback?.blockReason;
+        const finishReason = finished ? getFinishReason(response) : undefined;
+        yield { text: getText(response), finishReason };
+        next = await iterator.next();
+      }
+    } catch (error) {
+      if (options.signal?.aborted) return;
+      throw error;
+    } finally {
+      options.signal?.removeEventListener("abort", cancel);
+    }
+  }
+
+  private toApiRequest(
+    request: GenerationRequest
+  ): protos.google.cloud.aiplatform.v1.IGenerateContentRequest {
+    const { projectId, location } = this.options;
+    if (!projectId) {
+      throw new Error("GCP_PROJECT_ID is required for the Gemini provider");
+    }
+
+    return {
+      model: `projects/${projectId}/locations/${location}/publishers/google/models/${this.model}`,
+      systemInstruction: request.systemInstruction
+        ? { role: "system", parts: [{ text: request.systemInstruction }] }
+        : undefined,
+      contents: mergeTurns(request.contents),
+      generationConfig: request.config,
+      safetySettings: request.safetySettings,
+    };
+  }
+
+  private getClient(): PredictionServiceClient {
+    if (!this.client) {
+      this.client = new PredictionServiceClient({
+        apiEndpoint: `${this.options.location}-aiplatform.googleapis.com`,
+      });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Gemini rejects consecutive turns from the same role, which happens when a
+ * stored answer is missing or a summary precedes the history. Merge them.
+ */
+function mergeTurns(turns: ConversationTurn[]): protos.google.cloud.aiplatform.v1.IContent[] {
+  const merged: { role: ConversationTurn["role"]; parts: { text: string }[] }[] = [];
+  for (const turn of turns) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === turn.role) {
+      last.parts.push({ text: turn.text });
+    } else {
+      merged.push({ role: turn.role, parts: [{ text: turn.text }] });
+    }
+  }
+  return merged;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "number" && RETRYABLE_GRPC_CODES.has(code);
+}
+
+function getText(response: GenerateContentResponse): string {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  return parts.map((part) => part.text ?? "").join("");
+}
+
+function getFinishReason(response: GenerateContentResponse): FinishReason {
+  const candidate = response.candidates?.[0];
+  return toFinishReason(
+    candidate?.finishReason ?? (response.promptFeedback?.blockReason ? "SAFETY" : undefined)
+  );
+}
+
+function toFinishReason(reason: unknown): FinishReason {
+  switch (reason) {
+    case "STOP":
+    case 1:
+      return "stop";
+    case "MAX_TOKENS":
+    case 2:
+      return "max-tokens";
+    case "SAFETY":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+    case 3:
+    case 6:
+    case 7:
+    case 8:
+      return "safety";
+    default:
+      return "other";
+  }
+}
@@ -0,0 +1,41 @@
+import { GeminiProvider } from "./gemini.provider";
+import { StubProvider } from "./stub.provider";
+import type { LlmProvider } from "./llm.types";
+
+export type {
+  ConversationTurn,
+  GenerateOptions,
+  GenerationChunk,
+  GenerationConfig,
+  GenerationRequest,
+  GenerationResult,
+  GenerationTask,
+  LlmProvider,
+  SafetySetting,
+  StreamOptions,
+} from "./llm.types";
+
+/**
+ * Creates the LLM provider selected by LLM_PROVIDER (`gemini` | `stub`)
+ */
+export function createLlmProvider(): LlmProvider {
+  const provider = process.env.LLM_PROVIDER || "gemini";
+
+  switch (provider) {
+    case "stub":
+      return new StubProvider({
+        fixturesPath: process.env.LLM_STUB_FIXTURES,
+        tokenDelayMs: parseInt(process.env.LLM_STUB_TOKEN_DELAY_MS || "0", 10),
+      });
+    case "gemini":
+      return new GeminiProvider({
+        projectId: process.env.GCP_PROJECT_ID || "",
+        location: process.env.GCP_LOCATION || "us-central1",
+        model: process.env.GEMINI_MODEL || "gemini-2.0-flash-exp",
+        timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "30000", 10),
+        retries: parseInt(process.env.LLM_MAX_RETRIES || "2", 10),
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
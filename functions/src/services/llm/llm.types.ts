@@ -0,0 +1,91 @@
+import type { DocumentSource } from "@umoyo/shared";
+
+export interface ConversationTurn {
+  role: "user" | "model";
+  text: string;
+}
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+}
+
+export type HarmCategory =
+  | "HARM_CATEGORY_HATE_SPEECH"
+  | "HARM_CATEGORY_DANGEROUS_CONTENT"
+  | "HARM_CATEGORY_HARASSMENT"
+  | "HARM_CATEGORY_SEXUALLY_EXPLICIT";
+
+export type HarmBlockThreshold =
+  | "BLOCK_LOW_AND_ABOVE"
+  | "BLOCK_MEDIUM_AND_ABOVE"
+  | "BLOCK_ONLY_HIGH"
+  | "BLOCK_NONE";
+
+export interface SafetySetting {
+  category: HarmCategory;
+  threshold: HarmBlockThreshold;
+}
+
+/**
+ * What the request is for. Real models only need the prompt; the stub
+ * provider uses it to produce a deterministic result for each task.
+ */
+export type GenerationTask = "answer" | "rewrite-query" | "summarize" | "translate" | "rerank";
+
+export interface GenerationRequest {
+  task: GenerationTask;
+  systemInstruction?: string;
+  /** Conversation so far, ending with the user turn to answer */
+  contents: ConversationTurn[];
+  /** The user's question as typed, before prompt formatting */
+  question: string;
+  /** Retrieved excerpts the answer must be grounded in */
+  sources: DocumentSource[];
+  config?: GenerationConfig;
+  safetySettings?: SafetySetting[];
+}
+
+export type FinishReason = "stop" | "max-tokens" | "safety" | "other";
+
+export interface GenerationResult {
+  text: string;
+  finishReason: FinishReason;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface GenerationChunk {
+  text: string;
+  /** Set on the final chunk */
+  finishReason?: FinishReason;
+}
+
+export interface GenerateOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface StreamOptions {
+  /** Time allowed until the first chunk arrives */
+  timeoutMs?: number;
+  /** Aborts generation, e.g. when the client cancels */
+  signal?: AbortSignal;
+}
+
+/**
+ * A text generation provider. Implementations own transport details
+ * (SDK, authentication, timeouts and retries).
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: GenerationRequest, options?: GenerateOptions): Promise<GenerationResult>;
+  stream(request: GenerationRequest, options?: StreamOptions): AsyncIterable<GenerationChunk>;
+}
@@ -0,0 +1,147 @@
+/**
+ * Stub Provider
+ * Deterministic offline provider for development, tests and demos.
+ * It replays recorded fixtures when one matches the question and
+ * otherwise echoes the top retrieved excerpts.
+ */
+
+import { readFileSync } from "node:fs";
+import { sleep } from "../../utils/retry";
+import { tokenize } from "../retrieval/bm25";
+import type {
+  GenerationChunk,
+  GenerationRequest,
+  GenerationResult,
+  LlmProvider,
+  StreamOptions,
+} from "./llm.types";
+
+const MAX_ECHOED_SOURCES = 3;
+const MAX_EXCERPT_LENGTH = 280;
+
+interface StubProviderOptions {
+  /** JSON file mapping questions to recorded answers */
+  fixturesPath?: string;
+  /** Delay between streamed words, to make streaming visible in demos */
+  tokenDelayMs?: number;
+}
+
+export class StubProvider implements LlmProvider {
+  readonly name = "stub";
+  readonly model = "stub-echo";
+  private fixtures: Map<string, string> | null = null;
+
+  constructor(private readonly options: StubProviderOptions = {}) {}
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    switch (request.task) {
+      case "rewrite-query":
+        return { text: rewriteQuery(request), finishReason: "stop", model: this.model };
+      case "summarize":
+        return { text: summarize(request), finishReason: "stop", model: this.model };
+      case "translate":
+        // No offline translation: the text passes through unchanged
+        return { text: request.question, finishReason: "stop", model: this.model };
+      case "rerank":
+        return { text: gradeSources(request), finishReason: "stop", model: this.model };
+      case "answer":
+        break;
+    }
+
+    const fixture = this.getFixtures().get(normaliseQuestion(request.question));
+
+    if (fixture !== undefined) {
+      return { text: fixture, finishReason: "stop", model: `${this.model}:fixture` };
+    }
+
+    return { text: echoSources(request), finishReason: "stop", model: this.model };
+  }
+
+  async *stream(
+    request: GenerationRequest,
+    options: StreamOptions = {}
+  ): AsyncIterable<GenerationChunk> {
+    const { text } = await this.generate(request);
+    const words = text.split(/(?<=\s)/);
+
+    for (const word of words) {
+      if (options.signal?.aborted) return;
+      if (this.options.tokenDelayMs) {
+        await sleep(this.options.tokenDelayMs);
+      }
+      yield { text: word };
+    }
+    yield { text: "", finishReason: "stop" };
+  }
+
+  private getFixtures(): Map<string, string> {
+    if (!this.fixtures) {
+      this.fixtures = new Map();
+      if (this.options.fixturesPath) {
+        const recorded = JSON.parse(readFileSync(this.options.fixturesPath, "utf8")) as Record<
+          string,
+          string
+        >;
+        for (const [question, answer] of Object.entries(recorded)) {
+          this.fixtures.set(normaliseQuestion(question), answer);
+        }
+      }
+    }
+    return this.fixtures;
+  }
+}
+
+function normaliseQuestion(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Prefixes the follow-up with the previous user question. The last turn
+ * holds the rewrite instruction, so it is skipped.
+ */
+function rewriteQuery(request: GenerationRequest): string {
+  const history = request.contents.slice(0, -1);
+  const previous = [...history].reverse().find((turn) => turn.role === "user");
+  return previous ? `${previous.text} ${request.question}` : request.question;
+}
+
+/**
+ * Lists the earlier turns, truncated. The last turn holds the instruction.
+ */
+function summarize(request: GenerationRequest): string {
+  return request.contents
+    .slice(0, -1)
+    .map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.text.slice(0, 120)}`)
+    .join("\n");
+}
+
+function echoSources(request: GenerationRequest): string {
+  const sources = request.sources.slice(0, MAX_ECHOED_SOURCES);
+  if (sources.length === 0) {
+    return "No relevant excerpts were found in the knowledge base for this question.";
+  }
+
+  const lines = sources.map((source, index) => {
+    const excerpt =
+      source.excerpt.length > MAX_EXCERPT_LENGTH
+        ? `${source.excerpt.slice(0, MAX_EXCERPT_LENGTH).trimEnd()}...`
+        : source.excerpt;
+    return `- ${excerpt} [${index + 1}]`;
+  });
+
+  return ["Based on the retrieved guidelines:", "", ...lines].join("\n");
+}
+
+/**
+ * Grades each source 0-10 by the share of question terms it contains
+ */
+function gradeSources(request: GenerationRequest): string {
+  const terms = new Set(tokenize(request.question));
+  const grades = request.sources.map((source) => {
+    if (terms.size === 0) return 0;
+    const excerptTerms = new Set(tokenize(source.excerpt));
+    const matched = [...terms].filter((term) => excerptTerms.has(term)).length;
+    return Math.round((matched / terms.size) * 10);
+  });
+  return JSON.stringify(grades);
+}
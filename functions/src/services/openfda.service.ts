@@ -0,0 +1,107 @@
+/**
+ * OpenFDA Service
+ * Fetches drug recalls (openFDA enforcement reports) and FDA Drug Safety
+ * Communications, and ingests them into the drug alert store
+ */
+
+import type { DrugAlert } from "@umoyo/shared";
+import { createDrugAlertStore, type DrugAlertStore } from "./drug-alerts";
+import {
+  createFdaClient,
+  parseEnforcementResponse,
+  parseSafetyCommunications,
+  recallAlert,
+  type FdaClient,
+} from "./openfda";
+
+/** openFDA allows up to 1000 records per request */
+const PAGE_SIZE = 100;
+/** openFDA rejects `skip` beyond 25,000 */
+const MAX_SKIP = 25000;
+const DEFAULT_MAX_RECALLS = 1000;
+
+export interface RecallQuery {
+  /** Earliest report date, `YYYY-MM-DD` */
+  since: string;
+  maxResults?: number;
+}
+
+export interface DrugAlertIngestion {
+  recalls: number;
+  safetyCommunications: number;
+  /** Alerts written that are currently active */
+  active: number;
+}
+
+/** `2024-01-15` to the `20240115` form openFDA dates use */
+function toFdaDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+class OpenFdaService {
+  private client: FdaClient | null = null;
+  private store: DrugAlertStore | null = null;
+
+  private getClient(): FdaClient {
+    if (!this.client) {
+      this.client = createFdaClient();
+    }
+    return this.client;
+  }
+
+  private getStore(): DrugAlertStore {
+    if (!this.store) {
+      this.store = createDrugAlertStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Drug recalls reported since the given date, newest first
+   */
+  async fetchRecalls(query: RecallQuery): Promise<DrugAlert[]> {
+    const maxResults = query.maxResults ?? DEFAULT_MAX_RECALLS;
+    const alerts: DrugAlert[] = [];
+
+    for (let skip = 0; skip < maxResults && skip <= MAX_SKIP; skip += PAGE_SIZE) {
+      const body = await this.getClient().request("drug/enforcement", {
+        search: `report_date:[${toFdaDate(query.since)} TO 29991231]`,
+        sort: "report_date:desc",
+        limit: String(Math.min(PAGE_SIZE, maxResults - skip)),
+        skip: String(skip),
+      });
+      const { total, reports } = parseEnforcementResponse(body);
+      alerts.push(...reports.map(recallAlert));
+      if (reports.length === 0 || skip + reports.length >= total) break;
+    }
+    return alerts;
+  }
+
+  async fetchSafetyCommunications(): Promise<DrugAlert[]> {
+    return parseSafetyCommunications(
+      await this.getClient().request("drug-safety-communications", {})
+    );
+  }
+
+  /**
+   * Fetches recalls and safety communications and writes them to the
+   * store. Re-fetched recalls replace their stored copy, so recalls that
+   * have since completed become inactive.
+   */
+  async ingest(query: RecallQuery): Promise<DrugAlertIngestion> {
+    const recalls = await this.fetchRecalls(query);
+    const communications = (await this.fetchSafetyCommunications()).filter(
+      (alert) => alert.date >= query.since
+    );
+    const alerts = [...recalls, ...communications];
+    await this.getStore().upsert(alerts);
+
+    return {
+      recalls: recalls.length,
+      safetyCommunications: communications.length,
+      active: alerts.filter((alert) => alert.active).length,
+    };
+  }
+}
+
+export const openFdaService = new OpenFdaService();
@@ -0,0 +1,132 @@
+/**
+ * Converts openFDA enforcement reports and Drug Safety Communications feed
+ * items into drug alerts
+ */
+
+import { createHash } from "node:crypto";
+import type { DrugAlert } from "@umoyo/shared";
+import { childElements, findElement, parseXml, textContent } from "../../utils/xml";
+import type { EnforcementReport, EnforcementResponse } from "./openfda.types";
+
+const MAX_SUMMARY_LENGTH = 600;
+
+/**
+ * "Brand (generic)" or "Brand (generic1 and generic2)" as written in FDA
+ * communication titles
+ */
+const BRAND_WITH_GENERIC = /\b([A-Z][\w-]+(?:\s[A-Z][\w-]+)?)\s*\(([^)]+)\)/g;
+
+export function normalizeDrugName(name: string): string {
+  return name
+    .replace(/[®™]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function truncate(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > length ? `${clean.slice(0, length - 1).trimEnd()}…` : clean;
+}
+
+/** `20240115` to `2024-01-15` */
+function fromFdaDate(date: string): string {
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+/**
+ * The product name at the start of a recall's product description,
+ * e.g. "Metformin Hydrochloride Extended-Release Tablets, USP, 500 mg"
+ */
+function productName(description: string): string {
+  return description.split(/,|\s\d/)[0].trim();
+}
+
+export function parseEnforcementResponse(body: string): {
+  total: number;
+  reports: EnforcementReport[];
+} {
+  const parsed = JSON.parse(body) as EnforcementResponse;
+  const reports = parsed.results ?? [];
+  return { total: parsed.meta?.results?.total ?? reports.length, reports };
+}
+
+export function recallAlert(report: EnforcementReport): DrugAlert {
+  const names = [...(report.openfda?.generic_name ?? []), ...(report.openfda?.brand_name ?? [])];
+  const product = productName(report.product_description);
+  const summary = [
+    report.reason_for_recall,
+    report.recalling_firm && `Recalled by ${report.recalling_firm}.`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    alertId: `fda-recall-${report.recall_number}`,
+    kind: "recall",
+    title: `Recall: ${product}`,
+    drugs: [...new Set((names.length > 0 ? names : [product]).map(normalizeDrugName))],
+    summary: truncate(summary, MAX_SUMMARY_LENGTH),
+    date: fromFdaDate(report.report_date),
+    url: `https://api.fda.gov/drug/enforcement.json?search=recall_number:"${report.recall_number}"`,
+    ...(report.classification ? { classification: report.classification } : {}),
+    active: report.status === "Ongoing",
+    source: "FDA",
+  };
+}
+
+/**
+ * Drug names in a communication's text: each "Brand (generic)" pair gives
+ * the brand and every generic in the parentheses. Acronyms such as
+ * "(FDA)" are skipped.
+ */
+export function drugNamesInText(text: string): string[] {
+  const names = new Set<string>();
+  for (const [, brand, inner] of text.matchAll(BRAND_WITH_GENERIC)) {
+    const generics = inner
+      .split(/,|\band\b|\//)
+      .map((name) => name.trim())
+      .filter((name) => /[a-z]/.test(name));
+    if (generics.length === 0) continue;
+    names.add(normalizeDrugName(brand));
+    generics.forEach((name) => names.add(normalizeDrugName(name)));
+  }
+  return [...names];
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, " ");
+}
+
+/**
+ * Parses the RSS feed. Communications stay active; how far back they are
+ * shown is decided when matching.
+ */
+export function parseSafetyCommunications(xml: string): DrugAlert[] {
+  const channel = findElement(parseXml(xml), "rss", "channel");
+  if (!channel) {
+    throw new Error("Drug Safety Communications feed has no rss channel");
+  }
+
+  return childElements(channel, "item").flatMap((item): DrugAlert[] => {
+    const title = textContent(findElement(item, "title")).trim();
+    const url = textContent(findElement(item, "link")).trim();
+    const published = new Date(textContent(findElement(item, "pubDate")));
+    if (!title || !url || Number.isNaN(published.getTime())) return [];
+
+    const description = stripTags(textContent(findElement(item, "description")));
+    return [
+      {
+        alertId: `fda-dsc-${createHash("sha256").update(url).digest("hex").slice(0, 16)}`,
+        kind: "safety-communication",
+        title,
+        drugs: drugNamesInText(`${title} ${description}`),
+        summary: truncate(description, MAX_SUMMARY_LENGTH),
+        date: published.toISOString().slice(0, 10),
+        url,
+        active: true,
+        source: "FDA",
+      },
+    ];
+  });
+}
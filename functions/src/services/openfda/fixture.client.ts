@@ -0,0 +1,55 @@
+/**
+ * Recorded FDA Responses
+ * Replays responses saved in a fixtures folder so drug alert ingestion runs
+ * offline, and records them from a live client. Files are named after the
+ * resource and a hash of the request parameters.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { FdaClient, FdaParams, FdaResource } from "./openfda.types";
+
+export function fixtureFileName(resource: FdaResource, params: FdaParams): string {
+  const canonical = JSON.stringify(Object.entries(params).sort(([a], [b]) => a.localeCompare(b)));
+  const hash = createHash("sha256").update(`${resource}?${canonical}`).digest("hex").slice(0, 16);
+  const extension = resource === "drug-safety-communications" ? "xml" : "json";
+  return `${resource.replace(/\//g, "-")}-${hash}.${extension}`;
+}
+
+export class FixtureFdaClient implements FdaClient {
+  readonly name = "openfda-fixtures";
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async request(resource: FdaResource, params: FdaParams): Promise<string> {
+    const file = path.join(this.fixturesDir, fixtureFileName(resource, params));
+    try {
+      return await readFile(file, "utf8");
+    } catch {
+      throw new Error(
+        `No FDA fixture for ${resource} ${JSON.stringify(params)} (${file}). ` +
+          "Record it with OPENFDA_MODE=record."
+      );
+    }
+  }
+}
+
+/**
+ * Passes requests to a live client and saves each response as a fixture
+ */
+export class RecordingFdaClient implements FdaClient {
+  readonly name = "openfda-recording";
+
+  constructor(
+    private readonly live: FdaClient,
+    private readonly fixturesDir: string
+  ) {}
+
+  async request(resource: FdaResource, params: FdaParams): Promise<string> {
+    const body = await this.live.request(resource, params);
+    await mkdir(this.fixturesDir, { recursive: true });
+    await writeFile(path.join(this.fixturesDir, fixtureFileName(resource, params)), body, "utf8");
+    return body;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * FDA HTTP Client
+ * Calls openFDA within its published limit of 240 requests per minute and
+ * fetches the Drug Safety Communications feed. Rate-limit and server
+ * errors are retried.
+ */
+
+import { RateLimiter } from "../../utils/rate-limit";
+import { TimeoutError, withRetry } from "../../utils/retry";
+import type { FdaClient, FdaParams, FdaResource } from "./openfda.types";
+
+const OPENFDA_BASE_URL = "https://api.fda.gov";
+const SAFETY_COMMUNICATIONS_URL =
+  "https://www.fda.gov/about-fda/contact-fda/stay-informed/rss-feeds/drug-safety-communications/rss.xml";
+
+export class FdaError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "FdaError";
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof FdaError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Network failures surface from fetch as TypeError
+  return error instanceof TimeoutError || error instanceof TypeError;
+}
+
+interface HttpFdaClientOptions {
+  apiKey?: string;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export class HttpFdaClient implements FdaClient {
+  readonly name = "openfda";
+  private readonly limiter = new RateLimiter(4);
+
+  constructor(private readonly options: HttpFdaClientOptions = {}) {}
+
+  async request(resource: FdaResource, params: FdaParams): Promise<string> {
+    const { apiKey, timeoutMs = 15000, retries = 3 } = this.options;
+    const url =
+      resource === "drug-safety-communications"
+        ? SAFETY_COMMUNICATIONS_URL
+        : `${OPENFDA_BASE_URL}/${resource}.json?${new URLSearchParams({
+            ...params,
+            ...(apiKey ? { api_key: apiKey } : {}),
+          })}`;
+
+    return withRetry(
+      async () => {
+        await this.limiter.acquire();
+        const response = await fetch(url);
+        const body = await response.text();
+        // openFDA answers a search without matches with 404
+        if (response.status === 404 && resource !== "drug-safety-communications") {
+          return JSON.stringify({ results: [] });
+        }
+        if (!response.ok) {
+          throw new FdaError(
+            response.status,
+            `FDA ${resource} returned ${response.status}: ${body.slice(0, 200)}`
+          );
+        }
+        return body;
+      },
+      { retries, timeoutMs, baseDelayMs: 1000, isRetryable }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import path from "node:path";
+import { HttpFdaClient } from "./http.client";
+import { FixtureFdaClient, RecordingFdaClient } from "./fixture.client";
+import type { FdaClient } from "./openfda.types";
+
+export type {
+  EnforcementReport,
+  EnforcementResponse,
+  FdaClient,
+  FdaParams,
+  FdaResource,
+} from "./openfda.types";
+export { FdaError } from "./http.client";
+export {
+  drugNamesInText,
+  normalizeDrugName,
+  parseEnforcementResponse,
+  parseSafetyCommunications,
+  recallAlert,
+} from "./alerts";
+
+/**
+ * Creates the FDA client selected by OPENFDA_MODE
+ * (`live` | `record` | `replay`)
+ */
+export function createFdaClient(): FdaClient {
+  const mode = process.env.OPENFDA_MODE || "live";
+  const fixturesDir = path.resolve(process.env.OPENFDA_FIXTURES_DIR || "./fixtures/openfda");
+
+  const live = () =>
+    new HttpFdaClient({
+      apiKey: process.env.OPENFDA_API_KEY || undefined,
+      timeoutMs: parseInt(process.env.OPENFDA_TIMEOUT_MS || "15000", 10),
+      retries: parseInt(process.env.OPENFDA_MAX_RETRIES || "3", 10),
+    });
+
+  switch (mode) {
+    case "live":
+      return live();
+    case "record":
+      return new RecordingFdaClient(live(), fixturesDir);
+    case "replay":
+      return new FixtureFdaClient(fixturesDir);
+    default:
+      throw new Error(`Unknown OPENFDA_MODE: ${mode}`);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * - `drug/enforcement`: openFDA drug recall enforcement reports (JSON)
+ * - `drug-safety-communications`: FDA Drug Safety Communications RSS feed
+ */
+export type FdaResource = "drug/enforcement" | "drug-safety-communications";
+
+export type FdaParams = Record<string, string>;
+
+/**
+ * Transport for FDA requests, so the service can run against live APIs or
+ * recorded fixtures. Returns the raw response body.
+ */
+export interface FdaClient {
+  readonly name: string;
+  request(resource: FdaResource, params: FdaParams): Promise<string>;
+}
+
+/** The fields of an openFDA enforcement report that alerts use */
+export interface EnforcementReport {
+  recall_number: string;
+  /** "Ongoing" | "Completed" | "Terminated" */
+  status: string;
+  classification?: string;
+  product_description: string;
+  reason_for_recall?: string;
+  recalling_firm?: string;
+  /** `YYYYMMDD` */
+  report_date: string;
+  openfda?: {
+    brand_name?: string[];
+    generic_name?: string[];
+  };
+}
+
+export interface EnforcementResponse {
+  meta?: { results?: { skip: number; limit: number; total: number } };
+  results?: EnforcementReport[];
+}
@@ -0,0 +1,86 @@
+/**
+ * Outbreak Service
+ * Ingests WHO Disease Outbreak News into the outbreak store and lists the
+ * active outbreaks for a region
+ */
+
+import type { DocumentRegion, OutbreakAlert } from "@umoyo/shared";
+import { createOutbreakStore, type OutbreakStore } from "./outbreaks";
+import {
+  createWhoClient,
+  inRegion,
+  parseOutbreakNews,
+  type DonFormat,
+  type WhoClient,
+} from "./who";
+
+/** Outbreaks are reloaded from the store after this long */
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface OutbreakIngestion {
+  /** Items published since the start date, newest first */
+  outbreaks: OutbreakAlert[];
+  /** Items concerning Zambia or southern Africa */
+  regional: number;
+}
+
+class OutbreakService {
+  private client: WhoClient | null = null;
+  private store: OutbreakStore | null = null;
+  private cached: { outbreaks: OutbreakAlert[]; loadedAt: number } | null = null;
+
+  private getClient(): WhoClient {
+    if (!this.client) {
+      this.client = createWhoClient();
+    }
+    return this.client;
+  }
+
+  private getStore(): OutbreakStore {
+    if (!this.store) {
+      this.store = createOutbreakStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * The latest Disease Outbreak News items, from the news API or, with
+   * WHO_DON_FORMAT=rss, the RSS feed
+   */
+  async fetchOutbreaks(): Promise<OutbreakAlert[]> {
+    const format: DonFormat = process.env.WHO_DON_FORMAT === "rss" ? "rss" : "json";
+    return parseOutbreakNews(await this.getClient().request(format), format);
+  }
+
+  /**
+   * Fetches the news and writes items published on or after `since`
+   * (`YYYY-MM-DD`) to the store
+   */
+  async ingest(since: string): Promise<OutbreakIngestion> {
+    const outbreaks = (await this.fetchOutbreaks()).filter((outbreak) => outbreak.date >= since);
+    await this.getStore().upsert(outbreaks);
+    return {
+      outbreaks,
+      regional: outbreaks.filter((outbreak) => outbreak.region !== "global").length,
+    };
+  }
+
+  /**
+   * Outbreaks in the region published within OUTBREAK_ACTIVE_DAYS
+   * (default 90), newest first
+   */
+  async listActive(region: DocumentRegion): Promise<OutbreakAlert[]> {
+    if (!this.cached || Date.now() - this.cached.loadedAt >= CACHE_TTL_MS) {
+      const activeDays = parseInt(process.env.OUTBREAK_ACTIVE_DAYS || "90", 10);
+      const since = new Date(Date.now() - activeDays * 24 * 60 * 60 * 1000)
+        .toISOString()
+        .slice(0, 10);
+      this.cached = { outbreaks: await this.getStore().listSince(since), loadedAt: Date.now() };
+    }
+    return this.cached.outbreaks
+      .filter((outbreak) => inRegion(outbreak, region))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+}
+
+export const outbreakService = new OutbreakService();
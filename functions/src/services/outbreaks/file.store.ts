@@ -0,0 +1,46 @@
+/**
+ * File Outbreak Store
+ * Keeps outbreak news in one JSON file, for offline development and
+ * fixtures
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { outbreakAlertSchema, type OutbreakAlert } from "@umoyo/shared";
+import type { OutbreakStore } from "./outbreaks.types";
+
+const outbreakFileSchema = z.object({ outbreaks: z.array(outbreakAlertSchema) });
+
+export class FileOutbreakStore implements OutbreakStore {
+  readonly name = "file";
+
+  constructor(private readonly file: string) {}
+
+  async upsert(outbreaks: OutbreakAlert[]): Promise<void> {
+    const byId = new Map((await this.read()).map((outbreak) => [outbreak.outbreakId, outbreak]));
+    outbreaks.forEach((outbreak) => byId.set(outbreak.outbreakId, outbreak));
+
+    const sorted = [...byId.values()].sort((a, b) => b.date.localeCompare(a.date));
+    await mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const temporary = `${this.file}.tmp`;
+    await writeFile(temporary, `${JSON.stringify({ outbreaks: sorted }, null, 2)}\n`, "utf8");
+    await rename(temporary, this.file);
+  }
+
+  async listSince(since: string): Promise<OutbreakAlert[]> {
+    return (await this.read()).filter((outbreak) => outbreak.date >= since);
+  }
+
+  private async read(): Promise<OutbreakAlert[]> {
+    try {
+      return outbreakFileSchema.parse(JSON.parse(await readFile(this.file, "utf8"))).outbreaks;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
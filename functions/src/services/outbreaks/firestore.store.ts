@@ -0,0 +1,38 @@
+/**
+ * Firestore Outbreak Store
+ * One document per news item in the `outbreaks` collection, keyed by
+ * outbreak id
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { outbreakAlertSchema, type OutbreakAlert } from "@umoyo/shared";
+import type { OutbreakStore } from "./outbreaks.types";
+
+const OUTBREAKS_COLLECTION = "outbreaks";
+
+export class FirestoreOutbreakStore implements OutbreakStore {
+  readonly name = "firestore";
+
+  async upsert(outbreaks: OutbreakAlert[]): Promise<void> {
+    const collection = getFirestore().collection(OUTBREAKS_COLLECTION);
+    const writer = getFirestore().bulkWriter();
+    // Awaited together so a failed write rejects here instead of going unhandled
+    const writes = outbreaks.map((outbreak) =>
+      writer.set(collection.doc(outbreak.outbreakId), outbreak)
+    );
+    await Promise.all([...writes, writer.close()]);
+  }
+
+  async listSince(since: string): Promise<OutbreakAlert[]> {
+    const snapshot = await getFirestore()
+      .collection(OUTBREAKS_COLLECTION)
+      .where("date", ">=", since)
+      .orderBy("date", "desc")
+      .get();
+
+    return snapshot.docs.flatMap((doc) => {
+      const parsed = outbreakAlertSchema.safeParse(doc.data());
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+}
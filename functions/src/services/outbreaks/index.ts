@@ -0,0 +1,22 @@
+import path from "node:path";
+import { FileOutbreakStore } from "./file.store";
+import { FirestoreOutbreakStore } from "./firestore.store";
+import type { OutbreakStore } from "./outbreaks.types";
+
+export type { OutbreakStore } from "./outbreaks.types";
+
+/**
+ * Creates the store selected by OUTBREAKS_STORE (`firestore` | `file`)
+ */
+export function createOutbreakStore(): OutbreakStore {
+  const store = process.env.OUTBREAKS_STORE || "firestore";
+
+  switch (store) {
+    case "firestore":
+      return new FirestoreOutbreakStore();
+    case "file":
+      return new FileOutbreakStore(path.resolve(process.env.OUTBREAKS_FILE || "outbreaks.json"));
+    default:
+      throw new Error(`Unknown OUTBREAKS_STORE: ${store}`);
+  }
+}
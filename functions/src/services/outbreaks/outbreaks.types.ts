@@ -0,0 +1,13 @@
+import type { OutbreakAlert } from "@umoyo/shared";
+
+/**
+ * Where ingested outbreak news is kept: Firestore in production, a JSON
+ * file for offline development
+ */
+export interface OutbreakStore {
+  readonly name: string;
+  /** Adds outbreaks, replacing any with the same `outbreakId` */
+  upsert(outbreaks: OutbreakAlert[]): Promise<void>;
+  /** Outbreaks published on or after `since` (`YYYY-MM-DD`), newest first */
+  listSince(since: string): Promise<OutbreakAlert[]>;
+}
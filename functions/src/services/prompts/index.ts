@@ -0,0 +1,72 @@
+import { PROMPT_TEMPLATES } from "./templates";
+import type { PromptAudience, PromptTemplate } from "./prompt.types";
+
+export type { PromptAudience, PromptTemplate } from "./prompt.types";
+
+/**
+ * Picks the template for an audience and category. The latest version of
+ * each template is used unless it is pinned to an older one.
+ */
+export class PromptRegistry {
+  private readonly active = new Map<string, PromptTemplate>();
+
+  constructor(templates: PromptTemplate[], pins: Map<string, number> = new Map()) {
+    for (const template of templates) {
+      const pinned = pins.get(template.id);
+      if (pinned !== undefined) {
+        if (template.version === pinned) {
+          this.active.set(template.id, template);
+        }
+        continue;
+      }
+
+      const current = this.active.get(template.id);
+      if (!current || template.version > current.version) {
+        this.active.set(template.id, template);
+      }
+    }
+
+    for (const [id, version] of pins) {
+      if (!this.active.has(id)) {
+        throw new Error(`Pinned prompt template ${id}@${version} does not exist`);
+      }
+    }
+  }
+
+  /**
+   * Audiences other than professionals (including "both") get patient
+   * templates. Unknown categories fall back to the audience's general template.
+   */
+  resolve(audience?: string, category?: string): PromptTemplate {
+    const resolvedAudience: PromptAudience =
+      audience === "healthcare-professional" ? "healthcare-professional" : "patient";
+    const prefix = resolvedAudience === "healthcare-professional" ? "professional" : "patient";
+
+    const template =
+      (category && this.active.get(`${prefix}.${category}`)) || this.active.get(`${prefix}.general`);
+    if (!template) {
+      throw new Error(`No prompt template for audience ${resolvedAudience}`);
+    }
+    return template;
+  }
+}
+
+/**
+ * Parses PROMPT_TEMPLATE_PINS, e.g. `patient.general@1,professional.drug-info@2`
+ */
+function parsePins(value: string | undefined): Map<string, number> {
+  const pins = new Map<string, number>();
+  for (const entry of (value ?? "").split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [id, version] = entry.split("@");
+    const parsed = Number(version);
+    if (!id || !Number.isInteger(parsed)) {
+      throw new Error(`Invalid PROMPT_TEMPLATE_PINS entry: ${entry}`);
+    }
+    pins.set(id, parsed);
+  }
+  return pins;
+}
+
+export function createPromptRegistry(): PromptRegistry {
+  return new PromptRegistry(PROMPT_TEMPLATES, parsePins(process.env.PROMPT_TEMPLATE_PINS));
+}
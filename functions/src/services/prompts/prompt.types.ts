@@ -0,0 +1,21 @@
+import type { DocumentCategory, DocumentSource } from "@umoyo/shared";
+import type { GenerationConfig } from "../llm";
+
+export type PromptAudience = "patient" | "healthcare-professional";
+
+export interface PromptTemplate {
+  /** Stable across versions, e.g. `patient.drug-info` */
+  id: string;
+  /** Bumped on every wording change so answers can be traced to a prompt */
+  version: number;
+  audience: PromptAudience;
+  /** Category the template is tuned for; omitted for the audience fallback */
+  category?: DocumentCategory;
+  systemInstruction: string;
+  /** Renders the numbered excerpts and the question as the final user turn */
+  formatPrompt(question: string, sources: DocumentSource[]): string;
+  /** Shown with every answer generated from this template */
+  disclaimer?: string;
+  /** Overrides merged onto the default generation config */
+  config?: GenerationConfig;
+}
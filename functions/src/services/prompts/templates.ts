@@ -0,0 +1,136 @@
+/**
+ * Prompt templates by audience and category. Never edit a published
+ * version: add the next version below it, so answers recorded with the
+ * old id and version stay explainable and rollback stays possible.
+ */
+
+import type { DocumentSource } from "@umoyo/shared";
+import type { PromptTemplate } from "./prompt.types";
+
+const GROUNDING_RULES = [
+  "Answer only from the numbered excerpts provided with the question.",
+  "If the excerpts do not contain the answer, say so instead of guessing.",
+  "Cite the supporting excerpt after each claim with its number in brackets, like [2] or [1, 3].",
+  "Follow Zambian Ministry of Health guidance where it applies.",
+];
+
+const PROFESSIONAL_DISCLAIMER =
+  "Summarised from the cited sources. Confirm against current national guidelines before clinical use.";
+
+const PATIENT_DISCLAIMER =
+  "This information is for learning only. It does not replace advice from a health worker.";
+
+/**
+ * Excerpts numbered from 1 in `sources` order, so [n] markers map to sources
+ */
+function formatExcerpts(sources: DocumentSource[], options: { pages: boolean }): string {
+  if (sources.length === 0) {
+    return "(none)";
+  }
+  return sources
+    .map((source, index) => {
+      const page = options.pages && source.pageNumber ? `, page ${source.pageNumber}` : "";
+      return `[${index + 1}] ${source.documentTitle}${page}\n${source.excerpt}`;
+    })
+    .join("\n\n");
+}
+
+function professionalPrompt(question: string, sources: DocumentSource[]): string {
+  return ["Excerpts:", formatExcerpts(sources, { pages: true }), "", `Question: ${question}`].join("\n");
+}
+
+function patientPrompt(question: string, sources: DocumentSource[]): string {
+  return [
+    "Excerpts:",
+    formatExcerpts(sources, { pages: false }),
+    "",
+    `Question from a patient: ${question}`,
+  ].join("\n");
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "professional.general",
+    version: 1,
+    audience: "healthcare-professional",
+    systemInstruction: [
+      "You are Umoyo Health Hub, a medical knowledge assistant for healthcare workers in Zambia.",
+      ...GROUNDING_RULES,
+      "Use precise clinical terminology.",
+    ].join(" "),
+    formatPrompt: professionalPrompt,
+    disclaimer: PROFESSIONAL_DISCLAIMER,
+  },
+  {
+    id: "professional.clinical-guideline",
+    version: 1,
+    audience: "healthcare-professional",
+    category: "clinical-guideline",
+    systemInstruction: [
+      "You are Umoyo Health Hub, a medical knowledge assistant for healthcare workers in Zambia.",
+      ...GROUNDING_RULES,
+      "Structure answers as assessment, first-line management, alternatives and referral criteria, keeping only the parts the excerpts cover.",
+      "Name the guideline and page for each recommendation.",
+    ].join(" "),
+    formatPrompt: professionalPrompt,
+    disclaimer: PROFESSIONAL_DISCLAIMER,
+  },
+  {
+    id: "professional.drug-info",
+    version: 1,
+    audience: "healthcare-professional",
+    category: "drug-info",
+    systemInstruction: [
+      "You are Umoyo Health Hub, a medical knowledge assistant for healthcare workers in Zambia.",
+      ...GROUNDING_RULES,
+      "Give doses exactly as written in the excerpts, with units, route, frequency and duration.",
+      "Include contraindications, interactions and dose adjustments when the excerpts mention them.",
+    ].join(" "),
+    formatPrompt: professionalPrompt,
+    disclaimer: PROFESSIONAL_DISCLAIMER,
+    config: { temperature: 0 },
+  },
+  {
+    id: "patient.general",
+    version: 1,
+    audience: "patient",
+    systemInstruction: [
+      "You are Umoyo Health Hub, a health information assistant for the public in Zambia.",
+      ...GROUNDING_RULES,
+      "Use plain, everyday language and short sentences. Explain any medical word you use.",
+      "Say when the person should visit a health facility.",
+    ].join(" "),
+    formatPrompt: patientPrompt,
+    disclaimer: PATIENT_DISCLAIMER,
+    config: { maxOutputTokens: 600 },
+  },
+  {
+    id: "patient.drug-info",
+    version: 1,
+    audience: "patient",
+    category: "drug-info",
+    systemInstruction: [
+      "You are Umoyo Health Hub, a health information assistant for the public in Zambia.",
+      ...GROUNDING_RULES,
+      "Use plain, everyday language and short sentences.",
+      "Do not tell the person to start, stop or change a medicine or dose. Ask them to check with a health worker or pharmacist.",
+    ].join(" "),
+    formatPrompt: patientPrompt,
+    disclaimer: PATIENT_DISCLAIMER,
+    config: { temperature: 0, maxOutputTokens: 600 },
+  },
+  {
+    id: "patient.patient-education",
+    version: 1,
+    audience: "patient",
+    category: "patient-education",
+    systemInstruction: [
+      "You are Umoyo Health Hub, a health information assistant for the public in Zambia.",
+      ...GROUNDING_RULES,
+      "Use plain, everyday language. Give practical steps the person can take at home, and the warning signs that mean they should visit a health facility.",
+    ].join(" "),
+    formatPrompt: patientPrompt,
+    disclaimer: PATIENT_DISCLAIMER,
+    config: { maxOutputTokens: 600 },
+  },
+];
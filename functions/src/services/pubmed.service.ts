@@ -1,45 +1,118 @@
 /**
  * PubMed API Service
- * Wrapper for PubMed API to fetch latest medical research papers
+ * Searches PubMed through E-utilities (esearch, then efetch in batches) and
+ * parses the records into PubMedArticle objects
  */
 
-interface PubMedArticle {
-  pmid: string;
-  title: string;
-  abstract: string;
-  authors: string[];
-  journal: string;
-  publicationDate: string;
-  url: string;
+import {
+  createEutilsClient,
+  parseArticleSet,
+  type EutilsClient,
+  type PubMedArticle,
+  type PubMedIdPage,
+  type PubMedSearchParams,
+} from "./pubmed";
+
+const DEFAULT_MAX_RESULTS = 20;
+/** esearch returns at most 10,000 PMIDs per query */
+const MAX_RESULTS = 10000;
+/** NCBI asks for no more than 200 ids per efetch request */
+const EFETCH_BATCH_SIZE = 200;
+
+interface EsearchResponse {
+  esearchresult?: {
+    count?: string;
+    idlist?: string[];
+    ERROR?: string;
+  };
+  error?: string;
 }
 
-interface PubMedSearchParams {
-  query: string;
-  maxResults?: number;
-  dateFrom?: string;
-  dateTo?: string;
+/** `YYYY-MM-DD` to the `YYYY/MM/DD` form esearch expects */
+function toEutilsDate(date: string): string {
+  return date.trim().slice(0, 10).replace(/-/g, "/");
 }
 
 class PubMedService {
-  private baseUrl = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+  private client: EutilsClient | null = null;
+
+  private getClient(): EutilsClient {
+    if (!this.client) {
+      this.client = createEutilsClient();
+    }
+    return this.client;
+  }
+
+  /**
+   * PMIDs matching the query, in PubMed's order for `sort`
+   */
+  async searchIds(params: PubMedSearchParams): Promise<PubMedIdPage> {
+    const { query, maxResults = DEFAULT_MAX_RESULTS, offset = 0, dateFrom, dateTo } = params;
+    const request: Record<string, string> = {
+      db: "pubmed",
+      term: query,
+      retmode: "json",
+      retstart: String(offset),
+      retmax: String(Math.min(Math.max(maxResults, 0), MAX_RESULTS)),
+      sort: params.sort ?? "relevance",
+    };
+    // esearch needs both ends of a date range
+    if (dateFrom || dateTo) {
+      request.datetype = params.dateType ?? "pdat";
+      request.mindate = dateFrom ? toEutilsDate(dateFrom) : "1800";
+      request.maxdate = dateTo ? toEutilsDate(dateTo) : "3000";
+    }
+
+    const body = await this.getClient().request("esearch", request);
+    const response = JSON.parse(body) as EsearchResponse;
+    const result = response.esearchresult;
+    if (!result || result.ERROR || response.error) {
+      throw new Error(`PubMed search failed: ${result?.ERROR ?? response.error ?? body.slice(0, 200)}`);
+    }
+
+    return {
+      count: parseInt(result.count ?? "0", 10),
+      pmids: result.idlist ?? [],
+    };
+  }
+
+  /**
+   * Full records for the PMIDs, in the order given. PMIDs PubMed does not
+   * return (deleted or book records) are left out.
+   */
+  async fetchArticles(pmids: string[]): Promise<PubMedArticle[]> {
+    const unique = [...new Set(pmids)];
+    const byPmid = new Map<string, PubMedArticle>();
+
+    for (let start = 0; start < unique.length; start += EFETCH_BATCH_SIZE) {
+      const batch = unique.slice(start, start + EFETCH_BATCH_SIZE);
+      const xml = await this.getClient().request("efetch", {
+        db: "pubmed",
+        id: batch.join(","),
+        retmode: "xml",
+      });
+      for (const article of parseArticleSet(xml)) {
+        byPmid.set(article.pmid, article);
+      }
+    }
+
+    return unique
+      .map((pmid) => byPmid.get(pmid))
+      .filter((article): article is PubMedArticle => article !== undefined);
+  }
 
   async searchArticles(params: PubMedSearchParams): Promise<PubMedArticle[]> {
-    // TODO: Implement PubMed API integration
-    // 1. Query PubMed E-utilities API
-    // 2. Parse XML response
-    // 3. Fetch article details
-    // 4. Return structured article data
-    
-    console.log("PubMed search:", params);
-    throw new Error("PubMed service not implemented yet");
+    const { pmids } = await this.searchIds(params);
+    return this.fetchArticles(pmids);
   }
 
   async getArticleById(pmid: string): Promise<PubMedArticle | null> {
-    // TODO: Implement single article retrieval
-    console.log("PubMed get article:", pmid);
-    throw new Error("PubMed service not implemented yet");
+    if (!/^\d+$/.test(pmid)) {
+      return null;
+    }
+    const [article] = await this.fetchArticles([pmid]);
+    return article ?? null;
   }
 }
 
 export const pubmedService = new PubMedService();
-
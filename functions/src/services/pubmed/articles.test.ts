@@ -0,0 +1,138 @@
+import { fileURLToPath } from "node:url";
+import { beforeAll, describe, expect, it } from "vitest";
+import { pubmedService } from "../pubmed.service";
+import { parseArticleSet } from "./articles";
+
+/** Sample search replayed from `functions/fixtures/pubmed` */
+const SEARCH = { query: "artemether-lumefantrine Zambia", maxResults: 4 };
+
+beforeAll(() => {
+  process.env.PUBMED_MODE = "replay";
+  process.env.PUBMED_FIXTURES_DIR = fileURLToPath(
+    new URL("../../../fixtures/pubmed", import.meta.url)
+  );
+});
+
+describe("pubmedService (replayed fixtures)", () => {
+  it("finds the sample PMIDs", async () => {
+    expect(await pubmedService.searchIds(SEARCH)).toEqual({
+      count: 4,
+      pmids: ["90000001", "90000002", "90000003", "90000004"],
+    });
+  });
+
+  it("parses a structured abstract with entities and inline markup", async () => {
+    const [article] = await pubmedService.searchArticles(SEARCH);
+
+    expect(article).toEqual({
+      pmid: "90000001",
+      title: "Artemether-lumefantrine efficacy in children under five in Eastern Province, Zambia.",
+      abstract: [
+        "BACKGROUND: Artemether-lumefantrine is the first-line treatment for uncomplicated malaria in Zambia.",
+        "METHODS: Children aged 6 months to <5 years with Plasmodium falciparum mono-infection were followed for 28 days.",
+        "RESULTS: The PCR-corrected cure rate was 97.1% (95% CI 94.2–98.6).",
+        "CONCLUSIONS: Artemether-lumefantrine remains efficacious.",
+      ].join("\n\n"),
+      abstractSections: [
+        {
+          label: "BACKGROUND",
+          category: "BACKGROUND",
+          text: "Artemether-lumefantrine is the first-line treatment for uncomplicated malaria in Zambia.",
+        },
+        {
+          label: "METHODS",
+          category: "METHODS",
+          text: "Children aged 6 months to <5 years with Plasmodium falciparum mono-infection were followed for 28 days.",
+        },
+        {
+          label: "RESULTS",
+          category: "RESULTS",
+          text: "The PCR-corrected cure rate was 97.1% (95% CI 94.2–98.6).",
+        },
+        {
+          label: "CONCLUSIONS",
+          category: "CONCLUSIONS",
+          text: "Artemether-lumefantrine remains efficacious.",
+        },
+      ],
+      authors: ["Banda C", "Mwale JK"],
+      journal: "Malaria journal",
+      journalAbbreviation: "Malar J",
+      publicationDate: "2023-03-14",
+      doi: "10.0000/sample.2023.001",
+      pmcid: "PMC9000001",
+      language: "eng",
+      publicationTypes: ["Journal Article", "Multicenter Study"],
+      meshTerms: ["Malaria, Falciparum", "Zambia"],
+      corrections: [],
+      url: "https://pubmed.ncbi.nlm.nih.gov/90000001/",
+    });
+  });
+
+  it("reads MedlineDate, CDATA, collective authors and retraction links", async () => {
+    const [, article] = await pubmedService.searchArticles(SEARCH);
+
+    expect(article).toMatchObject({
+      pmid: "90000002",
+      title: "Isoniazid preventive therapy and β-lactam use in adults living with HIV.",
+      abstract: "Uptake of isoniazid preventive therapy was <50% across clinics.",
+      abstractSections: [
+        { text: "Uptake of isoniazid preventive therapy was <50% across clinics." },
+      ],
+      authors: ["Zambia TB Study Group"],
+      journal: "Tropical medicine & international health : TM & IH",
+      publicationDate: "2019-11",
+      publicationTypes: ["Journal Article", "Retracted Publication"],
+      corrections: [{ type: "RetractionIn", pmid: "90000009" }],
+    });
+    expect(article.doi).toBeUndefined();
+    expect(article.abstractSections[0].label).toBeUndefined();
+  });
+
+  it("keeps the year of a season-only date and allows a missing abstract", async () => {
+    const [, , article] = await pubmedService.searchArticles(SEARCH);
+
+    expect(article).toMatchObject({
+      pmid: "90000003",
+      publicationDate: "2021",
+      abstract: "",
+      abstractSections: [],
+      authors: [],
+      publicationTypes: ["Practice Guideline"],
+    });
+    expect(article.journalAbbreviation).toBeUndefined();
+  });
+
+  it("skips book records", async () => {
+    const articles = await pubmedService.searchArticles(SEARCH);
+
+    expect(articles.map((article) => article.pmid)).toEqual(["90000001", "90000002", "90000003"]);
+  });
+
+  it("names the missing fixture for an unrecorded request", async () => {
+    await expect(pubmedService.searchIds({ query: "not recorded" })).rejects.toThrow(
+      /No PubMed fixture for esearch/
+    );
+  });
+});
+
+describe("parseArticleSet", () => {
+  it("falls back to the electronic date when the issue date has no year", () => {
+    const [article] = parseArticleSet(`
+      <PubmedArticleSet><PubmedArticle>
+        <MedlineCitation><PMID>1</PMID><Article>
+          <Journal><JournalIssue><PubDate><MedlineDate>Summer</MedlineDate></PubDate></JournalIssue></Journal>
+          <ArticleTitle>Title</ArticleTitle>
+          <ArticleDate DateType="Electronic"><Year>2020</Year><Month>7</Month><Day>4</Day></ArticleDate>
+        </Article></MedlineCitation>
+      </PubmedArticle></PubmedArticleSet>`);
+
+    expect(article.publicationDate).toBe("2020-07-04");
+  });
+
+  it("throws on an E-utilities error document", () => {
+    expect(() =>
+      parseArticleSet("<eFetchResult><ERROR>Empty id list</ERROR></eFetchResult>")
+    ).toThrow("PubMed efetch returned no article set: Empty id list");
+  });
+});
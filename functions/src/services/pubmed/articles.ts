@@ -0,0 +1,161 @@
+/**
+ * Converts PubMed efetch XML (`PubmedArticleSet`) into PubMedArticle records
+ */
+
+import type { AbstractSection, ArticleCorrection, PubMedArticle } from "./pubmed.types";
+import { childElements, findElement, parseXml, textContent, type XmlElement } from "../../utils/xml";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+export function articleUrl(pmid: string): string {
+  return `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** "Jan", "January", "01" or "1" to a month number */
+function parseMonth(value: string): number | undefined {
+  const numeric = parseInt(value, 10);
+  if (numeric >= 1 && numeric <= 12) return numeric;
+  const index = MONTHS.indexOf(value.slice(0, 3).toLowerCase());
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Reads <Year>/<Month>/<Day> or a free-text <MedlineDate> ("2019 Nov-Dec")
+ * into an ISO date as precise as the record allows
+ */
+function parseDate(date: XmlElement | undefined): string | undefined {
+  if (!date) return undefined;
+
+  const medlineDate = textContent(findElement(date, "MedlineDate"));
+  const [yearText, monthText, dayText] = medlineDate
+    ? (medlineDate.match(/^(\d{4})(?:\s+([A-Za-z]{3}))?/)?.slice(1) ?? [])
+    : [
+        textContent(findElement(date, "Year")),
+        textContent(findElement(date, "Month")),
+        textContent(findElement(date, "Day")),
+      ];
+
+  if (!yearText || !/^\d{4}$/.test(yearText)) return undefined;
+  const month = monthText ? parseMonth(monthText) : undefined;
+  if (!month) return yearText;
+  const day = dayText ? parseInt(dayText, 10) : NaN;
+  return day >= 1 && day <= 31 ? `${yearText}-${pad(month)}-${pad(day)}` : `${yearText}-${pad(month)}`;
+}
+
+function parseAuthor(author: XmlElement): string | undefined {
+  const collective = textContent(findElement(author, "CollectiveName"));
+  if (collective) return collective;
+
+  const lastName = textContent(findElement(author, "LastName"));
+  const initials = textContent(findElement(author, "Initials"));
+  const name = [lastName, initials].filter(Boolean).join(" ");
+  return name || undefined;
+}
+
+function parseAbstract(article: XmlElement): AbstractSection[] {
+  return childElements(findElement(article, "Abstract"), "AbstractText")
+    .map((section) => ({
+      label: section.attributes.Label || undefined,
+      category: section.attributes.NlmCategory || undefined,
+      text: textContent(section),
+    }))
+    .filter((section) => section.text.length > 0);
+}
+
+function formatAbstract(sections: AbstractSection[]): string {
+  return sections
+    .map((section) => (section.label ? `${section.label}: ${section.text}` : section.text))
+    .join("\n\n");
+}
+
+function parseCorrections(citation: XmlElement): ArticleCorrection[] {
+  return childElements(findElement(citation, "CommentsCorrectionsList"), "CommentsCorrections").map(
+    (correction) => ({
+      type: correction.attributes.RefType ?? "",
+      pmid: textContent(findElement(correction, "PMID")) || undefined,
+    })
+  );
+}
+
+function articleId(pubmedArticle: XmlElement, idType: string): string | undefined {
+  const id = childElements(findElement(pubmedArticle, "PubmedData", "ArticleIdList"), "ArticleId").find(
+    (element) => element.attributes.IdType === idType
+  );
+  return id ? textContent(id) || undefined : undefined;
+}
+
+/**
+ * Journal issue date first, then the electronic publication date, then the
+ * date the record entered PubMed
+ */
+function publicationDate(pubmedArticle: XmlElement, article: XmlElement): string {
+  const electronic = childElements(article, "ArticleDate").find(
+    (date) => date.attributes.DateType === "Electronic"
+  );
+  const entered = childElements(findElement(pubmedArticle, "PubmedData", "History"), "PubMedPubDate").find(
+    (date) => date.attributes.PubStatus === "pubmed"
+  );
+  return (
+    parseDate(findElement(article, "Journal", "JournalIssue", "PubDate")) ??
+    parseDate(electronic) ??
+    parseDate(entered) ??
+    ""
+  );
+}
+
+function parseArticle(pubmedArticle: XmlElement): PubMedArticle | null {
+  const citation = findElement(pubmedArticle, "MedlineCitation");
+  const article = findElement(citation, "Article");
+  const pmid = textContent(findElement(citation, "PMID"));
+  if (!citation || !article || !pmid) return null;
+
+  const abstractSections = parseAbstract(article);
+  const journal = findElement(article, "Journal");
+
+  return {
+    pmid,
+    title:
+      textContent(findElement(article, "ArticleTitle")) ||
+      textContent(findElement(article, "VernacularTitle")),
+    abstract: formatAbstract(abstractSections),
+    abstractSections,
+    authors: childElements(findElement(article, "AuthorList"), "Author")
+      .map(parseAuthor)
+      .filter((author): author is string => Boolean(author)),
+    journal: textContent(findElement(journal, "Title")),
+    journalAbbreviation: textContent(findElement(journal, "ISOAbbreviation")) || undefined,
+    publicationDate: publicationDate(pubmedArticle, article),
+    doi: articleId(pubmedArticle, "doi"),
+    pmcid: articleId(pubmedArticle, "pmc"),
+    language: textContent(findElement(article, "Language")) || undefined,
+    publicationTypes: childElements(findElement(article, "PublicationTypeList"), "PublicationType").map(
+      textContent
+    ),
+    meshTerms: childElements(findElement(citation, "MeshHeadingList"), "MeshHeading").map((heading) =>
+      textContent(findElement(heading, "DescriptorName"))
+    ),
+    corrections: parseCorrections(citation),
+    url: articleUrl(pmid),
+  };
+}
+
+/**
+ * Parses an efetch response. Book records (PubmedBookArticle) are skipped.
+ * Throws if E-utilities returned an error document instead of articles.
+ */
+export function parseArticleSet(xml: string): PubMedArticle[] {
+  const document = parseXml(xml);
+  const set = findElement(document, "PubmedArticleSet");
+  if (!set) {
+    const error = textContent(findElement(document, "eFetchResult", "ERROR"));
+    throw new Error(`PubMed efetch returned no article set${error ? `: ${error}` : ""}`);
+  }
+
+  return childElements(set, "PubmedArticle")
+    .map(parseArticle)
+    .filter((article): article is PubMedArticle => article !== null);
+}
@@ -0,0 +1,80 @@
+/**
+ * E-utilities HTTP Client
+ * Calls NCBI E-utilities within the published rate limits: 3 requests per
+ * second, or 10 with an API key. Rate-limit and server errors are retried.
+ */
+
+import { RateLimiter } from "../../utils/rate-limit";
+import { TimeoutError, withRetry } from "../../utils/retry";
+import type { EutilsClient, EutilsEndpoint, EutilsParams } from "./pubmed.types";
+
+const BASE_URL = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+
+export class EutilsError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "EutilsError";
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof EutilsError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Network failures surface from fetch as TypeError
+  return error instanceof TimeoutError || error instanceof TypeError;
+}
+
+interface HttpEutilsClientOptions {
+  apiKey?: string;
+  /** Contact address NCBI asks callers to register with the tool name */
+  email?: string;
+  tool: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export class HttpEutilsClient implements EutilsClient {
+  readonly name = "eutils";
+  private readonly limiter: RateLimiter;
+
+  constructor(private readonly options: HttpEutilsClientOptions) {
+    this.limiter = new RateLimiter(options.apiKey ? 10 : 3);
+  }
+
+  async request(endpoint: EutilsEndpoint, params: EutilsParams): Promise<string> {
+    const { apiKey, email, tool, baseUrl = BASE_URL, timeoutMs = 15000, retries = 3 } = this.options;
+    const query = new URLSearchParams({
+      ...params,
+      tool,
+      ...(email ? { email } : {}),
+      ...(apiKey ? { api_key: apiKey } : {}),
+    });
+    const url = `${baseUrl}/${endpoint}.fcgi`;
+
+    return withRetry(
+      async () => {
+        await this.limiter.acquire();
+        // POST keeps long PMID lists out of the URL
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: query,
+        });
+        const body = await response.text();
+        if (!response.ok) {
+          throw new EutilsError(
+            response.status,
+            `E-utilities ${endpoint} returned ${response.status}: ${body.slice(0, 200)}`
+          );
+        }
+        return body;
+      },
+      { retries, timeoutMs, baseDelayMs: 1000, isRetryable }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Recorded E-utilities Responses
+ * Replays responses saved in a fixtures folder so PubMed code runs offline,
+ * and records them from a live client. Files are named after the endpoint
+ * and a hash of the request parameters; credentials are never part of it.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EutilsClient, EutilsEndpoint, EutilsParams } from "./pubmed.types";
+
+export function fixtureFileName(endpoint: EutilsEndpoint, params: EutilsParams): string {
+  const canonical = JSON.stringify(Object.entries(params).sort(([a], [b]) => a.localeCompare(b)));
+  const hash = createHash("sha256").update(`${endpoint}?${canonical}`).digest("hex").slice(0, 16);
+  return `${endpoint}-${hash}.${params.retmode === "json" ? "json" : "xml"}`;
+}
+
+export class FixtureEutilsClient implements EutilsClient {
+  readonly name = "eutils-fixtures";
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async request(endpoint: EutilsEndpoint, params: EutilsParams): Promise<string> {
+    const file = path.join(this.fixturesDir, fixtureFileName(endpoint, params));
+    try {
+      return await readFile(file, "utf8");
+    } catch {
+      throw new Error(
+        `No PubMed fixture for ${endpoint} ${JSON.stringify(params)} (${file}). ` +
+          "Record it with PUBMED_MODE=record."
+      );
+    }
+  }
+}
+
+/**
+ * Passes requests to a live client and saves each response as a fixture
+ */
+export class RecordingEutilsClient implements EutilsClient {
+  readonly name = "eutils-recording";
+
+  constructor(
+    private readonly live: EutilsClient,
+    private readonly fixturesDir: string
+  ) {}
+
+  async request(endpoint: EutilsEndpoint, params: EutilsParams): Promise<string> {
+    const body = await this.live.request(endpoint, params);
+    await mkdir(this.fixturesDir, { recursive: true });
+    await writeFile(path.join(this.fixturesDir, fixtureFileName(endpoint, params)), body, "utf8");
+    return body;
+  }
+}
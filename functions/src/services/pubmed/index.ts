@@ -0,0 +1,47 @@
+import path from "node:path";
+import { HttpEutilsClient } from "./eutils.client";
+import { FixtureEutilsClient, RecordingEutilsClient } from "./fixture.client";
+import type { EutilsClient } from "./pubmed.types";
+
+export type {
+  AbstractSection,
+  ArticleCorrection,
+  EutilsClient,
+  EutilsEndpoint,
+  EutilsParams,
+  PubMedArticle,
+  PubMedDateType,
+  PubMedIdPage,
+  PubMedSearchParams,
+} from "./pubmed.types";
+export { EutilsError } from "./eutils.client";
+export { articleUrl, parseArticleSet } from "./articles";
+
+/**
+ * Creates the E-utilities client selected by PUBMED_MODE
+ * (`live` | `record` | `replay`)
+ */
+export function createEutilsClient(): EutilsClient {
+  const mode = process.env.PUBMED_MODE || "live";
+  const fixturesDir = path.resolve(process.env.PUBMED_FIXTURES_DIR || "./fixtures/pubmed");
+
+  const live = () =>
+    new HttpEutilsClient({
+      apiKey: process.env.PUBMED_API_KEY || undefined,
+      email: process.env.PUBMED_EMAIL || undefined,
+      tool: process.env.PUBMED_TOOL || "umoyo-health-hub",
+      timeoutMs: parseInt(process.env.PUBMED_TIMEOUT_MS || "15000", 10),
+      retries: parseInt(process.env.PUBMED_MAX_RETRIES || "3", 10),
+    });
+
+  switch (mode) {
+    case "live":
+      return live();
+    case "record":
+      return new RecordingEutilsClient(live(), fixturesDir);
+    case "replay":
+      return new FixtureEutilsClient(fixturesDir);
+    default:
+      throw new Error(`Unknown PUBMED_MODE: ${mode}`);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * PubMed Types
+ * Articles parsed from PubMed XML and the E-utilities client contract
+ */
+
+/**
+ * One labelled part of a structured abstract ("BACKGROUND", "METHODS", ...).
+ * Unstructured abstracts have a single unlabelled section.
+ */
+export interface AbstractSection {
+  label?: string;
+  /** NLM category the label maps to, e.g. OBJECTIVE or RESULTS */
+  category?: string;
+  text: string;
+}
+
+/**
+ * Link to a related record, e.g. `{ type: "RetractionIn", pmid: "..." }` on
+ * a retracted article or `{ type: "ErratumFor", ... }` on an erratum notice
+ */
+export interface ArticleCorrection {
+  type: string;
+  pmid?: string;
+}
+
+export interface PubMedArticle {
+  pmid: string;
+  title: string;
+  /** Abstract as plain text, sections prefixed with their label */
+  abstract: string;
+  abstractSections: AbstractSection[];
+  /** "Last Initials", or the group name for collective authors */
+  authors: string[];
+  journal: string;
+  journalAbbreviation?: string;
+  /** `YYYY-MM-DD`, `YYYY-MM` or `YYYY`, as precise as the record allows */
+  publicationDate: string;
+  doi?: string;
+  pmcid?: string;
+  language?: string;
+  /** E.g. "Randomized Controlled Trial", "Practice Guideline", "Retracted Publication" */
+  publicationTypes: string[];
+  meshTerms: string[];
+  /** Errata, retractions and other comment/correction links */
+  corrections: ArticleCorrection[];
+  url: string;
+}
+
+/** Which date `dateFrom`/`dateTo` apply to */
+export type PubMedDateType = "pdat" | "edat" | "mdat";
+
+export interface PubMedSearchParams {
+  query: string;
+  maxResults?: number;
+  /** Number of matching PMIDs to skip, for paging */
+  offset?: number;
+  /** Inclusive start date, `YYYY-MM-DD` or `YYYY/MM/DD` */
+  dateFrom?: string;
+  /** Inclusive end date, `YYYY-MM-DD` or `YYYY/MM/DD` */
+  dateTo?: string;
+  /** Publication (default), Entrez or modification date */
+  dateType?: PubMedDateType;
+  sort?: "relevance" | "pub_date";
+}
+
+export interface PubMedIdPage {
+  /** Total PMIDs matching the query */
+  count: number;
+  pmids: string[];
+}
+
+export type EutilsEndpoint = "esearch" | "efetch";
+
+export type EutilsParams = Record<string, string>;
+
+/**
+ * Sends one E-utilities request and returns the raw response body
+ */
+export interface EutilsClient {
+  readonly name: string;
+  request(endpoint: EutilsEndpoint, params: EutilsParams): Promise<string>;
+}
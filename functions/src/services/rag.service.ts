@@ -1,37 +1,50 @@
 /**
- * RAG Service - Vertex AI RAG Integration
- * Handles retrieval of relevant documents from the RAG corpus
+ * RAG Service
+ * Handles retrieval of relevant documents from the configured retrieval backend
  */
 
-interface SearchContext {
-  category?: string;
-  language?: string;
-  audience?: string;
-  region?: string;
-}
+import type { DocumentDetail, DocumentSource } from "@umoyo/shared";
+import {
+  applyVersionPolicy,
+  createRetrievalBackend,
+  findReplacements,
+  type RetrievalBackend,
+  type RetrievedChunk,
+  type SearchContext,
+  type SearchOptions,
+  type VersionPolicy,
+} from "./retrieval";
 
-interface SearchOptions {
-  limit?: number;
-  offset?: number;
-}
+/**
+ * Extra chunks requested when the version policy may drop some, so the
+ * caller still gets `topK`
+ */
+const VERSION_OVERFETCH_FACTOR = 2;
 
-interface DocumentSource {
-  documentId: string;
-  documentTitle: string;
-  pageNumber?: number;
-  excerpt: string;
-  relevanceScore?: number;
+/**
+ * SUPERSEDED_DOCUMENTS selects how replaced guideline versions are treated
+ * (`downrank` by default)
+ */
+function versionPolicy(): VersionPolicy {
+  const policy = process.env.SUPERSEDED_DOCUMENTS || "downrank";
+  if (policy !== "exclude" && policy !== "downrank" && policy !== "include") {
+    throw new Error(`Unknown SUPERSEDED_DOCUMENTS: ${policy}`);
+  }
+  return policy;
 }
 
 class RAGService {
-  private projectId: string;
-  private location: string;
-  private corpusName: string;
-
-  constructor() {
-    this.projectId = process.env.GCP_PROJECT_ID || "";
-    this.location = process.env.GCP_LOCATION || "us-central1";
-    this.corpusName = process.env.RAG_CORPUS_NAME || "umoyo-health-corpus";
+  private backend: RetrievalBackend | null = null;
+
+  /**
+   * Retrieval backends are created lazily so configuration errors surface
+   * on the first query instead of at cold start
+   */
+  private getBackend(): RetrievalBackend {
+    if (!this.backend) {
+      this.backend = createRetrievalBackend();
+    }
+    return this.backend;
   }
 
   async searchDocuments(
@@ -39,15 +52,73 @@ class RAGService {
     context?: SearchContext,
     options?: SearchOptions
   ): Promise<DocumentSource[]> {
-    // TODO: Implement Vertex AI RAG query
-    // 1. Initialize Vertex AI client
-    // 2. Query RAG corpus with query string and filters
-    // 3. Process and return relevant documents with excerpts
-    
-    console.log("RAG search:", { query, context, options });
-    throw new Error("RAG service not implemented yet");
+    const limit = options?.limit ?? 5;
+    const offset = options?.offset ?? 0;
+
+    const chunks = await this.retrieveChunks(query, offset + limit, context);
+
+    return chunks.slice(offset, offset + limit).map((chunk) => ({
+      documentId: chunk.metadata.documentId,
+      documentTitle: chunk.metadata.title,
+      chunkId: chunk.chunkId,
+      pageNumber: chunk.pageNumber,
+      sectionPath: chunk.sectionPath,
+      excerpt: chunk.text,
+      relevanceScore: chunk.score,
+      status: chunk.status,
+      replacedBy: chunk.replacedBy && {
+        documentId: chunk.replacedBy.documentId,
+        documentTitle: chunk.replacedBy.title,
+      },
+    }));
+  }
+
+  async getDocument(documentId: string): Promise<DocumentDetail | null> {
+    return this.getBackend().getDocument(documentId);
+  }
+
+  /**
+   * Ranked chunks with their document metadata, for callers that filter
+   * and group results themselves. Chunks from replaced guideline versions
+   * are flagged and handled by the version policy.
+   */
+  async retrieveChunks(
+    query: string,
+    topK: number,
+    context?: SearchContext
+  ): Promise<RetrievedChunk[]> {
+    const backend = this.getBackend();
+    const policy = versionPolicy();
+    const retrieved = await backend.retrieve(query, {
+      context,
+      topK: policy === "include" ? topK : topK * VERSION_OVERFETCH_FACTOR,
+    });
+
+    const documentIds = [...new Set(retrieved.map((chunk) => chunk.metadata.documentId))];
+    const today = new Date().toISOString().slice(0, 10);
+    const replacements = await findReplacements(backend, documentIds, today);
+    const chunks = applyVersionPolicy(retrieved, replacements, policy).slice(0, topK);
+    if (process.env.RETRIEVAL_DEBUG === "true") {
+      logScores(query, chunks);
+    }
+    return chunks;
   }
 }
 
-export const ragService = new RAGService();
+/**
+ * Logs each chunk's final score with the per-stage ranks and scores behind it
+ */
+function logScores(query: string, chunks: RetrievedChunk[]) {
+  console.log(
+    `Retrieval scores for "${query}":`,
+    JSON.stringify(
+      chunks.map((chunk) => ({
+        chunkId: chunk.chunkId,
+        score: chunk.score,
+        ...chunk.scores,
+      }))
+    )
+  );
+}
 
+export const ragService = new RAGService();
@@ -0,0 +1,110 @@
+/**
+ * Okapi BM25 lexical index over in-memory chunks
+ */
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it",
+  "of", "on", "or", "that", "the", "to", "was", "what", "when", "which", "with",
+]);
+
+/**
+ * Lowercases and splits text into word tokens, keeping numbers so
+ * dosages and regimen codes remain searchable
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token));
+}
+
+interface IndexedEntry {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export class Bm25Index {
+  private entries: IndexedEntry[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {}
+
+  /**
+   * Adds a text and returns its position in the index
+   */
+  add(text: string): number {
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+    }
+    this.entries.push({ termFrequencies, length: tokens.length });
+    this.totalLength += tokens.length;
+    return this.entries.length - 1;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Scores a single indexed entry against the query terms
+   */
+  score(queryTerms: string[], position: number): number {
+    const entry = this.entries[position];
+    if (!entry || this.entries.length === 0) {
+      return 0;
+    }
+
+    const averageLength = this.totalLength / this.entries.length || 1;
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = entry.termFrequencies.get(term);
+      if (!frequency) continue;
+
+      const idf = this.idf(term);
+      const normalisedLength = 1 - this.b + this.b * (entry.length / averageLength);
+      score += (idf * frequency * (this.k1 + 1)) / (frequency + this.k1 * normalisedLength);
+    }
+
+    return score;
+  }
+
+  /**
+   * Share of the query's IDF weight found in the entry (0..1). Unlike the
+   * BM25 score it does not depend on the other results, so it can be
+   * compared across queries.
+   */
+  coverage(queryTerms: string[], position: number): number {
+    const entry = this.entries[position];
+    if (!entry) {
+      return 0;
+    }
+
+    let total = 0;
+    let matched = 0;
+    for (const term of new Set(queryTerms)) {
+      const weight = this.idf(term);
+      total += weight;
+      if (entry.termFrequencies.has(term)) {
+        matched += weight;
+      }
+    }
+    return total === 0 ? 0 : matched / total;
+  }
+
+  private idf(term: string): number {
+    const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+    return Math.log(
+      1 + (this.entries.length - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Local embedding support for the in-memory retrieval backend
+ */
+
+import { tokenize } from "./bm25";
+
+export interface Embedder {
+  readonly dimensions: number;
+  embed(text: string): number[];
+}
+
+/**
+ * Deterministic feature-hashing embedder. It needs no model download,
+ * which keeps the local backend usable fully offline.
+ */
+export class HashingEmbedder implements Embedder {
+  constructor(readonly dimensions = 256) {}
+
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    for (const token of tokens) {
+      const hash = fnv1a(token);
+      const sign = hash & 1 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    return normalise(vector);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalise(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,69 @@
+import type { DocumentMetadata } from "@umoyo/shared";
+import type { SearchContext, SearchFilters } from "./retrieval.types";
+
+/**
+ * Checks whether a document satisfies the search context filters.
+ * Documents tagged for `both` audiences match any audience filter.
+ */
+export function matchesContext(metadata: DocumentMetadata, context?: SearchContext): boolean {
+  if (!context) {
+    return true;
+  }
+  if (context.category && metadata.category !== context.category) {
+    return false;
+  }
+  if (context.language && metadata.language !== context.language) {
+    return false;
+  }
+  if (context.audience && metadata.audience !== "both" && metadata.audience !== context.audience) {
+    return false;
+  }
+  if (context.region && metadata.region !== context.region) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Multi-value variant of `matchesContext` used by document search.
+ * `ignore` skips one field, which is how facet counts stay disjunctive.
+ */
+export function matchesFilters(
+  metadata: DocumentMetadata,
+  filters: SearchFilters,
+  ignore?: keyof SearchFilters
+): boolean {
+  const selected = (field: keyof Omit<SearchFilters, "lastUpdated">) =>
+    field === ignore ? undefined : filters[field]?.length ? filters[field] : undefined;
+
+  const categories = selected("category");
+  if (categories && !categories.includes(metadata.category)) {
+    return false;
+  }
+  const languages = selected("language");
+  if (languages && !languages.includes(metadata.language)) {
+    return false;
+  }
+  const audiences = selected("audience");
+  if (audiences && metadata.audience !== "both" && !audiences.includes(metadata.audience)) {
+    return false;
+  }
+  const regions = selected("region");
+  if (regions && !regions.includes(metadata.region)) {
+    return false;
+  }
+  const tags = selected("tags");
+  if (tags && !tags.some((tag) => metadata.tags?.includes(tag))) {
+    return false;
+  }
+
+  const range = ignore === "lastUpdated" ? undefined : filters.lastUpdated;
+  const updated = metadata.lastUpdated.slice(0, 10);
+  if (range?.from && updated < range.from) {
+    return false;
+  }
+  if (range?.to && updated > range.to) {
+    return false;
+  }
+  return true;
+}
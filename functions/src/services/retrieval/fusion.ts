@@ -0,0 +1,54 @@
+/**
+ * Weighted reciprocal rank fusion of several rankings of the same corpus
+ */
+
+import type { RetrievedChunk, StageScore } from "./retrieval.types";
+
+/** Dampens the lead of top ranks; 60 is the value from the original RRF paper */
+export const DEFAULT_RRF_K = 60;
+
+export interface RankedStage {
+  name: string;
+  weight: number;
+  /** Best first */
+  chunks: RetrievedChunk[];
+}
+
+/**
+ * Backends number chunks differently, so the same passage is recognised
+ * by its document and text
+ */
+function fusionKey(chunk: RetrievedChunk): string {
+  return `${chunk.metadata.documentId}\u0000${chunk.text.replace(/\s+/g, " ").trim().toLowerCase()}`;
+}
+
+/**
+ * Scores each chunk by the sum of `weight / (k + rank)` over the stages
+ * that returned it. The chunk's `score` becomes the best stage score, so
+ * relevance thresholds keep working; fusion only decides the order.
+ */
+export function reciprocalRankFusion(
+  stages: RankedStage[],
+  k = DEFAULT_RRF_K
+): RetrievedChunk[] {
+  const fused = new Map<string, { chunk: RetrievedChunk; stages: Record<string, StageScore>; fused: number }>();
+
+  for (const stage of stages) {
+    stage.chunks.forEach((chunk, index) => {
+      const key = fusionKey(chunk);
+      const entry = fused.get(key) ?? { chunk, stages: {}, fused: 0 };
+      const rank = index + 1;
+      entry.stages[stage.name] = { rank, score: chunk.score };
+      entry.fused += stage.weight / (k + rank);
+      fused.set(key, entry);
+    });
+  }
+
+  return [...fused.values()]
+    .map(({ chunk, stages: stageScores, fused: fusedScore }) => ({
+      ...chunk,
+      score: Math.max(...Object.values(stageScores).map((stage) => stage.score)),
+      scores: { stages: stageScores, fused: fusedScore },
+    }))
+    .sort((a, b) => b.scores.fused - a.scores.fused || b.score - a.score);
+}
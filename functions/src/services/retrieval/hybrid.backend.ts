@@ -0,0 +1,122 @@
+/**
+ * Hybrid Retrieval Backend
+ * Runs a lexical and a semantic backend in parallel, fuses their rankings
+ * with reciprocal rank fusion and optionally reranks the top of the list
+ */
+
+import type { DocumentDetail, DocumentMetadata } from "@umoyo/shared";
+import { DEFAULT_RRF_K, reciprocalRankFusion } from "./fusion";
+import type { Reranker } from "./rerankers";
+import type { RetrievalBackend, RetrievedChunk, RetrieveRequest } from "./retrieval.types";
+
+export interface HybridStage {
+  /** Key for the stage's scores in debug output */
+  name: string;
+  backend: RetrievalBackend;
+  /** Multiplies the stage's reciprocal rank contribution */
+  weight: number;
+}
+
+interface HybridBackendOptions {
+  stages: HybridStage[];
+  rrfK?: number;
+  reranker?: Reranker;
+  /** Number of fused chunks passed to the reranker */
+  rerankTopK?: number;
+}
+
+export class HybridRetrievalBackend implements RetrievalBackend {
+  readonly name = "hybrid";
+
+  constructor(private readonly options: HybridBackendOptions) {}
+
+  async retrieve(query: string, request: RetrieveRequest): Promise<RetrievedChunk[]> {
+    const { stages, rrfK = DEFAULT_RRF_K, reranker, rerankTopK = 20 } = this.options;
+    const candidates = Math.max(request.topK, reranker ? rerankTopK : 0);
+
+    // One failing stage degrades to the others rather than failing the query
+    const settled = await Promise.allSettled(
+      stages.map((stage) => stage.backend.retrieve(query, { ...request, topK: candidates }))
+    );
+    const ranked = stages.flatMap((stage, index) => {
+      const outcome = settled[index];
+      if (outcome.status === "fulfilled") {
+        return [{ name: stage.name, weight: stage.weight, chunks: outcome.value }];
+      }
+      console.warn(`Retrieval stage ${stage.name} failed:`, outcome.reason);
+      return [];
+    });
+    if (ranked.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    const fused = reciprocalRankFusion(ranked, rrfK);
+    const reranked = reranker ? await this.rerank(reranker, query, fused, rerankTopK) : fused;
+    return reranked.slice(0, request.topK);
+  }
+
+  /**
+   * Asks each stage in turn; the lexical stage usually has the full text
+   */
+  async getDocument(documentId: string): Promise<DocumentDetail | null> {
+    for (const { backend } of this.options.stages) {
+      const document = await backend.getDocument(documentId);
+      if (document) {
+        return document;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Merges every stage's answer, since a stage may miss documents the
+   * other holds
+   */
+  async getSuccessors(documentIds: string[]): Promise<DocumentMetadata[]> {
+    const settled = await Promise.allSettled(
+      this.options.stages.map(({ backend }) => backend.getSuccessors(documentIds))
+    );
+    const successors = new Map<string, DocumentMetadata>();
+    for (const outcome of settled) {
+      if (outcome.status === "rejected") {
+        console.warn("Successor lookup failed:", outcome.reason);
+        continue;
+      }
+      outcome.value.forEach((metadata) => successors.set(metadata.documentId, metadata));
+    }
+    return [...successors.values()];
+  }
+
+  /**
+   * Reorders the top `topK` chunks by reranker relevance, which also
+   * becomes their score. Keeps the fused order if the reranker fails.
+   */
+  private async rerank(
+    reranker: Reranker,
+    query: string,
+    fused: RetrievedChunk[],
+    topK: number
+  ): Promise<RetrievedChunk[]> {
+    const head = fused.slice(0, topK);
+    if (head.length === 0) {
+      return fused;
+    }
+
+    let relevance: number[];
+    try {
+      relevance = await reranker.rerank(query, head);
+    } catch (error) {
+      console.warn(`Reranker ${reranker.name} failed, keeping fused order:`, error);
+      return fused;
+    }
+
+    const reranked = head
+      .map((chunk, index) => ({
+        ...chunk,
+        score: relevance[index],
+        scores: chunk.scores && { ...chunk.scores, rerank: relevance[index] },
+      }))
+      .sort((a, b) => b.score - a.score);
+    return [...reranked, ...fused.slice(topK)];
+  }
+}
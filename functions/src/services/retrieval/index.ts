@@ -0,0 +1,123 @@
+import path from "node:path";
+import { HashingEmbedder } from "./embeddings";
+import { HybridRetrievalBackend } from "./hybrid.backend";
+import { LocalCorpus, LocalRetrievalBackend } from "./local.backend";
+import { LlmReranker, VertexRanker, type Reranker } from "./rerankers";
+import { VertexRetrievalBackend } from "./vertex.backend";
+import type { RetrievalBackend } from "./retrieval.types";
+
+export type {
+  RetrievalBackend,
+  RetrievalScores,
+  RetrievedChunk,
+  RetrieveRequest,
+  SearchContext,
+  SearchFilters,
+  SearchOptions,
+  StageScore,
+} from "./retrieval.types";
+export type { Reranker } from "./rerankers";
+export type { VersionPolicy } from "./versions";
+export { matchesContext, matchesFilters } from "./filters";
+export { tokenize } from "./bm25";
+export { reciprocalRankFusion } from "./fusion";
+export { applyVersionPolicy, findReplacements } from "./versions";
+
+/**
+ * Creates the retrieval backend selected by RETRIEVAL_BACKEND
+ * (`vertex` | `local` | `hybrid`)
+ */
+export function createRetrievalBackend(): RetrievalBackend {
+  const backend = process.env.RETRIEVAL_BACKEND || "vertex";
+
+  switch (backend) {
+    case "local":
+      return new LocalRetrievalBackend({
+        corpus: createLocalCorpus(process.env.LOCAL_EMBEDDINGS === "hashing"),
+      });
+    case "vertex":
+      return createVertexBackend();
+    case "hybrid":
+      return createHybridBackend();
+    default:
+      throw new Error(`Unknown RETRIEVAL_BACKEND: ${backend}`);
+  }
+}
+
+function createLocalCorpus(withEmbeddings: boolean): LocalCorpus {
+  return new LocalCorpus(
+    path.resolve(process.env.LOCAL_CORPUS_DIR || "corpus"),
+    withEmbeddings ? new HashingEmbedder() : undefined
+  );
+}
+
+function createVertexBackend(): VertexRetrievalBackend {
+  return new VertexRetrievalBackend({
+    projectId: process.env.GCP_PROJECT_ID || "",
+    location: process.env.GCP_LOCATION || "us-central1",
+    corpusName: process.env.RAG_CORPUS_NAME || "umoyo-health-corpus",
+  });
+}
+
+/**
+ * BM25 over the local corpus plus a semantic stage: Vertex RAG, or local
+ * hashing embeddings when HYBRID_SEMANTIC=local
+ */
+function createHybridBackend(): HybridRetrievalBackend {
+  const semanticLocal = process.env.HYBRID_SEMANTIC === "local";
+  const corpus = createLocalCorpus(semanticLocal);
+  const weights = parseFusionWeights(process.env.FUSION_WEIGHTS);
+
+  return new HybridRetrievalBackend({
+    stages: [
+      {
+        name: "lexical",
+        backend: new LocalRetrievalBackend({ corpus, mode: "lexical" }),
+        weight: weights.lexical ?? 1,
+      },
+      {
+        name: "semantic",
+        backend: semanticLocal
+          ? new LocalRetrievalBackend({ corpus, mode: "semantic" })
+          : createVertexBackend(),
+        weight: weights.semantic ?? 1,
+      },
+    ],
+    rrfK: parseInt(process.env.RRF_K || "60", 10),
+    reranker: createReranker(process.env.RERANKER),
+    rerankTopK: parseInt(process.env.RERANK_TOP_K || "20", 10),
+  });
+}
+
+/**
+ * Parses "lexical=1,semantic=0.5"
+ */
+function parseFusionWeights(value: string | undefined): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const entry of (value ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const [name, weight] = entry.split("=").map((part) => part.trim());
+    const parsed = Number(weight);
+    if (!name || !Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid FUSION_WEIGHTS entry: ${entry}`);
+    }
+    weights[name] = parsed;
+  }
+  return weights;
+}
+
+function createReranker(name: string | undefined): Reranker | undefined {
+  switch (name || "none") {
+    case "none":
+      return undefined;
+    case "llm":
+      return new LlmReranker();
+    case "vertex":
+      return new VertexRanker({
+        projectId: process.env.GCP_PROJECT_ID || "",
+        model: process.env.RERANK_MODEL || "semantic-ranker-default@latest",
+      });
+    default:
+      throw new Error(`Unknown RERANKER: ${name}`);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Local Retrieval Backend
+ * In-memory BM25 index (plus optional local embeddings) loaded from a folder
+ * of chunked corpus documents. Used for offline development and testing,
+ * and as the lexical stage of hybrid retrieval.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { corpusDocumentSchema } from "@umoyo/shared";
+import type { DocumentDetail, DocumentMetadata } from "@umoyo/shared";
+import { Bm25Index, tokenize } from "./bm25";
+import { cosineSimilarity, type Embedder } from "./embeddings";
+import { matchesContext } from "./filters";
+import type { RetrievalBackend, RetrievedChunk, RetrieveRequest } from "./retrieval.types";
+
+interface IndexedChunk {
+  metadata: DocumentMetadata;
+  chunkId: string;
+  text: string;
+  pageNumber?: number;
+  sectionPath?: string[];
+  embedding?: number[];
+}
+
+/**
+ * Chunks and indexes loaded once from `corpusDir`, shared by every local
+ * backend created over the same folder
+ */
+export class LocalCorpus {
+  private loading: Promise<void> | null = null;
+  readonly chunks: IndexedChunk[] = [];
+  readonly index = new Bm25Index();
+
+  constructor(
+    private readonly corpusDir: string,
+    readonly embedder?: Embedder
+  ) {}
+
+  /**
+   * Loads every `*.json` corpus document in the corpus directory once
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadCorpus().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadCorpus(): Promise<void> {
+    const { corpusDir, embedder } = this;
+    const files = (await readdir(corpusDir)).filter((file) => file.endsWith(".json")).sort();
+
+    for (const file of files) {
+      const raw = JSON.parse(await readFile(path.join(corpusDir, file), "utf8"));
+      const parsed = corpusDocumentSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.warn(`Skipping invalid corpus document ${file}:`, parsed.error.issues);
+        continue;
+      }
+
+      for (const chunk of parsed.data.chunks) {
+        const embedding =
+          embedder &&
+          (chunk.embedding?.length === embedder.dimensions
+            ? chunk.embedding
+            : embedder.embed(chunk.text));
+        this.chunks.push({
+          metadata: parsed.data.metadata,
+          chunkId: chunk.chunkId,
+          text: chunk.text,
+          pageNumber: chunk.pageNumber,
+          sectionPath: chunk.sectionPath,
+          embedding,
+        });
+        this.index.add(chunk.text);
+      }
+    }
+
+    console.log(`Local retrieval index loaded: ${this.chunks.length} chunks from ${files.length} files`);
+  }
+
+  async getSuccessors(documentIds: string[]): Promise<DocumentMetadata[]> {
+    await this.load();
+    const successors = new Map<string, DocumentMetadata>();
+    for (const { metadata } of this.chunks) {
+      if (metadata.supersedes?.some((documentId) => documentIds.includes(documentId))) {
+        successors.set(metadata.documentId, metadata);
+      }
+    }
+    return [...successors.values()];
+  }
+
+  /**
+   * Chunks are stored in file order, which is reading order
+   */
+  async getDocument(documentId: string): Promise<DocumentDetail | null> {
+    await this.load();
+    const chunks = this.chunks.filter((chunk) => chunk.metadata.documentId === documentId);
+    if (chunks.length === 0) {
+      return null;
+    }
+    return {
+      metadata: chunks[0].metadata,
+      chunks: chunks.map(({ chunkId, text, pageNumber, sectionPath }) => ({
+        chunkId,
+        text,
+        pageNumber,
+        sectionPath,
+      })),
+    };
+  }
+}
+
+/**
+ * - `combined`: ranked by BM25 (relative to the best match) blended with
+ *   embeddings by `semanticWeight`; scored by the same blend of query
+ *   term coverage and cosine similarity, which does not depend on the
+ *   other results.
+ * - `lexical`: ranked by BM25, scored by the share of query terms present.
+ * - `semantic`: ranked and scored by embedding cosine similarity.
+ */
+export type LocalRetrievalMode = "combined" | "lexical" | "semantic";
+
+interface LocalBackendOptions {
+  corpus: LocalCorpus;
+  mode?: LocalRetrievalMode;
+  /** Weight of the embedding score in `combined` mode (0..1) */
+  semanticWeight?: number;
+}
+
+export class LocalRetrievalBackend implements RetrievalBackend {
+  readonly name: string;
+
+  constructor(private readonly options: LocalBackendOptions) {
+    const mode = options.mode ?? "combined";
+    if (mode === "semantic" && !options.corpus.embedder) {
+      throw new Error("Semantic local retrieval needs an embedder");
+    }
+    this.name = mode === "combined" ? "local" : `local-${mode}`;
+  }
+
+  async retrieve(query: string, request: RetrieveRequest): Promise<RetrievedChunk[]> {
+    const { corpus } = this.options;
+    await corpus.load();
+
+    const mode = this.options.mode ?? "combined";
+    const queryTerms = tokenize(query);
+    const queryEmbedding = mode === "lexical" ? undefined : corpus.embedder?.embed(query);
+    const semanticWeight = {
+      combined: queryEmbedding ? this.options.semanticWeight ?? 0.5 : 0,
+      lexical: 0,
+      semantic: 1,
+    }[mode];
+
+    const candidates: Array<{
+      chunk: IndexedChunk;
+      position: number;
+      lexical: number;
+      semantic: number;
+    }> = [];
+    corpus.chunks.forEach((chunk, position) => {
+      if (!matchesContext(chunk.metadata, request.context)) return;
+
+      const lexical = semanticWeight < 1 ? corpus.index.score(queryTerms, position) : 0;
+      const semantic =
+        queryEmbedding && chunk.embedding
+          ? Math.max(0, cosineSimilarity(queryEmbedding, chunk.embedding))
+          : 0;
+      if (lexical > 0 || semantic > 0) {
+        candidates.push({ chunk, position, lexical, semantic });
+      }
+    });
+
+    const maxLexical = Math.max(0, ...candidates.map((candidate) => candidate.lexical)) || 1;
+
+    return candidates
+      .map(({ chunk, position, lexical, semantic }) => {
+        const blended = (1 - semanticWeight) * (lexical / maxLexical) + semanticWeight * semantic;
+        // The evidence gate needs an absolute score: the best match would always be 1.0
+        const coverage = semanticWeight < 1 ? corpus.index.coverage(queryTerms, position) : 0;
+        return {
+          chunk,
+          sortKey: mode === "lexical" ? lexical : blended,
+          score: (1 - semanticWeight) * coverage + semanticWeight * semantic,
+        };
+      })
+      .sort((a, b) => b.sortKey - a.sortKey)
+      .slice(0, request.topK)
+      .map(({ chunk, score }) => ({
+        metadata: chunk.metadata,
+        chunkId: chunk.chunkId,
+        text: chunk.text,
+        pageNumber: chunk.pageNumber,
+        sectionPath: chunk.sectionPath,
+        score,
+      }));
+  }
+
+  getDocument(documentId: string): Promise<DocumentDetail | null> {
+    return this.options.corpus.getDocument(documentId);
+  }
+
+  getSuccessors(documentIds: string[]): Promise<DocumentMetadata[]> {
+    return this.options.corpus.getSuccessors(documentIds);
+  }
+}
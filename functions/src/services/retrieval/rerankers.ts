@@ -0,0 +1,120 @@
+/**
+ * Rerankers rescore the top fused chunks against the query. They see the
+ * query and passage together, which rank fusion cannot.
+ */
+
+import { applicationDefault } from "firebase-admin/app";
+import { geminiService } from "../gemini.service";
+import { TimeoutError, withRetry } from "../../utils/retry";
+import type { RetrievedChunk } from "./retrieval.types";
+
+export interface Reranker {
+  readonly name: string;
+  /** Relevance (0..1) for each chunk, in the order given */
+  rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]>;
+}
+
+/**
+ * Asks the configured LLM to grade each passage
+ */
+export class LlmReranker implements Reranker {
+  readonly name = "llm";
+
+  async rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]> {
+    return geminiService.rerank(
+      query,
+      chunks.map((chunk) => ({
+        documentId: chunk.metadata.documentId,
+        documentTitle: chunk.metadata.title,
+        pageNumber: chunk.pageNumber,
+        excerpt: chunk.text,
+        relevanceScore: chunk.score,
+      }))
+    );
+  }
+}
+
+interface VertexRankerOptions {
+  projectId: string;
+  /** Vertex AI ranking model, a cross-encoder */
+  model: string;
+  timeoutMs?: number;
+}
+
+interface RankResponse {
+  records?: Array<{ id: string; score?: number }>;
+}
+
+export class RankingError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "RankingError";
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof RankingError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Network failures surface from fetch as TypeError
+  return error instanceof TimeoutError || error instanceof TypeError;
+}
+
+/**
+ * Cross-encoder reranking with the Vertex AI ranking API
+ */
+export class VertexRanker implements Reranker {
+  readonly name = "vertex-ranking";
+
+  constructor(private readonly options: VertexRankerOptions) {}
+
+  async rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]> {
+    const { projectId, model, timeoutMs = 10000 } = this.options;
+    if (!projectId) {
+      throw new Error("GCP_PROJECT_ID is required for the Vertex ranker");
+    }
+
+    const url =
+      `https://discoveryengine.googleapis.com/v1/projects/${projectId}` +
+      "/locations/global/rankingConfigs/default_ranking_config:rank";
+    const body = JSON.stringify({
+      model,
+      query,
+      records: chunks.map((chunk, index) => ({
+        id: String(index),
+        title: chunk.metadata.title,
+        content: chunk.text,
+      })),
+      ignoreRecordDetailsInResponse: true,
+    });
+
+    const response = await withRetry(
+      async () => {
+        const { access_token: token } = await applicationDefault().getAccessToken();
+        const result = await fetch(url, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+          body,
+        });
+        if (!result.ok) {
+          throw new RankingError(
+            result.status,
+            `Ranking API returned ${result.status}: ${await result.text()}`
+          );
+        }
+        return (await result.json()) as RankResponse;
+      },
+      { retries: 1, timeoutMs, isRetryable }
+    );
+
+    // Records the API leaves out are treated as irrelevant
+    const scores = new Array<number>(chunks.length).fill(0);
+    for (const record of response.records ?? []) {
+      scores[Number(record.id)] = record.score ?? 0;
+    }
+    return scores;
+  }
+}
@@ -0,0 +1,79 @@
+import type { DocumentDetail, DocumentMetadata } from "@umoyo/shared";
+
+export interface SearchContext {
+  category?: string;
+  language?: string;
+  audience?: string;
+  region?: string;
+}
+
+/**
+ * Multi-value filters for document search. Values within a field are
+ * ORed, fields are ANDed. Date bounds are inclusive `YYYY-MM-DD`.
+ */
+export interface SearchFilters {
+  category?: string[];
+  language?: string[];
+  audience?: string[];
+  region?: string[];
+  tags?: string[];
+  lastUpdated?: { from?: string; to?: string };
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface RetrieveRequest {
+  context?: SearchContext;
+  /** Number of ranked chunks to return after filtering */
+  topK: number;
+}
+
+export interface RetrievedChunk {
+  metadata: DocumentMetadata;
+  /** Id of the stored chunk, so the viewer can highlight it; absent when unknown */
+  chunkId?: string;
+  text: string;
+  pageNumber?: number;
+  /** Headings above the chunk, outermost first */
+  sectionPath?: string[];
+  /** Relevance normalised to 0..1, higher is better */
+  score: number;
+  /** How each stage ranked the chunk; set by hybrid retrieval */
+  scores?: RetrievalScores;
+  /** Set when the document is no longer current */
+  status?: "superseded" | "withdrawn";
+  /** The in-force document that replaced this one, when known */
+  replacedBy?: DocumentMetadata;
+}
+
+export interface StageScore {
+  /** 1-based position in the stage's ranking */
+  rank: number;
+  score: number;
+}
+
+export interface RetrievalScores {
+  /** Keyed by stage name, e.g. `lexical` or `semantic` */
+  stages: Record<string, StageScore>;
+  /** Weighted reciprocal rank fusion score */
+  fused: number;
+  /** Reranker relevance (0..1) for chunks that were reranked */
+  rerank?: number;
+}
+
+/**
+ * A retrieval backend returns the highest-ranked chunks that match the
+ * search context. Implementations must apply `matchesContext` so filters
+ * behave the same regardless of backend.
+ */
+export interface RetrievalBackend {
+  readonly name: string;
+  retrieve(query: string, request: RetrieveRequest): Promise<RetrievedChunk[]>;
+  /** The whole document with chunks in reading order, or null if unknown */
+  getDocument(documentId: string): Promise<DocumentDetail | null>;
+  /** Documents whose `supersedes` names any of the given ids */
+  getSuccessors(documentIds: string[]): Promise<DocumentMetadata[]>;
+}
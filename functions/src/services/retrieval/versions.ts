@@ -0,0 +1,108 @@
+/**
+ * Guideline Versions
+ * Works out which retrieved documents have been replaced, by their own
+ * `status` or by a newer document that `supersedes` them, and applies the
+ * version policy to the ranking
+ */
+
+import type { DocumentMetadata, DocumentStatus } from "@umoyo/shared";
+import type { RetrievalBackend, RetrievedChunk } from "./retrieval.types";
+
+/**
+ * - `exclude`: superseded and withdrawn documents are dropped.
+ * - `downrank`: superseded documents stay, scored lower, flagged and moved
+ *   after current ones; withdrawn documents are dropped.
+ * - `include`: every document is kept and flagged.
+ */
+export type VersionPolicy = "exclude" | "downrank" | "include";
+
+/** Multiplies the score of superseded chunks under `downrank` */
+const SUPERSEDED_PENALTY = 0.5;
+
+/** Bounds how far `supersedes` links are followed, in case of cycles */
+const MAX_LINEAGE_DEPTH = 5;
+
+/** Whether a document is current and has taken effect by `date` (YYYY-MM-DD) */
+export function isInForce(metadata: DocumentMetadata, date: string): boolean {
+  return (
+    (metadata.status ?? "current") === "current" &&
+    (!metadata.effectiveFrom || metadata.effectiveFrom.slice(0, 10) <= date)
+  );
+}
+
+function newest(documents: DocumentMetadata[]): DocumentMetadata | undefined {
+  const effective = (document: DocumentMetadata) => document.effectiveFrom ?? document.lastUpdated;
+  return [...documents].sort((a, b) => effective(b).localeCompare(effective(a)))[0];
+}
+
+/**
+ * Maps each document id to the latest in-force version that replaces it,
+ * following chains such as 2016 → 2019 → 2023
+ */
+export async function findReplacements(
+  backend: RetrievalBackend,
+  documentIds: string[],
+  date: string
+): Promise<Map<string, DocumentMetadata>> {
+  const replacements = new Map<string, DocumentMetadata>();
+  // Latest version reached so far → the retrieved ids it replaces
+  let frontier = new Map(documentIds.map((documentId) => [documentId, [documentId]]));
+
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.size > 0; depth++) {
+    const successors = (await backend.getSuccessors([...frontier.keys()])).filter((document) =>
+      isInForce(document, date)
+    );
+    const next = new Map<string, string[]>();
+    for (const [documentId, origins] of frontier) {
+      const successor = newest(
+        successors.filter((document) => document.supersedes?.includes(documentId))
+      );
+      if (!successor) continue;
+      origins.forEach((origin) => replacements.set(origin, successor));
+      next.set(successor.documentId, [...(next.get(successor.documentId) ?? []), ...origins]);
+    }
+    frontier = next;
+  }
+  return replacements;
+}
+
+function versionStatus(
+  metadata: DocumentMetadata,
+  replacement: DocumentMetadata | undefined
+): DocumentStatus {
+  if (metadata.status === "withdrawn") return "withdrawn";
+  return replacement || metadata.status === "superseded" ? "superseded" : "current";
+}
+
+/**
+ * Flags chunks from replaced documents and filters or re-scores them
+ * according to the policy
+ */
+export function applyVersionPolicy(
+  chunks: RetrievedChunk[],
+  replacements: Map<string, DocumentMetadata>,
+  policy: VersionPolicy
+): RetrievedChunk[] {
+  const flagged = chunks.map((chunk): RetrievedChunk => {
+    const replacement = replacements.get(chunk.metadata.documentId);
+    const status = versionStatus(chunk.metadata, replacement);
+    return status === "current" ? chunk : { ...chunk, status, replacedBy: replacement };
+  });
+
+  switch (policy) {
+    case "include":
+      return flagged;
+    case "exclude":
+      return flagged.filter((chunk) => !chunk.status);
+    case "downrank": {
+      // The incoming order (e.g. fused and reranked) is kept within each group
+      const kept = flagged.filter((chunk) => chunk.status !== "withdrawn");
+      return [
+        ...kept.filter((chunk) => !chunk.status),
+        ...kept
+          .filter((chunk) => chunk.status === "superseded")
+          .map((chunk) => ({ ...chunk, score: chunk.score * SUPERSEDED_PENALTY })),
+      ];
+    }
+  }
+}
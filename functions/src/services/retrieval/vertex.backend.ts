@@ -0,0 +1,222 @@
+/**
+ * Vertex AI RAG Retrieval Backend
+ * Queries the Vertex AI RAG corpus and resolves document metadata and the
+ * matching stored chunks from Firestore
+ */
+
+import { VertexRagServiceClient } from "@google-cloud/aiplatform";
+import { getFirestore } from "firebase-admin/firestore";
+import { documentChunkSchema, documentMetadataSchema } from "@umoyo/shared";
+import type { DocumentChunk, DocumentDetail, DocumentMetadata } from "@umoyo/shared";
+import { matchesContext } from "./filters";
+import type { RetrievalBackend, RetrievedChunk, RetrieveRequest } from "./retrieval.types";
+
+const DOCUMENTS_COLLECTION = "documents";
+/** Subcollection of a document holding its chunk texts, ordered by `position` */
+const CHUNKS_COLLECTION = "chunks";
+
+/** Most values Firestore accepts in one `array-contains-any` filter */
+const ARRAY_FILTER_LIMIT = 30;
+
+/**
+ * Vertex returns unfiltered contexts, so more are requested than needed
+ * to leave room for the metadata filters
+ */
+const OVERFETCH_FACTOR = 3;
+
+interface VertexBackendOptions {
+  projectId: string;
+  location: string;
+  corpusName: string;
+}
+
+export class VertexRetrievalBackend implements RetrievalBackend {
+  readonly name = "vertex";
+  private client: VertexRagServiceClient | null = null;
+
+  constructor(private readonly options: VertexBackendOptions) {}
+
+  async retrieve(query: string, request: RetrieveRequest): Promise<RetrievedChunk[]> {
+    const { projectId, location } = this.options;
+    if (!projectId) {
+      throw new Error("GCP_PROJECT_ID is required for the Vertex retrieval backend");
+    }
+
+    const [response] = await this.getClient().retrieveContexts({
+      parent: `projects/${projectId}/locations/${location}`,
+      vertexRagStore: {
+        ragResources: [{ ragCorpus: this.getCorpusResource() }],
+      },
+      query: {
+        text: query,
+        ragRetrievalConfig: { topK: request.topK * OVERFETCH_FACTOR },
+      },
+    });
+
+    const contexts = response.contexts?.contexts ?? [];
+    const locations = contexts.map((context) => ragSourceLocation(context.sourceUri ?? ""));
+    const [metadataById, chunksByKey] = await Promise.all([
+      this.getMetadata([...new Set(locations.map((location) => location.documentId))]),
+      this.getChunks(locations),
+    ]);
+
+    const results: RetrievedChunk[] = [];
+    contexts.forEach((context, index) => {
+      const location = locations[index];
+      const metadata = metadataById.get(location.documentId);
+      if (!metadata || !context.text || !matchesContext(metadata, request.context)) return;
+
+      // Files staged as one document (older imports) cannot be mapped to a
+      // stored chunk, so they get no chunkId, page or section
+      const chunk = chunksByKey.get(chunkKey(location));
+      results.push({
+        metadata,
+        chunkId: chunk?.chunkId,
+        text: chunk?.text ?? context.text,
+        pageNumber: chunk?.pageNumber,
+        sectionPath: chunk?.sectionPath,
+        // The managed index reports cosine distance; convert to similarity
+        score: Math.min(1, Math.max(0, 1 - (context.score ?? 1))),
+      });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, request.topK);
+  }
+
+  /**
+   * The RAG corpus cannot list a file's chunks, so the viewer reads the
+   * chunk texts the ingestion pipeline stores next to the metadata
+   */
+  async getDocument(documentId: string): Promise<DocumentDetail | null> {
+    const document = getFirestore().collection(DOCUMENTS_COLLECTION).doc(documentId);
+    const [snapshot, chunks] = await Promise.all([
+      document.get(),
+      document.collection(CHUNKS_COLLECTION).orderBy("position").get(),
+    ]);
+
+    const metadata = documentMetadataSchema.safeParse(snapshot.data());
+    if (!metadata.success) {
+      return null;
+    }
+    return {
+      metadata: metadata.data,
+      chunks: chunks.docs.flatMap((chunk) => {
+        const parsed = documentChunkSchema.omit({ embedding: true }).safeParse(chunk.data());
+        return parsed.success ? [parsed.data] : [];
+      }),
+    };
+  }
+
+  async getSuccessors(documentIds: string[]): Promise<DocumentMetadata[]> {
+    const collection = getFirestore().collection(DOCUMENTS_COLLECTION);
+    const batches: string[][] = [];
+    for (let start = 0; start < documentIds.length; start += ARRAY_FILTER_LIMIT) {
+      batches.push(documentIds.slice(start, start + ARRAY_FILTER_LIMIT));
+    }
+    const snapshots = await Promise.all(
+      batches.map((ids) => collection.where("supersedes", "array-contains-any", ids).get())
+    );
+
+    const successors = new Map<string, DocumentMetadata>();
+    for (const doc of snapshots.flatMap((snapshot) => snapshot.docs)) {
+      const parsed = documentMetadataSchema.safeParse(doc.data());
+      if (parsed.success) {
+        successors.set(doc.id, parsed.data);
+      }
+    }
+    return [...successors.values()];
+  }
+
+  private getClient(): VertexRagServiceClient {
+    if (!this.client) {
+      this.client = new VertexRagServiceClient({
+        apiEndpoint: `${this.options.location}-aiplatform.googleapis.com`,
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Accepts either a full corpus resource name or a bare corpus id
+   */
+  private getCorpusResource(): string {
+    const { projectId, location, corpusName } = this.options;
+    return corpusName.startsWith("projects/")
+      ? corpusName
+      : `projects/${projectId}/locations/${location}/ragCorpora/${corpusName}`;
+  }
+
+  /**
+   * Loads the stored chunks the contexts were imported from
+   */
+  private async getChunks(locations: RagSourceLocation[]): Promise<Map<string, DocumentChunk>> {
+    const chunks = new Map<string, DocumentChunk>();
+    const keys = new Map<string, RagSourceLocation>();
+    for (const location of locations) {
+      if (location.position !== undefined) keys.set(chunkKey(location), location);
+    }
+    if (keys.size === 0) {
+      return chunks;
+    }
+
+    const collection = getFirestore().collection(DOCUMENTS_COLLECTION);
+    const refs = [...keys.values()].map(({ documentId, position }) =>
+      collection.doc(documentId).collection(CHUNKS_COLLECTION).doc(String(position))
+    );
+    const snapshots = await getFirestore().getAll(...refs);
+    [...keys.keys()].forEach((key, index) => {
+      const parsed = documentChunkSchema
+        .omit({ embedding: true })
+        .safeParse(snapshots[index].data());
+      if (parsed.success) {
+        chunks.set(key, parsed.data);
+      }
+    });
+    return chunks;
+  }
+
+  /**
+   * Loads document metadata written by the ingestion pipeline
+   */
+  private async getMetadata(documentIds: string[]): Promise<Map<string, DocumentMetadata>> {
+    const metadata = new Map<string, DocumentMetadata>();
+    if (documentIds.length === 0) {
+      return metadata;
+    }
+
+    const collection = getFirestore().collection(DOCUMENTS_COLLECTION);
+    const snapshots = await getFirestore().getAll(...documentIds.map((id) => collection.doc(id)));
+
+    for (const snapshot of snapshots) {
+      const parsed = documentMetadataSchema.safeParse(snapshot.data());
+      if (parsed.success) {
+        metadata.set(snapshot.id, parsed.data);
+      }
+    }
+    return metadata;
+  }
+}
+
+export interface RagSourceLocation {
+  documentId: string;
+  /** Position of the stored chunk; absent for files holding a whole document */
+  position?: number;
+}
+
+/**
+ * Where a corpus file came from: `<prefix>/<documentId>/<position>.txt` for
+ * one chunk, or `<prefix>/<documentId>.txt` for a whole document
+ */
+export function ragSourceLocation(sourceUri: string): RagSourceLocation {
+  const segments = sourceUri.split("/");
+  const stem = (segments.pop() ?? sourceUri).replace(/\.[^.]+$/, "");
+  const folder = segments.pop();
+  if (/^\d+$/.test(stem) && folder) {
+    return { documentId: folder, position: Number(stem) };
+  }
+  return { documentId: stem };
+}
+
+function chunkKey({ documentId, position }: RagSourceLocation): string {
+  return `${documentId}/${position ?? ""}`;
+}
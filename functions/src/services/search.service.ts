@@ -0,0 +1,137 @@
+/**
+ * Search Service
+ * Document search for professionals: groups retrieved chunks into documents,
+ * applies multi-value filters, counts facets and pages with cursors
+ */
+
+import type {
+  FacetCount,
+  SearchFacetField,
+  SearchFacets,
+  SearchParamsSchemaType,
+  SearchResponse,
+  SearchResult,
+} from "@umoyo/shared";
+import { ragService } from "./rag.service";
+import { matchesFilters, type RetrievedChunk, type SearchFilters } from "./retrieval";
+
+/**
+ * Chunks ranked per query. Totals and facets are counted over the
+ * documents these chunks belong to. Kept small because each backend
+ * stage fetches a multiple of it.
+ */
+const CANDIDATE_CHUNKS = 100;
+
+const FACET_FIELDS: SearchFacetField[] = ["category", "language", "audience", "region", "tags"];
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid search cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Cursors are opaque to clients so the paging scheme can change later
+ */
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) {
+    return 0;
+  }
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Keeps each document's best chunk. Chunks arrive sorted by score.
+ */
+function bestChunkPerDocument(chunks: RetrievedChunk[]): RetrievedChunk[] {
+  const documents = new Map<string, RetrievedChunk>();
+  for (const chunk of chunks) {
+    if (!documents.has(chunk.metadata.documentId)) {
+      documents.set(chunk.metadata.documentId, chunk);
+    }
+  }
+  return [...documents.values()];
+}
+
+function toResult(chunk: RetrievedChunk): SearchResult {
+  const { metadata } = chunk;
+  return {
+    documentId: metadata.documentId,
+    title: metadata.title,
+    excerpt: chunk.text,
+    chunkId: chunk.chunkId,
+    pageNumber: chunk.pageNumber,
+    relevanceScore: chunk.score,
+    metadata: {
+      category: metadata.category,
+      language: metadata.language,
+      audience: metadata.audience,
+      region: metadata.region,
+      lastUpdated: metadata.lastUpdated,
+      tags: metadata.tags,
+    },
+  };
+}
+
+/**
+ * Counts each facet over the documents that match every other filter
+ */
+function countFacets(documents: RetrievedChunk[], filters: SearchFilters): SearchFacets {
+  const facets = {} as SearchFacets;
+  for (const field of FACET_FIELDS) {
+    const counts = new Map<string, number>();
+    for (const { metadata } of documents) {
+      if (!matchesFilters(metadata, filters, field)) continue;
+      const values = field === "tags" ? metadata.tags ?? [] : [metadata[field]];
+      for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    facets[field] = [...counts]
+      .map(([value, count]): FacetCount => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return facets;
+}
+
+class SearchService {
+  async search(params: SearchParamsSchemaType): Promise<SearchResponse> {
+    const offset = decodeCursor(params.cursor);
+    const filters: SearchFilters = {
+      category: params.category,
+      language: params.language,
+      audience: params.audience,
+      region: params.region,
+      tags: params.tags,
+      lastUpdated: params.lastUpdated,
+    };
+
+    // Filters run here rather than in the backend so facets can ignore them
+    const chunks = await ragService.retrieveChunks(params.query, CANDIDATE_CHUNKS);
+    const documents = bestChunkPerDocument(chunks);
+    const matching = documents.filter((chunk) => matchesFilters(chunk.metadata, filters));
+    const end = offset + params.limit;
+
+    return {
+      results: matching.slice(offset, end).map(toResult),
+      total: matching.length,
+      nextCursor: end < matching.length ? encodeCursor(end) : null,
+      facets: countFacets(documents, filters),
+    };
+  }
+}
+
+export const searchService = new SearchService();
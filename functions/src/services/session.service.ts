@@ -0,0 +1,282 @@
+/**
+ * Session Service
+ * Persists chat sessions and their messages in Firestore under each user:
+ * users/{uid}/chatSessions/{sessionId}/messages/{messageId}
+ */
+
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import type {
+  ChatMessage,
+  ChatSession,
+  ChatSessionDetail,
+  CitationCheck,
+  DocumentSource,
+  DrugAlert,
+  EmergencyGuidance,
+  Grounding,
+  PromptRef,
+  QueryTrace,
+} from "@umoyo/shared";
+
+const USERS_COLLECTION = "users";
+const SESSIONS_COLLECTION = "chatSessions";
+const MESSAGES_COLLECTION = "messages";
+const MAX_TITLE_LENGTH = 60;
+
+interface NewMessage {
+  role: ChatMessage["role"];
+  content: string;
+  sources?: DocumentSource[];
+  citations?: CitationCheck;
+  grounding?: Grounding;
+  emergency?: EmergencyGuidance;
+  prompt?: PromptRef;
+  disclaimer?: string;
+  query?: QueryTrace;
+  drugAlerts?: DrugAlert[];
+  stopped?: boolean;
+}
+
+export interface ConversationState {
+  /** Rolling summary of turns that fell out of the conversation window */
+  summary?: string;
+  /** Messages newer than the summary, oldest first */
+  messages: ChatMessage[];
+}
+
+interface ListSessionsOptions {
+  limit: number;
+  cursor?: string;
+}
+
+class SessionService {
+  private sessions(uid: string) {
+    return getFirestore()
+      .collection(USERS_COLLECTION)
+      .doc(uid)
+      .collection(SESSIONS_COLLECTION);
+  }
+
+  /**
+   * Returns the id of an existing session, creating it when it does not exist yet.
+   * Client-generated ids are accepted since sessions are scoped to the user.
+   */
+  async ensureSession(
+    uid: string,
+    sessionId: string | undefined,
+    init: { firstMessage: string; audience?: string }
+  ): Promise<string> {
+    const ref = sessionId ? this.sessions(uid).doc(sessionId) : this.sessions(uid).doc();
+    const snapshot = await ref.get();
+
+    if (!snapshot.exists) {
+      const now = Timestamp.now();
+      await ref.set({
+        title: toTitle(init.firstMessage),
+        ...(init.audience ? { audience: init.audience } : {}),
+        messageCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    return ref.id;
+  }
+
+  async addMessage(uid: string, sessionId: string, message: NewMessage): Promise<ChatMessage> {
+    const sessionRef = this.sessions(uid).doc(sessionId);
+    const messageRef = sessionRef.collection(MESSAGES_COLLECTION).doc();
+    const now = Timestamp.now();
+
+    // Sources, grounding and alerts carry optional fields Firestore rejects as undefined
+    const data = withoutUndefined({
+      role: message.role,
+      content: message.content,
+      sources: message.sources ?? [],
+      ...(message.citations ? { citations: message.citations } : {}),
+      ...(message.grounding ? { grounding: message.grounding } : {}),
+      ...(message.emergency ? { emergency: message.emergency } : {}),
+      ...(message.prompt ? { prompt: message.prompt } : {}),
+      ...(message.disclaimer ? { disclaimer: message.disclaimer } : {}),
+      ...(message.query ? { query: message.query } : {}),
+      ...(message.drugAlerts?.length ? { drugAlerts: message.drugAlerts } : {}),
+      ...(message.stopped ? { stopped: true } : {}),
+      createdAt: now,
+    });
+
+    const batch = getFirestore().batch();
+    batch.set(messageRef, data);
+    batch.update(sessionRef, {
+      messageCount: FieldValue.increment(1),
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    return {
+      id: messageRef.id,
+      role: message.role,
+      content: message.content,
+      timestamp: now.toDate(),
+      sources: message.sources,
+      citations: message.citations,
+      grounding: message.grounding,
+      emergency: message.emergency,
+      prompt: message.prompt,
+      disclaimer: message.disclaimer,
+      query: message.query,
+      drugAlerts: message.drugAlerts,
+      stopped: message.stopped,
+    };
+  }
+
+  /**
+   * Loads the stored summary and the messages it does not cover yet
+   */
+  async getConversationState(uid: string, sessionId: string): Promise<ConversationState> {
+    const ref = this.sessions(uid).doc(sessionId);
+    const snapshot = await ref.get();
+    const data = snapshot.data() ?? {};
+
+    let query = ref.collection(MESSAGES_COLLECTION).orderBy("createdAt", "asc");
+    if (data.summaryThrough) {
+      query = query.where("createdAt", ">", data.summaryThrough);
+    }
+    const messages = await query.get();
+
+    return {
+      summary: data.summary,
+      messages: messages.docs.map(toMessage),
+    };
+  }
+
+  /**
+   * Stores a summary covering every message up to and including `through`
+   */
+  async saveSummary(uid: string, sessionId: string, summary: string, through: Date): Promise<void> {
+    await this.sessions(uid).doc(sessionId).update({
+      summary,
+      summaryThrough: Timestamp.fromDate(through),
+    });
+  }
+
+  async listSessions(
+    uid: string,
+    options: ListSessionsOptions
+  ): Promise<{ sessions: ChatSession[]; nextCursor?: string }> {
+    let query = this.sessions(uid).orderBy("updatedAt", "desc").limit(options.limit + 1);
+
+    if (options.cursor) {
+      const cursor = await this.sessions(uid).doc(options.cursor).get();
+      if (cursor.exists) {
+        query = query.startAfter(cursor);
+      }
+    }
+
+    const snapshot = await query.get();
+    const docs = snapshot.docs.slice(0, options.limit);
+
+    return {
+      sessions: docs.map(toSession),
+      nextCursor: snapshot.docs.length > options.limit ? docs[docs.length - 1].id : undefined,
+    };
+  }
+
+  async getSession(uid: string, sessionId: string): Promise<ChatSessionDetail | null> {
+    const ref = this.sessions(uid).doc(sessionId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    const messages = await ref.collection(MESSAGES_COLLECTION).orderBy("createdAt", "asc").get();
+
+    return {
+      session: toSession(snapshot),
+      messages: messages.docs.map(toMessage),
+    };
+  }
+
+  async renameSession(uid: string, sessionId: string, title: string): Promise<ChatSession | null> {
+    const ref = this.sessions(uid).doc(sessionId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    await ref.update({ title, updatedAt: Timestamp.now() });
+    return toSession(await ref.get());
+  }
+
+  /**
+   * Deletes the session together with all of its messages
+   */
+  async deleteSession(uid: string, sessionId: string): Promise<boolean> {
+    const ref = this.sessions(uid).doc(sessionId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return false;
+    }
+
+    await getFirestore().recursiveDelete(ref);
+    return true;
+  }
+}
+
+function toSession(snapshot: DocumentSnapshot): ChatSession {
+  const data = snapshot.data() ?? {};
+  return {
+    id: snapshot.id,
+    title: data.title,
+    audience: data.audience,
+    messageCount: data.messageCount ?? 0,
+    createdAt: (data.createdAt as Timestamp).toDate(),
+    updatedAt: (data.updatedAt as Timestamp).toDate(),
+  };
+}
+
+/**
+ * Copy of a plain object or array without `undefined` values, which
+ * Firestore refuses to store. Other values, such as Timestamps, are kept.
+ */
+function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(withoutUndefined) as T;
+  }
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, withoutUndefined(entry)])
+    ) as T;
+  }
+  return value;
+}
+
+function toMessage(snapshot: DocumentSnapshot): ChatMessage {
+  const data = snapshot.data() ?? {};
+  const sources = (data.sources ?? []) as DocumentSource[];
+  return {
+    id: snapshot.id,
+    role: data.role,
+    content: data.content,
+    timestamp: (data.createdAt as Timestamp).toDate(),
+    ...(sources.length > 0 ? { sources } : {}),
+    ...(data.citations ? { citations: data.citations as CitationCheck } : {}),
+    ...(data.grounding ? { grounding: data.grounding as Grounding } : {}),
+    ...(data.emergency ? { emergency: data.emergency as EmergencyGuidance } : {}),
+    ...(data.prompt ? { prompt: data.prompt as PromptRef } : {}),
+    ...(data.disclaimer ? { disclaimer: data.disclaimer } : {}),
+    ...(data.query ? { query: data.query as QueryTrace } : {}),
+    ...(data.drugAlerts ? { drugAlerts: data.drugAlerts as DrugAlert[] } : {}),
+    ...(data.stopped ? { stopped: true } : {}),
+  };
+}
+
+function toTitle(message: string): string {
+  const singleLine = message.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : singleLine;
+}
+
+export const sessionService = new SessionService();
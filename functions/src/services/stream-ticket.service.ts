@@ -0,0 +1,67 @@
+/**
+ * Stream Ticket Service
+ * EventSource cannot send an Authorization header, and whatever it sends
+ * lands in the stream URL and its access logs. A signed-in client trades
+ * its ID token for a ticket over a normal request and opens the stream
+ * with that instead: it is random, single-use and expires within a minute.
+ *
+ * Only a hash of the ticket is stored in `streamTickets`. Unredeemed
+ * tickets are cleaned up by a Firestore TTL policy on `expiresAt`.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+
+const TICKETS_COLLECTION = "streamTickets";
+const TICKET_TTL_MS = 60_000;
+
+export interface StreamTicket {
+  ticket: string;
+  expiresAt: Date;
+}
+
+class StreamTicketService {
+  private tickets() {
+    return getFirestore().collection(TICKETS_COLLECTION);
+  }
+
+  /**
+   * Issues a ticket for the user. It never outlives the ID token it was
+   * issued for.
+   */
+  async issue(user: DecodedIdToken): Promise<StreamTicket> {
+    const ticket = randomBytes(32).toString("base64url");
+    const expiresAt = Timestamp.fromMillis(Math.min(Date.now() + TICKET_TTL_MS, user.exp * 1000));
+
+    await this.tickets().doc(hashTicket(ticket)).set({ user: { ...user }, expiresAt });
+    return { ticket, expiresAt: expiresAt.toDate() };
+  }
+
+  /**
+   * The user a ticket was issued to, or null when it is unknown, expired
+   * or already used. Redeeming deletes it either way.
+   */
+  async redeem(ticket: string): Promise<DecodedIdToken | null> {
+    const ref = this.tickets().doc(hashTicket(ticket));
+    const data = await getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return null;
+      }
+      transaction.delete(ref);
+      return snapshot.data() ?? null;
+    });
+
+    if (!data || (data.expiresAt as Timestamp).toMillis() <= Date.now()) {
+      return null;
+    }
+    return data.user as DecodedIdToken;
+  }
+}
+
+function hashTicket(ticket: string): string {
+  return createHash("sha256").update(ticket).digest("hex");
+}
+
+export const streamTicketService = new StreamTicketService();
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { formatEmergency, triageService } from "./triage.service";
+import { DANGER_SIGNS } from "./triage/danger-signs";
+
+const detectedIds = (message: string) => triageService.detect(message).map((sign) => sign.id);
+
+describe("triageService.detect", () => {
+  it.each([
+    ["My son has a seizure", "convulsions"],
+    ["She is not breathing", "not-breathing"],
+    ["He collapsed in the kitchen", "unconscious"],
+    ["My baby won't breastfeed", "cannot-drink"],
+    ["My father says he is having chest pain", "chest-pain"],
+    ["I think she had a stroke, her face is drooping", "stroke"],
+    ["He was bitten by a snake", "snakebite"],
+  ])("matches English: %s", (message, id) => {
+    expect(detectedIds(message)).toContain(id);
+  });
+
+  it.each([
+    ["Mwana wanga akunjenjemera", "convulsions"],
+    ["Mwana ali ndi khunyu", "convulsions"],
+    ["Akuvutika kupuma", "not-breathing"],
+    ["Walumidwa ndi njoka", "snakebite"],
+  ])("matches Nyanja: %s", (message, id) => {
+    expect(detectedIds(message)).toContain(id);
+  });
+
+  it.each([
+    ["Umwana talepema", "not-breathing"],
+    ["Umwana wandi ali ne cipumputu", "convulsions"],
+    ["Ukufuma umulopa uwingi", "severe-bleeding"],
+    ["Ndefwaya ukufwa", "self-harm"],
+  ])("matches Bemba: %s", (message, id) => {
+    expect(detectedIds(message)).toContain(id);
+  });
+
+  it("ignores accents and capitals", () => {
+    expect(detectedIds("NOT BREATHÍNG")).toContain("not-breathing");
+  });
+
+  it.each([
+    "What causes fits of coughing at night?",
+    "What causes chest pain after exercise last year?",
+    "How is malaria treated in children?",
+    "Can I breastfeed while taking amoxicillin?",
+    "Is a stroke more likely with high blood pressure?",
+    "Ndi mankhwala ati a malungo?",
+  ])("does not match an ordinary question: %s", (message) => {
+    expect(detectedIds(message)).toEqual([]);
+  });
+
+  it("has Nyanja and Bemba keywords for every sign but the documented gap", () => {
+    const untranslated = DANGER_SIGNS.filter(
+      (sign) => sign.patterns.ny.length === 0 || sign.patterns.bem.length === 0
+    ).map((sign) => sign.id);
+
+    expect(untranslated).toEqual(["stroke", "pregnancy-danger"]);
+  });
+});
+
+describe("triageService.assess", () => {
+  it("returns null without danger signs", () => {
+    expect(triageService.assess("What is the dose of paracetamol?", "ny")).toBeNull();
+  });
+
+  it("gives guidance in the requested language", () => {
+    const guidance = triageService.assess("My son has a seizure", "bem");
+
+    expect(guidance?.language).toBe("bem");
+    expect(guidance?.signs).toEqual(["Icipumputu"]);
+    expect(guidance?.contacts).toContainEqual({ label: "Ambulensi", number: "991" });
+  });
+
+  it("switches to the language of a Nyanja keyword", () => {
+    const guidance = triageService.assess("Mwana wanga akunjenjemera", "en");
+
+    expect(guidance?.language).toBe("ny");
+    expect(guidance?.headline).toMatch(/^Izi zikhoza kukhala zadzidzidzi/);
+    expect(guidance?.signs).toEqual(["Khunyu kapena kunjenjemera"]);
+  });
+
+  it("keeps the requested language when its keywords matched too", () => {
+    // "poizoni" is both Nyanja and Bemba
+    expect(triageService.assess("Wamwa poizoni", "bem")?.language).toBe("bem");
+    expect(triageService.assess("Wamwa poizoni", "en")?.language).toBe("ny");
+  });
+
+  it("lists the emergency numbers before sign-specific helplines", () => {
+    const guidance = triageService.assess("I want to die", "en");
+
+    expect(guidance?.contacts.map((contact) => contact.number)).toEqual(["991", "999", "933"]);
+    expect(guidance?.instructions[0]).toMatch(/Call 991/);
+  });
+
+  it("formats guidance in its own language", () => {
+    const guidance = triageService.assess("Umwana talepema", "en");
+
+    expect(guidance).not.toBeNull();
+    expect(formatEmergency(guidance!)).toContain("Ifishibilo fya busanso: Talepema");
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Triage Service
+ * Screens patient messages for danger signs before retrieval. A match
+ * returns emergency guidance instead of an answer, in the user's language.
+ */
+
+import type { EmergencyContact, EmergencyGuidance } from "@umoyo/shared";
+import {
+  DANGER_SIGNS,
+  type DangerSign,
+  type Localised,
+  type LocalisedContact,
+  type TriageLanguage,
+} from "./triage/danger-signs";
+
+const EMERGENCY_CONTACTS: LocalisedContact[] = [
+  { label: { en: "Ambulance", ny: "Ambulansi", bem: "Ambulensi" }, number: "991" },
+  { label: { en: "Police", ny: "Apolisi", bem: "Bakapokola" }, number: "999" },
+];
+
+const HEADLINE: Localised = {
+  en: "This may be a medical emergency. Get help now.",
+  ny: "Izi zikhoza kukhala zadzidzidzi za zaumoyo. Pezani thandizo tsopano.",
+  bem: "Ici kuti caba ca bwangu ica bumi. Fwayeni ubwafwilisho nomba line.",
+};
+
+const CALL_FOR_HELP: Localised = {
+  en: "Call 991 for an ambulance, or go to the nearest health facility immediately.",
+  ny: "Imbani 991 kuti mupeze ambulansi, kapena pitani kuchipatala chapafupi nthawi yomweyo.",
+  bem: "Ituni 991 pa ambulensi, nangu kabiyeni ku cipatala ica mupepi bwangu bwangu.",
+};
+
+const DO_NOT_WAIT: Localised = {
+  en: "Do not wait for an answer from this assistant. It cannot assess an emergency.",
+  ny: "Musadikire yankho kuchokera kwa wothandizira uyu. Sangathe kuyesa zadzidzidzi.",
+  bem: "Mwilolela icasuko ukufuma kuli kafwa uyu. Tekuti apime ifya bwangu.",
+};
+
+const DANGER_SIGNS_LABEL: Localised = {
+  en: "Danger signs",
+  ny: "Zizindikiro zoopsa",
+  bem: "Ifishibilo fya busanso",
+};
+
+class TriageService {
+  /**
+   * Returns the danger signs the message mentions, in rule order.
+   * Matching errs on the side of caution: negations are not parsed.
+   */
+  detect(message: string): DangerSign[] {
+    const text = normalise(message);
+    return DANGER_SIGNS.filter((sign) =>
+      Object.values(sign.patterns).some((patterns) => patterns.some((pattern) => pattern.test(text)))
+    );
+  }
+
+  /**
+   * Emergency guidance for the message, or null when no danger sign matched.
+   * `language` is the one the rest of the answer would use; a Nyanja or
+   * Bemba keyword match overrides it.
+   */
+  assess(message: string, language: TriageLanguage = "en"): EmergencyGuidance | null {
+    const signs = this.detect(message);
+    if (signs.length === 0) {
+      return null;
+    }
+
+    const text = normalise(message);
+    const matched = (["ny", "bem"] as TriageLanguage[]).filter((candidate) =>
+      signs.some((sign) => sign.patterns[candidate].some((pattern) => pattern.test(text)))
+    );
+    const guidanceLanguage =
+      matched.length === 0 || matched.includes(language) ? language : matched[0];
+
+    const firstAid = signs.flatMap((sign) =>
+      sign.firstAid ? [sign.firstAid[guidanceLanguage]] : []
+    );
+    const contacts = [...EMERGENCY_CONTACTS, ...signs.flatMap((sign) => sign.contacts ?? [])];
+
+    return {
+      language: guidanceLanguage,
+      signs: signs.map((sign) => sign.label[guidanceLanguage]),
+      headline: HEADLINE[guidanceLanguage],
+      instructions: [CALL_FOR_HELP[guidanceLanguage], ...firstAid, DO_NOT_WAIT[guidanceLanguage]],
+      contacts: contacts.map(
+        (contact): EmergencyContact => ({
+          label: contact.label[guidanceLanguage],
+          number: contact.number,
+        })
+      ),
+    };
+  }
+}
+
+/**
+ * Formats guidance as plain text for session history and plain clients
+ */
+export function formatEmergency(guidance: EmergencyGuidance): string {
+  const contacts = guidance.contacts.map((contact) => `${contact.label}: ${contact.number}`);
+  return [
+    guidance.headline,
+    `${DANGER_SIGNS_LABEL[guidance.language ?? "en"]}: ${guidance.signs.join(", ")}.`,
+    ...guidance.instructions,
+    contacts.join(" | "),
+  ].join("\n");
+}
+
+function normalise(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/[’`]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+export const triageService = new TriageService();
@@ -0,0 +1,268 @@
+/**
+ * Danger signs that need emergency care rather than an answer.
+ * Based on the WHO IMCI general danger signs for children and common adult
+ * and pregnancy emergency signs. Patterns run against lowercased text with
+ * accents removed. Nyanja and Bemba keywords and texts should be reviewed
+ * with native-speaking health workers whenever they change.
+ *
+ * Known gap: `stroke` and `pregnancy-danger` have no reviewed Nyanja or
+ * Bemba keywords yet. English patterns run against every message, so they
+ * are still caught when described in English, but not in Nyanja or Bemba.
+ */
+
+export type TriageLanguage = "en" | "ny" | "bem";
+
+/** The same text in each language guidance can be given in */
+export type Localised = Record<TriageLanguage, string>;
+
+export interface LocalisedContact {
+  label: Localised;
+  number: string;
+}
+
+export interface DangerSign {
+  id: string;
+  /** Shown to the user */
+  label: Localised;
+  /** Short first-aid step shown after the call-for-help instructions */
+  firstAid?: Localised;
+  /** Helplines for this sign, shown after the emergency numbers */
+  contacts?: LocalisedContact[];
+  patterns: Record<TriageLanguage, RegExp[]>;
+}
+
+export const DANGER_SIGNS: DangerSign[] = [
+  {
+    id: "convulsions",
+    label: {
+      en: "Convulsions or fits",
+      ny: "Khunyu kapena kunjenjemera",
+      bem: "Icipumputu",
+    },
+    firstAid: {
+      en: "Lay the person on their side on the floor, away from hard objects. Do not put anything in their mouth.",
+      ny: "Mugonekeni munthuyo chammbali pansi, kutali ndi zinthu zolimba. Musamuike kanthu kalikonse mkamwa.",
+      bem: "Lalikeni umuntu ku lubali pa nshi, ukutali ne fintu ifikosa. Mwibika icili conse mu kanwa.",
+    },
+    patterns: {
+      en: [
+        /\b(convulsing|fitting|seizing)\b/,
+        /\b(having|had|has) (a )?(convulsion|seizure|fit)s?\b/,
+      ],
+      ny: [/\bkhunyu\b/, /\bakunjenjemera\b/],
+      bem: [/\bicipumputu\b/, /\bcipumputu\b/],
+    },
+  },
+  {
+    id: "not-breathing",
+    label: {
+      en: "Not breathing or struggling to breathe",
+      ny: "Sakupuma kapena akuvutika kupuma",
+      bem: "Talepema nangu alefilwa ukupema",
+    },
+    firstAid: {
+      en: "Keep the airway clear and keep the person upright if they are awake.",
+      ny: "Onetsetsani kuti njira ya mpweya ili yotseguka, ndipo mukhazikeni munthuyo wowongoka ngati ali maso.",
+      bem: "Sungeni inshila ya mweo iyashibuka, kabili ikalikeni umuntu uwaima nga alibuka.",
+    },
+    patterns: {
+      en: [
+        /\bnot breathing\b/,
+        /\b(stopped|stops) breathing\b/,
+        /\b(can ?not|cannot|can't|struggling to|difficulty) breath/,
+        /\bchest (is )?(in-?drawing|pulling in)\b/,
+        /\bturning blue\b/,
+        /\bchoking\b/,
+      ],
+      ny: [/\bsakupuma\b/, /\bakulephera kupuma\b/, /\bakuvutika kupuma\b/],
+      bem: [/\btalepema\b/, /\balefilwa ukupema\b/],
+    },
+  },
+  {
+    id: "unconscious",
+    label: {
+      en: "Unconscious or very drowsy",
+      ny: "Wakomoka kapena akugona kwambiri",
+      bem: "Taleumfwa nangu alesunta sana",
+    },
+    firstAid: {
+      en: "Lay the person on their side so they do not choke.",
+      ny: "Mugonekeni munthuyo chammbali kuti asatsamwe.",
+      bem: "Lalikeni umuntu ku lubali pa kuti umweo ulepita bwino.",
+    },
+    patterns: {
+      en: [
+        /\bunconscious\b/,
+        /\bunresponsive\b/,
+        /\b(won't|will not|cannot|can't) wake\b/,
+        /\bpassed out\b/,
+        /\bcollapsed\b/,
+        /\blethargic\b/,
+      ],
+      ny: [/\bwakomoka\b/, /\bsakudzuka\b/],
+      bem: [/\btalebuka\b/, /\bawa pansi\b/],
+    },
+  },
+  {
+    id: "cannot-drink",
+    label: {
+      en: "Child unable to drink or breastfeed",
+      ny: "Mwana sakutha kumwa kapena kuyamwa",
+      bem: "Umwana talekwanisha ukunwa nangu ukonka",
+    },
+    patterns: {
+      en: [
+        /\b(baby|child|infant|newborn|son|daughter)\b.*\b(not|unable to|can't|cannot|won't|refus\w*( to)?) (drink|breastfeed|breast feed|suckle)/,
+      ],
+      ny: [/\bsakuyamwa\b/, /\bsakumwa\b/],
+      bem: [/\btaleonka\b/, /\btalenwa\b/],
+    },
+  },
+  {
+    id: "vomits-everything",
+    label: {
+      en: "Vomiting everything",
+      ny: "Akusanza chilichonse",
+      bem: "Aleluka fyonse",
+    },
+    patterns: {
+      en: [/\bvomit\w* everything\b/, /\bcan't keep anything down\b/, /\bvomiting blood\b/],
+      ny: [/\bakusanza (zonse|chilichonse)\b/],
+      bem: [/\bukuluka fyonse\b/],
+    },
+  },
+  {
+    id: "severe-bleeding",
+    label: {
+      en: "Heavy bleeding",
+      ny: "Akutaya magazi ambiri",
+      bem: "Ukufuma umulopa uwingi",
+    },
+    firstAid: {
+      en: "Press firmly on the wound with a clean cloth and keep pressing.",
+      ny: "Kanikizani mwamphamvu pachilonda ndi nsalu yoyera ndipo pitirizani kukanikiza.",
+      bem: "Tinikeni sana pa cilonda ne cisalu icasanguluka kabili mutwalilile ukutinika.",
+    },
+    patterns: {
+      en: [
+        /\b(heavy|severe|a lot of|lots of|won't stop|not stopping) bleed/,
+        /\bbleeding (heavily|a lot|won't stop|will not stop)\b/,
+        /\bbleeding (in|during) pregnancy\b/,
+      ],
+      ny: [/\bakutaya magazi\b/, /\bmagazi ambiri\b/],
+      bem: [/\bumulopa uwingi\b/, /\bukufuma umulopa\b/],
+    },
+  },
+  {
+    id: "chest-pain",
+    label: {
+      en: "Chest pain",
+      ny: "Kupweteka pachifuwa",
+      bem: "Ukukalipwa mu cifuba",
+    },
+    patterns: {
+      en: [
+        /\b(have|having|has|got) (a |severe |bad |sudden )?chest pain/,
+        /\bpain in (my|his|her) chest\b/,
+        /\b(having|had) a heart attack\b/,
+      ],
+      ny: [/\bkupweteka pachifuwa\b/],
+      bem: [/\bukukalipwa mu cifuba\b/],
+    },
+  },
+  {
+    id: "stroke",
+    label: {
+      en: "Signs of stroke",
+      ny: "Zizindikiro za sitiroko",
+      bem: "Ifishibilo fya sitroko",
+    },
+    patterns: {
+      en: [
+        /\b(having|had) a stroke\b/,
+        /\bface (is )?drooping\b/,
+        /\bslurred speech\b/,
+        /\bweak(ness)? on one side\b/,
+      ],
+      // Not detected in Nyanja or Bemba yet, see the known gap above
+      ny: [],
+      bem: [],
+    },
+  },
+  {
+    id: "pregnancy-danger",
+    label: {
+      en: "Pregnancy danger signs",
+      ny: "Zizindikiro zoopsa za mimba",
+      bem: "Ifishibilo fya busanso mu bufumo",
+    },
+    patterns: {
+      en: [
+        /\bpregnan\w*.*\b(severe headache|blurred vision|fits|convuls|bleeding)/,
+        /\b(waters? broke|water has broken)\b.*\b(bleeding|fever)\b/,
+      ],
+      // Not detected in Nyanja or Bemba yet, see the known gap above
+      ny: [],
+      bem: [],
+    },
+  },
+  {
+    id: "poisoning",
+    label: {
+      en: "Poisoning or overdose",
+      ny: "Chiphe kapena mankhwala ochuluka kwambiri",
+      bem: "Poizoni nangu umuti uwingi sana",
+    },
+    patterns: {
+      en: [
+        /\bpoisoned\b/,
+        /\b(drank|swallowed|ate|took) (some |a )?(poison|bleach|paraffin|pesticide|rat poison)/,
+        /\b(took|taken|had) an overdose\b/,
+        /\boverdosed\b/,
+      ],
+      ny: [/\bpoizoni\b/, /\bchiphe\b/],
+      bem: [/\bpoizoni\b/],
+    },
+  },
+  {
+    id: "snakebite",
+    label: {
+      en: "Snakebite",
+      ny: "Walumidwa ndi njoka",
+      bem: "Alumwa ne nsoka",
+    },
+    firstAid: {
+      en: "Keep the person still and the bitten limb below the heart. Do not cut or suck the wound.",
+      ny: "Munthuyo akhale chete ndipo chiwalo cholumidwacho chikhale pansi pa mtima. Musadule kapena kuyamwa chilondacho.",
+      bem: "Umuntu ekale tondolo kabili ulubali ulwalumwa lube pe samba lya mutima. Mwilepa nangu ukonka icilonda.",
+    },
+    patterns: {
+      en: [/\bsnake ?bite\b/, /\bbitten by a snake\b/],
+      ny: [/\bwalumidwa ndi njoka\b/],
+      bem: [/\balumwa ne nsoka\b/],
+    },
+  },
+  {
+    id: "self-harm",
+    label: {
+      en: "Thoughts of suicide or self-harm",
+      ny: "Maganizo ofuna kudzipha kapena kudzivulaza",
+      bem: "Amatontonkanyo ya kuipaya nangu ukuicena",
+    },
+    contacts: [
+      {
+        label: {
+          en: "Lifeline Zambia (free, 24 hours)",
+          ny: "Lifeline Zambia (kwaulere, maola 24)",
+          bem: "Lifeline Zambia (ukwabula ukulipila, insa 24)",
+        },
+        number: "933",
+      },
+    ],
+    patterns: {
+      en: [/\b(kill|hurt|harm) (myself|himself|herself)\b/, /\bsuicid/, /\bwant to die\b/],
+      ny: [/\bndikufuna kufa\b/],
+      bem: [/\bndefwaya ukufwa\b/],
+    },
+  },
+];
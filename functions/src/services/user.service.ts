@@ -0,0 +1,55 @@
+/**
+ * User Service
+ * Manages user profiles stored in Firestore
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import type { UserProfile } from "@umoyo/shared";
+import { getUserRole } from "../middleware/auth.middleware";
+
+const USERS_COLLECTION = "users";
+
+class UserService {
+  /**
+   * Returns the profile for the authenticated user, creating it on first sign-in.
+   * The role always reflects the current custom claim.
+   */
+  async getOrCreateProfile(user: DecodedIdToken): Promise<UserProfile> {
+    const ref = getFirestore().collection(USERS_COLLECTION).doc(user.uid);
+    const snapshot = await ref.get();
+    const now = Timestamp.now();
+    const role = getUserRole(user);
+
+    if (!snapshot.exists) {
+      const profile = {
+        uid: user.uid,
+        email: user.email || "",
+        ...(user.name ? { displayName: user.name as string } : {}),
+        role,
+        createdAt: now,
+        lastLoginAt: now,
+      };
+      await ref.set(profile);
+      return {
+        ...profile,
+        createdAt: now.toDate(),
+        lastLoginAt: now.toDate(),
+      };
+    }
+
+    await ref.update({ role, lastLoginAt: now });
+    const data = snapshot.data() ?? {};
+
+    return {
+      uid: user.uid,
+      email: data.email ?? user.email ?? "",
+      displayName: data.displayName ?? user.name,
+      role,
+      createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? now.toDate(),
+      lastLoginAt: now.toDate(),
+    };
+  }
+}
+
+export const userService = new UserService();
@@ -0,0 +1,51 @@
+/**
+ * Recorded WHO Responses
+ * Replays Disease Outbreak News responses saved in a fixtures folder so
+ * outbreak ingestion runs offline, and records them from a live client.
+ * Files are named after the format: `don.json` or `don.xml`.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { DonFormat, WhoClient } from "./who.types";
+
+export function fixtureFileName(format: DonFormat): string {
+  return format === "rss" ? "don.xml" : "don.json";
+}
+
+export class FixtureWhoClient implements WhoClient {
+  readonly name = "who-fixtures";
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async request(format: DonFormat): Promise<string> {
+    const file = path.join(this.fixturesDir, fixtureFileName(format));
+    try {
+      return await readFile(file, "utf8");
+    } catch {
+      throw new Error(
+        `No WHO fixture for Disease Outbreak News (${format}) (${file}). ` +
+          "Record it with WHO_DON_MODE=record."
+      );
+    }
+  }
+}
+
+/**
+ * Passes requests to a live client and saves each response as a fixture
+ */
+export class RecordingWhoClient implements WhoClient {
+  readonly name = "who-recording";
+
+  constructor(
+    private readonly live: WhoClient,
+    private readonly fixturesDir: string
+  ) {}
+
+  async request(format: DonFormat): Promise<string> {
+    const body = await this.live.request(format);
+    await mkdir(this.fixturesDir, { recursive: true });
+    await writeFile(path.join(this.fixturesDir, fixtureFileName(format)), body, "utf8");
+    return body;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * WHO HTTP Client
+ * Fetches the Disease Outbreak News listing from the WHO news API or the
+ * RSS feed. Rate-limit and server errors are retried.
+ */
+
+import { TimeoutError, withRetry } from "../../utils/retry";
+import type { DonFormat, WhoClient } from "./who.types";
+
+const DON_API_URL = "https://www.who.int/api/news/diseaseoutbreaknews";
+const DON_RSS_URL = "https://www.who.int/feeds/entity/csr/don/en/rss.xml";
+
+export class WhoError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "WhoError";
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof WhoError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Network failures surface from fetch as TypeError
+  return error instanceof TimeoutError || error instanceof TypeError;
+}
+
+interface HttpWhoClientOptions {
+  /** Newest items fetched from the news API */
+  pageSize?: number;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export class HttpWhoClient implements WhoClient {
+  readonly name = "who";
+
+  constructor(private readonly options: HttpWhoClientOptions = {}) {}
+
+  async request(format: DonFormat): Promise<string> {
+    const { pageSize = 100, timeoutMs = 15000, retries = 3 } = this.options;
+    const url =
+      format === "rss"
+        ? DON_RSS_URL
+        : `${DON_API_URL}?${new URLSearchParams({
+            sf_culture: "en",
+            $orderby: "PublicationDateAndTime desc",
+            $top: String(pageSize),
+          })}`;
+
+    return withRetry(
+      async () => {
+        const response = await fetch(url);
+        const body = await response.text();
+        if (!response.ok) {
+          throw new WhoError(
+            response.status,
+            `WHO Disease Outbreak News (${format}) returned ${response.status}: ${body.slice(0, 200)}`
+          );
+        }
+        return body;
+      },
+      { retries, timeoutMs, baseDelayMs: 1000, isRetryable }
+    );
+  }
+}
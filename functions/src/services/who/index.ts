@@ -0,0 +1,35 @@
+import path from "node:path";
+import { HttpWhoClient } from "./http.client";
+import { FixtureWhoClient, RecordingWhoClient } from "./fixture.client";
+import type { WhoClient } from "./who.types";
+
+export type { DonFormat, DonItem, DonResponse, WhoClient } from "./who.types";
+export { WhoError } from "./http.client";
+export { countriesOf, diseaseOf, inRegion, parseOutbreakNews, regionOf } from "./outbreaks";
+
+/**
+ * Creates the WHO client selected by WHO_DON_MODE
+ * (`live` | `record` | `replay`)
+ */
+export function createWhoClient(): WhoClient {
+  const mode = process.env.WHO_DON_MODE || "live";
+  const fixturesDir = path.resolve(process.env.WHO_DON_FIXTURES_DIR || "./fixtures/who");
+
+  const live = () =>
+    new HttpWhoClient({
+      pageSize: parseInt(process.env.WHO_DON_PAGE_SIZE || "100", 10),
+      timeoutMs: parseInt(process.env.WHO_DON_TIMEOUT_MS || "15000", 10),
+      retries: parseInt(process.env.WHO_DON_MAX_RETRIES || "3", 10),
+    });
+
+  switch (mode) {
+    case "live":
+      return live();
+    case "record":
+      return new RecordingWhoClient(live(), fixturesDir);
+    case "replay":
+      return new FixtureWhoClient(fixturesDir);
+    default:
+      throw new Error(`Unknown WHO_DON_MODE: ${mode}`);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Converts WHO Disease Outbreak News items into outbreak alerts tagged with
+ * the disease, the countries and the region they concern
+ */
+
+import { createHash } from "node:crypto";
+import type { DocumentRegion, OutbreakAlert } from "@umoyo/shared";
+import { childElements, decodeEntities, findElement, parseXml, textContent } from "../../utils/xml";
+import type { DonFormat, DonItem, DonResponse } from "./who.types";
+
+const MAX_SUMMARY_LENGTH = 600;
+const ITEM_BASE_URL = "https://www.who.int/emergencies/disease-outbreak-news/item/";
+
+/** Zambia's neighbours and the rest of southern Africa */
+const SOUTHERN_AFRICA = new Set([
+  "angola",
+  "botswana",
+  "comoros",
+  "democratic republic of the congo",
+  "eswatini",
+  "lesotho",
+  "madagascar",
+  "malawi",
+  "mauritius",
+  "mozambique",
+  "namibia",
+  "south africa",
+  "tanzania",
+  "zambia",
+  "zimbabwe",
+]);
+
+/** Other spellings in WHO titles, mapped to the names above */
+const COUNTRY_ALIASES: Record<string, string> = {
+  drc: "democratic republic of the congo",
+  "dr congo": "democratic republic of the congo",
+  "democratic republic of congo": "democratic republic of the congo",
+  "united republic of tanzania": "tanzania",
+  swaziland: "eswatini",
+};
+
+/** Diseases recognised in titles, longest names first so they win */
+const DISEASES = [
+  "marburg virus disease",
+  "ebola virus disease",
+  "rift valley fever",
+  "avian influenza",
+  "yellow fever",
+  "poliomyelitis",
+  "meningitis",
+  "diphtheria",
+  "anthrax",
+  "cholera",
+  "measles",
+  "dengue",
+  "plague",
+  "typhoid",
+  "mpox",
+];
+
+const DISEASE_ALIASES: Record<string, string> = {
+  monkeypox: "mpox",
+  polio: "poliomyelitis",
+  "ebola virus": "ebola virus disease",
+  "marburg virus": "marburg virus disease",
+};
+
+/** Title parts after the dash that are not countries */
+const NOT_COUNTRIES = /situation|global|multi-country|update|report/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, name: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(name)}\\b`, "i").test(text);
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ").replace(/&nbsp;/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function normalizeCountry(name: string): string {
+  const clean = name
+    .replace(/\(.*?\)/g, "")
+    .replace(/^the\s+/i, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+  return COUNTRY_ALIASES[clean] ?? clean;
+}
+
+/**
+ * "Cholera - Zambia" or "Mpox – Democratic Republic of the Congo and Zambia"
+ * into the disease part and the country part
+ */
+function splitTitle(title: string): { subject: string; place?: string } {
+  const [subject, ...rest] = title.split(/\s[-–—]\s/);
+  return { subject: subject.trim(), place: rest.length > 0 ? rest.join(" - ") : undefined };
+}
+
+export function diseaseOf(title: string): string {
+  const known = [...DISEASES, ...Object.keys(DISEASE_ALIASES)].find((name) =>
+    mentions(title, name)
+  );
+  if (known) {
+    return DISEASE_ALIASES[known] ?? known;
+  }
+  return splitTitle(title).subject.toLowerCase();
+}
+
+/**
+ * Countries named after the title's dash, plus southern African countries
+ * mentioned anywhere, so multi-country reports covering Zambia's
+ * neighbours are tagged with them
+ */
+export function countriesOf(title: string, summary: string): string[] {
+  const { place } = splitTitle(title);
+  const countries = new Set(
+    (place ?? "")
+      .split(/,|\band\b/)
+      .map(normalizeCountry)
+      .filter((country) => country && !NOT_COUNTRIES.test(country))
+  );
+  const text = `${title} ${summary}`;
+  for (const name of [...SOUTHERN_AFRICA, ...Object.keys(COUNTRY_ALIASES)]) {
+    if (mentions(text, name)) {
+      countries.add(COUNTRY_ALIASES[name] ?? name);
+    }
+  }
+  return [...countries].sort();
+}
+
+export function regionOf(countries: string[]): DocumentRegion {
+  if (countries.includes("zambia")) return "zambia";
+  if (countries.some((country) => SOUTHERN_AFRICA.has(country))) return "southern-africa";
+  return "global";
+}
+
+/**
+ * Whether an outbreak belongs in a region's listing: `southern-africa`
+ * includes Zambia and `global` includes everything
+ */
+export function inRegion(outbreak: OutbreakAlert, region: DocumentRegion): boolean {
+  switch (region) {
+    case "zambia":
+      return outbreak.region === "zambia";
+    case "southern-africa":
+      return outbreak.region !== "global";
+    case "global":
+      return true;
+  }
+}
+
+function outbreakId(key: string): string {
+  const slug = key
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `who-don-${slug || createHash("sha256").update(key).digest("hex").slice(0, 16)}`;
+}
+
+function toAlert(item: {
+  key: string;
+  title: string;
+  summary: string;
+  published: Date;
+  url: string;
+}): OutbreakAlert {
+  const countries = countriesOf(item.title, item.summary);
+  return {
+    outbreakId: outbreakId(item.key),
+    title: item.title,
+    disease: diseaseOf(item.title),
+    countries,
+    region: regionOf(countries),
+    summary: truncate(item.summary, MAX_SUMMARY_LENGTH),
+    date: item.published.toISOString().slice(0, 10),
+    url: item.url,
+    source: "WHO",
+  };
+}
+
+function parseApiItems(body: string): OutbreakAlert[] {
+  const items = (JSON.parse(body) as DonResponse).value ?? [];
+  return items.flatMap((item: DonItem): OutbreakAlert[] => {
+    const title = htmlToText(item.Title ?? "");
+    const published = new Date(item.PublicationDate);
+    const page = item.UrlName ?? item.ItemDefaultUrl?.replace(/^\//, "");
+    if (!title || !page || Number.isNaN(published.getTime())) return [];
+
+    return [
+      toAlert({
+        key: item.DonId || page,
+        title,
+        summary: htmlToText(item.Summary || item.Overview || ""),
+        published,
+        url: `${ITEM_BASE_URL}${page}`,
+      }),
+    ];
+  });
+}
+
+function parseRssItems(xml: string): OutbreakAlert[] {
+  const channel = findElement(parseXml(xml), "rss", "channel");
+  if (!channel) {
+    throw new Error("Disease Outbreak News feed has no rss channel");
+  }
+
+  return childElements(channel, "item").flatMap((item): OutbreakAlert[] => {
+    const title = htmlToText(textContent(findElement(item, "title")));
+    const url = textContent(findElement(item, "link")).trim();
+    const published = new Date(textContent(findElement(item, "pubDate")));
+    if (!title || !url || Number.isNaN(published.getTime())) return [];
+
+    return [
+      toAlert({
+        key: url.replace(/\/+$/, "").split("/").pop() ?? url,
+        title,
+        summary: htmlToText(textContent(findElement(item, "description"))),
+        published,
+        url,
+      }),
+    ];
+  });
+}
+
+/**
+ * Parses a news API or RSS response, newest first
+ */
+export function parseOutbreakNews(body: string, format: DonFormat): OutbreakAlert[] {
+  const alerts = format === "rss" ? parseRssItems(body) : parseApiItems(body);
+  return alerts.sort((a, b) => b.date.localeCompare(a.date));
+}
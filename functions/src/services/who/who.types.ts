@@ -0,0 +1,34 @@
+/**
+ * - `json`: The WHO news API's Disease Outbreak News listing
+ * - `rss`: The Disease Outbreak News RSS feed
+ */
+export type DonFormat = "json" | "rss";
+
+/**
+ * Transport for WHO requests, so the service can run against the live feed
+ * or recorded fixtures. Returns the raw response body.
+ */
+export interface WhoClient {
+  readonly name: string;
+  request(format: DonFormat): Promise<string>;
+}
+
+/** The fields of a WHO news API item that outbreak alerts use */
+export interface DonItem {
+  Id?: string;
+  DonId?: string;
+  Title: string;
+  /** Path segment of the item page, e.g. "2024-DON512" */
+  UrlName?: string;
+  ItemDefaultUrl?: string;
+  /** ISO date time */
+  PublicationDate: string;
+  /** HTML */
+  Summary?: string;
+  /** HTML */
+  Overview?: string;
+}
+
+export interface DonResponse {
+  value?: DonItem[];
+}
@@ -0,0 +1,29 @@
+import { initTRPC } from "@trpc/server";
+import type { Context } from "./context";
+import { requireRole, requireUser } from "./middleware/auth.middleware";
+
+const t = initTRPC.context<Context>().create({
+  sse: {
+    // Keeps slow generations alive through proxies that drop idle connections
+    ping: { enabled: true, intervalMs: 15_000 },
+  },
+});
+
+export const router = t.router;
+export const publicProcedure = t.procedure;
+
+/**
+ * Procedure requiring a signed-in user
+ */
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  const user = requireUser(ctx.user);
+  return next({ ctx: { ...ctx, user } });
+});
+
+/**
+ * Procedure restricted to verified healthcare professionals
+ */
+export const professionalProcedure = t.procedure.use(({ ctx, next }) => {
+  const user = requireRole(ctx.user, "healthcare-professional");
+  return next({ ctx: { ...ctx, user } });
+});
@@ -0,0 +1,27 @@
+/**
+ * Spacing for APIs with a requests-per-second limit
+ */
+
+import { sleep } from "./retry";
+
+/**
+ * Hands out evenly spaced request slots. Callers await `acquire()` before
+ * each request, including retries.
+ */
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number) {
+    this.intervalMs = Math.ceil(1000 / requestsPerSecond);
+  }
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Timeout and retry helpers for calls to external services
+ */
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Operation timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+interface RetryOptions {
+  /** Additional attempts after the first one */
+  retries: number;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Rejects with a TimeoutError if the promise does not settle in time
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs an operation with a per-attempt timeout, retrying retryable failures
+ * with exponential backoff and jitter
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { retries, timeoutMs, baseDelayMs = 500, isRetryable = () => true } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = operation(attempt);
+      return await (timeoutMs ? withTimeout(result, timeoutMs) : result);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = baseDelayMs * 2 ** attempt;
+      await sleep(delay + Math.random() * delay * 0.2);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { decodeEntities, findElement, parseXml, textContent } from "./xml";
+
+describe("decodeEntities", () => {
+  it("decodes named, decimal and hexadecimal entities", () => {
+    expect(decodeEntities("a &amp; b &lt;5 &#946; &#x2013; &quot;x&quot;")).toBe(
+      'a & b <5 β – "x"'
+    );
+  });
+
+  it("leaves unknown entities as they are", () => {
+    expect(decodeEntities("&nbsp; &copy;")).toBe("&nbsp; &copy;");
+  });
+});
+
+describe("parseXml", () => {
+  it("reads attributes, including quoted >", () => {
+    const document = parseXml(`<a title="x > y" kind='z'><b/></a>`);
+    const a = findElement(document, "a");
+
+    expect(a?.attributes).toEqual({ title: "x > y", kind: "z" });
+    expect(findElement(a, "b")).toBeDefined();
+  });
+
+  it("skips the declaration, DOCTYPE and comments and keeps CDATA as is", () => {
+    const document = parseXml(
+      `<?xml version="1.0"?><!DOCTYPE a [<!ENTITY x "y">]><a><!-- note --><![CDATA[<i>&amp;</i>]]></a>`
+    );
+
+    expect(textContent(findElement(document, "a"))).toBe("<i>&amp;</i>");
+  });
+
+  it("flattens inline markup and collapses whitespace", () => {
+    const document = parseXml("<p>Treat\n   <i>P. falciparum</i>  early</p>");
+
+    expect(textContent(findElement(document, "p"))).toBe("Treat P. falciparum early");
+  });
+
+  it("rejects mismatched and unclosed elements", () => {
+    expect(() => parseXml("<a><b></a>")).toThrow("unexpected </a>");
+    expect(() => parseXml("<a><b></b>")).toThrow("<a> is not closed");
+  });
+});
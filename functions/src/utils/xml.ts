@@ -0,0 +1,167 @@
+/**
+ * Minimal XML reader for E-utilities and RSS responses. It handles elements,
+ * attributes, entities, CDATA, comments and the DOCTYPE header; it does not
+ * resolve namespaces or external entities.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const code =
+        body[1] === "x" || body[1] === "X" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[body] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+function indexAfter(xml: string, token: string, from: number): number {
+  const index = xml.indexOf(token, from);
+  if (index === -1) {
+    throw new Error(`Malformed XML: missing "${token}" after offset ${from}`);
+  }
+  return index + token.length;
+}
+
+/** End of a start tag, skipping ">" inside quoted attribute values */
+function tagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  throw new Error(`Malformed XML: unterminated tag at offset ${from}`);
+}
+
+/** End of a DOCTYPE declaration, which may hold an internal subset in [...] */
+function doctypeEnd(xml: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < xml.length; i++) {
+    if (xml[i] === "[") depth++;
+    else if (xml[i] === "]") depth--;
+    else if (xml[i] === ">" && depth === 0) return i + 1;
+  }
+  throw new Error(`Malformed XML: unterminated declaration at offset ${from}`);
+}
+
+/**
+ * Parses a document into a tree under a synthetic `#document` root
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  let position = 0;
+
+  while (position < xml.length) {
+    const open = xml.indexOf("<", position);
+    if (open === -1) {
+      current().children.push(decodeEntities(xml.slice(position)));
+      break;
+    }
+    if (open > position) {
+      current().children.push(decodeEntities(xml.slice(position, open)));
+    }
+
+    if (xml.startsWith("<!--", open)) {
+      position = indexAfter(xml, "-->", open);
+    } else if (xml.startsWith("<![CDATA[", open)) {
+      const end = indexAfter(xml, "]]>", open);
+      current().children.push(xml.slice(open + 9, end - 3));
+      position = end;
+    } else if (xml.startsWith("<?", open)) {
+      position = indexAfter(xml, "?>", open);
+    } else if (xml.startsWith("<!", open)) {
+      position = doctypeEnd(xml, open);
+    } else if (xml[open + 1] === "/") {
+      const end = indexAfter(xml, ">", open);
+      const name = xml.slice(open + 2, end - 1).trim();
+      if (stack.length === 1 || current().name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}> at offset ${open}`);
+      }
+      stack.pop();
+      position = end;
+    } else {
+      const end = tagEnd(xml, open);
+      const selfClosing = xml[end - 1] === "/";
+      const body = xml.slice(open + 1, selfClosing ? end - 1 : end);
+      const nameEnd = body.search(/\s|$/);
+      const element: XmlElement = {
+        name: body.slice(0, nameEnd),
+        attributes: parseAttributes(body.slice(nameEnd)),
+        children: [],
+      };
+      current().children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${current().name}> is not closed`);
+  }
+  return root;
+}
+
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== "string" && (!name || child.name === name)
+  );
+}
+
+/**
+ * First element reached by following child names, e.g.
+ * `findElement(article, "Journal", "JournalIssue", "PubDate")`
+ */
+export function findElement(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let found = element;
+  for (const name of path) {
+    found = childElements(found, name)[0];
+    if (!found) return undefined;
+  }
+  return found;
+}
+
+/**
+ * Text of an element and its descendants with whitespace collapsed.
+ * Inline markup such as <i> or <sup> is flattened.
+ */
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) return "";
+  const collect = (node: XmlNode): string =>
+    typeof node === "string" ? node : node.children.map(collect).join("");
+  return collect(element).replace(/\s+/g, " ").trim();
+}
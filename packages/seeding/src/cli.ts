@@ -0,0 +1,224 @@
+/**
+ * Seeding CLI
+ * `seeding corpus <create|list|diff|sync|delete>` manages what the retrieval
+ * backend has indexed, comparing it with the local corpus folder the
+ * ingestion scripts write. Mutating commands accept `--dry-run`; every
+ * command prints JSON with `--json`.
+ */
+
+import { parseArgs } from "node:util";
+import type { CorpusDocument } from "@umoyo/shared";
+import {
+  createCorpusTarget,
+  diffCorpus,
+  type CorpusBackend,
+  type CorpusDiff,
+  type CorpusTarget,
+  type IndexedDocument,
+} from "./corpus";
+import { readCorpusDocuments } from "./local-corpus";
+
+const USAGE = `Usage: seeding corpus <command> [options]
+
+Commands:
+  create                 Create the corpus if it does not exist
+  list                   List indexed documents with their metadata
+  diff                   Compare the local corpus with the indexed documents
+  sync                   Upload new and changed documents, remove deleted ones
+  delete <documentId>    Remove one document from the index
+
+Options:
+  --backend <local|vertex>  Retrieval backend (default: CORPUS_BACKEND or vertex)
+  --source <dir>            Local corpus folder (default: LOCAL_CORPUS_DIR or ./corpus)
+  --target <dir>            Folder the local backend serves (default: CORPUS_TARGET_DIR)
+  --dry-run                 Report what create, sync or delete would change
+  --json                    Print the result as JSON`;
+
+interface CommandContext {
+  target: CorpusTarget;
+  sourceDir: string;
+  dryRun: boolean;
+}
+
+interface CommandResult {
+  /** Machine-readable result printed with `--json` */
+  result: object;
+  text: string;
+}
+
+async function readSource(sourceDir: string): Promise<CorpusDocument[]> {
+  const { documents, invalid } = await readCorpusDocuments(sourceDir);
+  if (invalid.length > 0) {
+    console.warn(`Skipping invalid documents in ${sourceDir}: ${invalid.join(", ")}`);
+  }
+  return documents;
+}
+
+function formatDiff(diff: CorpusDiff): string[] {
+  return [
+    ...diff.added.map((documentId) => `+ ${documentId}`),
+    ...diff.changed.map((documentId) => `~ ${documentId}`),
+    ...diff.removed.map((documentId) => `- ${documentId}`),
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed, ` +
+      `${diff.unchanged.length} unchanged`,
+  ];
+}
+
+function formatDocument(document: IndexedDocument): string {
+  const { metadata } = document;
+  if (!metadata) {
+    return `${document.documentId}  (no metadata, not retrievable)`;
+  }
+  const tags = [
+    metadata.category,
+    metadata.audience,
+    metadata.region,
+    metadata.language,
+    metadata.lastUpdated,
+  ];
+  return `${document.documentId}  ${document.chunks} chunks  ${tags.join(" ")}  ${metadata.title}`;
+}
+
+async function create({ target, dryRun }: CommandContext): Promise<CommandResult> {
+  const exists = await target.exists();
+  const created = exists ? false : dryRun ? true : await target.create();
+  const verb = dryRun ? "Would create" : "Created";
+  return {
+    result: { backend: target.name, location: target.location, created, dryRun },
+    text: created ? `${verb} ${target.location}` : `${target.location} already exists`,
+  };
+}
+
+async function list({ target }: CommandContext): Promise<CommandResult> {
+  const documents = await target.list();
+  return {
+    result: { backend: target.name, location: target.location, documents },
+    text: [
+      ...documents.map(formatDocument),
+      `${documents.length} documents in ${target.location}`,
+    ].join("\n"),
+  };
+}
+
+async function diff({ target, sourceDir }: CommandContext): Promise<CommandResult> {
+  const result = diffCorpus(await readSource(sourceDir), await target.list());
+  return {
+    result: { backend: target.name, location: target.location, source: sourceDir, diff: result },
+    text: formatDiff(result).join("\n"),
+  };
+}
+
+async function sync({ target, sourceDir, dryRun }: CommandContext): Promise<CommandResult> {
+  const documents = await readSource(sourceDir);
+  const result = diffCorpus(documents, await target.list());
+  if (documents.length === 0 && result.removed.length > 0) {
+    // An empty or mistyped source folder would otherwise empty the index
+    throw new Error(
+      `${sourceDir} has no documents; refusing to remove all ${result.removed.length} indexed documents`
+    );
+  }
+
+  if (!dryRun) {
+    const upload = new Set([...result.added, ...result.changed]);
+    await target.upsert(documents.filter((document) => upload.has(document.metadata.documentId)));
+    await target.remove(result.removed);
+  }
+  return {
+    result: {
+      backend: target.name,
+      location: target.location,
+      source: sourceDir,
+      diff: result,
+      dryRun,
+    },
+    text: [
+      ...formatDiff(result),
+      dryRun ? "Dry run: nothing was changed" : `Synced ${target.location}`,
+    ].join("\n"),
+  };
+}
+
+async function remove(
+  { target, dryRun }: CommandContext,
+  documentId: string | undefined
+): Promise<CommandResult> {
+  if (!documentId) {
+    throw new Error("corpus delete needs a documentId");
+  }
+  const indexed = (await target.list()).some((document) => document.documentId === documentId);
+  if (!indexed) {
+    throw new Error(`${documentId} is not indexed in ${target.location}`);
+  }
+  if (!dryRun) {
+    await target.remove([documentId]);
+  }
+  return {
+    result: {
+      backend: target.name,
+      location: target.location,
+      documentId,
+      deleted: !dryRun,
+      dryRun,
+    },
+    text: `${dryRun ? "Would delete" : "Deleted"} ${documentId} from ${target.location}`,
+  };
+}
+
+export async function runCorpusCommand(args: string[]): Promise<CommandResult> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      backend: { type: "string", default: process.env.CORPUS_BACKEND || "vertex" },
+      source: { type: "string", default: process.env.LOCAL_CORPUS_DIR || "./corpus" },
+      target: { type: "string", default: process.env.CORPUS_TARGET_DIR },
+      "dry-run": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+  const [command, documentId] = positionals;
+  if (values.backend !== "local" && values.backend !== "vertex") {
+    throw new Error(`Unknown backend: ${values.backend}`);
+  }
+
+  const context: CommandContext = {
+    target: createCorpusTarget(values.backend as CorpusBackend, values.target),
+    sourceDir: values.source,
+    dryRun: values["dry-run"],
+  };
+  switch (command) {
+    case "create":
+      return create(context);
+    case "list":
+      return list(context);
+    case "diff":
+      return diff(context);
+    case "sync":
+      return sync(context);
+    case "delete":
+      return remove(context, documentId);
+    default:
+      throw new Error(`Unknown corpus command: ${command ?? "(none)"}\n\n${USAGE}`);
+  }
+}
+
+// CLI entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [group, ...args] = process.argv.slice(2);
+  const json = args.includes("--json");
+
+  if (group !== "corpus") {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  runCorpusCommand(args)
+    .then(({ result, text }) => {
+      console.log(json ? JSON.stringify(result, null, 2) : text);
+      process.exit(0);
+    })
+    .catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(json ? JSON.stringify({ error: message }) : message);
+      process.exit(1);
+    });
+}
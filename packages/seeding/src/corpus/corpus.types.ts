@@ -0,0 +1,28 @@
+import type { CorpusDocument, DocumentMetadata } from "@umoyo/shared";
+
+/** A document as the retrieval backend currently holds it */
+export interface IndexedDocument {
+  documentId: string;
+  /** Missing for files the backend holds without metadata */
+  metadata?: DocumentMetadata;
+  /** Hash of the content last synced; missing when unknown or incomplete */
+  contentHash?: string;
+  chunks: number;
+}
+
+/**
+ * Where `corpus sync` publishes documents: the folder the local retrieval
+ * backend reads, or the Vertex AI RAG corpus with its Firestore metadata
+ */
+export interface CorpusTarget {
+  readonly name: string;
+  /** Where the documents live, for logs and reports */
+  readonly location: string;
+  exists(): Promise<boolean>;
+  /** Creates the corpus; false when it already exists */
+  create(): Promise<boolean>;
+  list(): Promise<IndexedDocument[]>;
+  /** Adds or replaces documents */
+  upsert(documents: CorpusDocument[]): Promise<void>;
+  remove(documentIds: string[]): Promise<void>;
+}
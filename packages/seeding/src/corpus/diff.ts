@@ -0,0 +1,41 @@
+import type { CorpusDocument } from "@umoyo/shared";
+import { contentHash } from "../local-corpus";
+import type { IndexedDocument } from "./corpus.types";
+
+/** Document ids by how the index differs from the local corpus */
+export interface CorpusDiff {
+  /** In the local corpus only */
+  added: string[];
+  /** Indexed with different content or metadata */
+  changed: string[];
+  /** Indexed but no longer in the local corpus */
+  removed: string[];
+  unchanged: string[];
+}
+
+export function diffCorpus(local: CorpusDocument[], indexed: IndexedDocument[]): CorpusDiff {
+  const indexedById = new Map(indexed.map((document) => [document.documentId, document]));
+  const localIds = new Set<string>();
+  const diff: CorpusDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  for (const document of local) {
+    const { documentId } = document.metadata;
+    if (localIds.has(documentId)) {
+      throw new Error(`Document ${documentId} appears more than once in the local corpus`);
+    }
+    localIds.add(documentId);
+
+    const current = indexedById.get(documentId);
+    if (!current) {
+      diff.added.push(documentId);
+    } else if (current.contentHash !== contentHash(document)) {
+      diff.changed.push(documentId);
+    } else {
+      diff.unchanged.push(documentId);
+    }
+  }
+  diff.removed = indexed
+    .map((document) => document.documentId)
+    .filter((documentId) => !localIds.has(documentId));
+  return diff;
+}
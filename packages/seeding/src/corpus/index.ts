@@ -0,0 +1,34 @@
+import { LocalCorpusTarget } from "./local.target";
+import { VertexCorpusTarget } from "./vertex.target";
+import type { CorpusTarget } from "./corpus.types";
+
+export type { CorpusTarget, IndexedDocument } from "./corpus.types";
+export type { CorpusDiff } from "./diff";
+export { diffCorpus } from "./diff";
+
+export type CorpusBackend = "local" | "vertex";
+
+/**
+ * Creates the target for a retrieval backend. `directory` is the folder the
+ * local backend reads; Vertex is configured from the environment.
+ */
+export function createCorpusTarget(backend: CorpusBackend, directory?: string): CorpusTarget {
+  switch (backend) {
+    case "local":
+      if (!directory) {
+        throw new Error(
+          "The local backend needs the folder it serves: pass --target or set CORPUS_TARGET_DIR"
+        );
+      }
+      return new LocalCorpusTarget(directory);
+    case "vertex":
+      return new VertexCorpusTarget({
+        projectId: process.env.GCP_PROJECT_ID || "",
+        location: process.env.GCP_LOCATION || "us-central1",
+        corpusName: process.env.RAG_CORPUS_NAME || "umoyo-health-corpus",
+        description: "Umoyo Health Hub medical knowledge corpus",
+        bucketName: process.env.GCS_BUCKET_NAME || "umoyo-health-corpus",
+        prefix: process.env.RAG_STAGING_PREFIX || "rag/",
+      });
+  }
+}
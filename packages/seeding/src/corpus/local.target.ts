@@ -0,0 +1,69 @@
+/**
+ * Local Corpus Target
+ * The folder of corpus documents the local retrieval backend loads
+ * (`LOCAL_CORPUS_DIR` of the functions)
+ */
+
+import { mkdir, stat } from "node:fs/promises";
+import path from "node:path";
+import type { CorpusDocument } from "@umoyo/shared";
+import {
+  contentHash,
+  readCorpusDocuments,
+  removeCorpusDocument,
+  writeCorpusDocument,
+} from "../local-corpus";
+import type { CorpusTarget, IndexedDocument } from "./corpus.types";
+
+export class LocalCorpusTarget implements CorpusTarget {
+  readonly name = "local";
+  readonly location: string;
+
+  constructor(directory: string) {
+    this.location = path.resolve(directory);
+  }
+
+  exists(): Promise<boolean> {
+    return stat(this.location).then(
+      (stats) => stats.isDirectory(),
+      () => false
+    );
+  }
+
+  async create(): Promise<boolean> {
+    const exists = await this.exists();
+    await mkdir(this.location, { recursive: true });
+    return !exists;
+  }
+
+  async list(): Promise<IndexedDocument[]> {
+    const { documents, invalid } = await readCorpusDocuments(this.location).catch((error) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`${this.location} does not exist; run corpus create first`);
+      }
+      throw error;
+    });
+    if (invalid.length > 0) {
+      // The retrieval backend skips these too, so they count as not indexed
+      console.warn(`Skipping invalid corpus documents in ${this.location}: ${invalid.join(", ")}`);
+    }
+    return documents.map((document) => ({
+      documentId: document.metadata.documentId,
+      metadata: document.metadata,
+      contentHash: contentHash(document),
+      chunks: document.chunks.length,
+    }));
+  }
+
+  async upsert(documents: CorpusDocument[]): Promise<void> {
+    for (const document of documents) {
+      await writeCorpusDocument(this.location, document);
+    }
+  }
+
+  async remove(documentIds: string[]): Promise<void> {
+    for (const documentId of documentIds) {
+      await removeCorpusDocument(this.location, documentId);
+    }
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Vertex AI Corpus Target
+ * Publishes documents to the Vertex AI RAG corpus the vertex retrieval
+ * backend queries. Each section-aware chunk is staged in Cloud Storage as
+ * `<documentId>/<position>.txt` and imported as its own RAG file, so
+ * retrieval can map a context back to the stored chunk, its page and its
+ * section. Metadata and chunk texts go to the Firestore `documents`
+ * collection the backend reads.
+ */
+
+import { VertexRagDataServiceClient } from "@google-cloud/aiplatform";
+import { Storage } from "@google-cloud/storage";
+import { getApps, initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { documentMetadataSchema, type CorpusDocument } from "@umoyo/shared";
+import { ragSourceLocation } from "@umoyo/functions/src/services/retrieval/vertex.backend";
+import { contentHash } from "../local-corpus";
+import type { CorpusTarget, IndexedDocument } from "./corpus.types";
+
+/** Same layout as `functions/src/services/retrieval/vertex.backend.ts` */
+const DOCUMENTS_COLLECTION = "documents";
+const CHUNKS_COLLECTION = "chunks";
+
+/**
+ * Token-based chunking applied by the RAG import. Chunks are already cut
+ * at sections, so the limit only splits the rare oversized table or list.
+ */
+const RAG_CHUNK_SIZE = 1024;
+const RAG_CHUNK_OVERLAP = 0;
+/** Document folders imported per request */
+const IMPORT_BATCH_SIZE = 25;
+
+interface VertexTargetOptions {
+  projectId: string;
+  location: string;
+  /** Full resource name, or the display name given at creation */
+  corpusName: string;
+  description?: string;
+  /** Bucket and prefix the document texts are staged under */
+  bucketName: string;
+  prefix: string;
+}
+
+interface RagFile {
+  name: string;
+  documentId: string;
+}
+
+export class VertexCorpusTarget implements CorpusTarget {
+  readonly name = "vertex";
+  readonly location: string;
+  private client: VertexRagDataServiceClient | null = null;
+  private readonly storage = new Storage();
+  private corpusResource: string | null = null;
+
+  constructor(private readonly options: VertexTargetOptions) {
+    if (!options.projectId) {
+      throw new Error("GCP_PROJECT_ID is required for the Vertex corpus");
+    }
+    this.location = `${options.corpusName} (${options.projectId}/${options.location})`;
+  }
+
+  async exists(): Promise<boolean> {
+    return (await this.findCorpus()) !== null;
+  }
+
+  async create(): Promise<boolean> {
+    if (await this.findCorpus()) {
+      return false;
+    }
+    const { projectId, location, corpusName, description } = this.options;
+    const [operation] = await this.getClient().createRagCorpus({
+      parent: `projects/${projectId}/locations/${location}`,
+      ragCorpus: { displayName: corpusName, description },
+    });
+    const [corpus] = await operation.promise();
+    this.corpusResource = corpus.name ?? null;
+    // The backend needs the generated id unless it looks the corpus up by name
+    console.warn(`Created ${corpus.name}; set RAG_CORPUS_NAME to this resource name`);
+    return true;
+  }
+
+  async list(): Promise<IndexedDocument[]> {
+    const [files, snapshot] = await Promise.all([
+      this.listFiles(),
+      this.getFirestore().collection(DOCUMENTS_COLLECTION).get(),
+    ]);
+    const imported = new Set(files.map((file) => file.documentId));
+    const documents = new Map<string, IndexedDocument>();
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const metadata = documentMetadataSchema.safeParse(data);
+      documents.set(doc.id, {
+        documentId: doc.id,
+        metadata: metadata.success ? metadata.data : undefined,
+        // Without its RAG file the document cannot be retrieved, so it must be re-uploaded
+        contentHash:
+          imported.has(doc.id) && typeof data.contentHash === "string"
+            ? data.contentHash
+            : undefined,
+        chunks: typeof data.chunkCount === "number" ? data.chunkCount : 0,
+      });
+    }
+    for (const file of files) {
+      if (!documents.has(file.documentId)) {
+        documents.set(file.documentId, { documentId: file.documentId, chunks: 0 });
+      }
+    }
+    return [...documents.values()].sort((a, b) => a.documentId.localeCompare(b.documentId));
+  }
+
+  async upsert(documents: CorpusDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+    const corpus = await this.requireCorpus();
+    const ids = new Set(documents.map((document) => document.metadata.documentId));
+
+    const bucket = this.storage.bucket(this.options.bucketName);
+    const folders: string[] = [];
+    for (const document of documents) {
+      const { documentId } = document.metadata;
+      // Stale chunk files would be imported with the folder
+      await this.deleteStaged(documentId);
+      for (const [position, text] of chunkTexts(document).entries()) {
+        await bucket.file(this.objectName(documentId, position)).save(text, {
+          contentType: "text/plain; charset=utf-8",
+        });
+      }
+      folders.push(`gs://${this.options.bucketName}/${this.folderName(documentId)}`);
+    }
+
+    // Re-importing an existing file does not replace its chunks
+    await this.deleteFiles((await this.listFiles()).filter((file) => ids.has(file.documentId)));
+    for (let start = 0; start < folders.length; start += IMPORT_BATCH_SIZE) {
+      const uris = folders.slice(start, start + IMPORT_BATCH_SIZE);
+      const [operation] = await this.getClient().importRagFiles({
+        parent: corpus,
+        importRagFilesConfig: {
+          gcsSource: { uris },
+          ragFileTransformationConfig: {
+            ragFileChunkingConfig: {
+              fixedLengthChunking: { chunkSize: RAG_CHUNK_SIZE, chunkOverlap: RAG_CHUNK_OVERLAP },
+            },
+          },
+        },
+      });
+      const [response] = await operation.promise();
+      if (Number(response.failedRagFilesCount ?? 0) > 0) {
+        throw new Error(
+          `${response.failedRagFilesCount} RAG file imports failed for ${uris.join(", ")}`
+        );
+      }
+    }
+
+    const firestore = this.getFirestore();
+    for (const document of documents) {
+      const ref = firestore.collection(DOCUMENTS_COLLECTION).doc(document.metadata.documentId);
+      await firestore.recursiveDelete(ref.collection(CHUNKS_COLLECTION));
+      const writer = firestore.bulkWriter();
+      // Awaited together so a failed write rejects here instead of going unhandled
+      const writes = document.chunks.map((chunk, position) => {
+        const { embedding: _embedding, ...stored } = chunk;
+        return writer.set(ref.collection(CHUNKS_COLLECTION).doc(String(position)), {
+          ...stored,
+          position,
+        });
+      });
+      await Promise.all([...writes, writer.close()]);
+      // Metadata last: the backend only serves documents it has metadata for
+      await ref.set({
+        ...document.metadata,
+        contentHash: contentHash(document),
+        chunkCount: document.chunks.length,
+      });
+    }
+  }
+
+  async remove(documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0) return;
+    const ids = new Set(documentIds);
+    await this.deleteFiles((await this.listFiles()).filter((file) => ids.has(file.documentId)));
+
+    const firestore = this.getFirestore();
+    for (const documentId of documentIds) {
+      await firestore.recursiveDelete(firestore.collection(DOCUMENTS_COLLECTION).doc(documentId));
+      await this.deleteStaged(documentId);
+    }
+  }
+
+  private folderName(documentId: string): string {
+    return `${this.options.prefix}${documentId}/`;
+  }
+
+  /** Named after the chunk's Firestore document, `chunks/<position>` */
+  private objectName(documentId: string, position: number): string {
+    return `${this.folderName(documentId)}${position}.txt`;
+  }
+
+  /**
+   * Deletes a document's staged chunk files, and the single
+   * `<documentId>.txt` earlier versions staged
+   */
+  private async deleteStaged(documentId: string): Promise<void> {
+    const bucket = this.storage.bucket(this.options.bucketName);
+    await bucket.deleteFiles({ prefix: this.folderName(documentId) });
+    await bucket.file(`${this.options.prefix}${documentId}.txt`).delete({ ignoreNotFound: true });
+  }
+
+  private async listFiles(): Promise<RagFile[]> {
+    const files: RagFile[] = [];
+    for await (const file of this.getClient().listRagFilesAsync({
+      parent: await this.requireCorpus(),
+    })) {
+      const source = file.gcsSource?.uris?.[0] ?? file.displayName ?? "";
+      if (file.name) {
+        files.push({ name: file.name, documentId: ragSourceLocation(source).documentId });
+      }
+    }
+    return files;
+  }
+
+  private async deleteFiles(files: RagFile[]): Promise<void> {
+    for (const file of files) {
+      const [operation] = await this.getClient().deleteRagFile({ name: file.name });
+      await operation.promise();
+    }
+  }
+
+  /**
+   * Resolves the corpus resource name, looking a display name up among the
+   * project's corpora
+   */
+  private async findCorpus(): Promise<string | null> {
+    if (this.corpusResource) return this.corpusResource;
+
+    const { projectId, location, corpusName } = this.options;
+    if (corpusName.startsWith("projects/")) {
+      this.corpusResource = corpusName;
+      return corpusName;
+    }
+    const parent = `projects/${projectId}/locations/${location}`;
+    for await (const corpus of this.getClient().listRagCorporaAsync({ parent })) {
+      if (
+        corpus.displayName === corpusName ||
+        corpus.name === `${parent}/ragCorpora/${corpusName}`
+      ) {
+        this.corpusResource = corpus.name ?? null;
+        return this.corpusResource;
+      }
+    }
+    return null;
+  }
+
+  private async requireCorpus(): Promise<string> {
+    const corpus = await this.findCorpus();
+    if (!corpus) {
+      throw new Error(`RAG corpus ${this.options.corpusName} not found; run corpus create first`);
+    }
+    return corpus;
+  }
+
+  private getClient(): VertexRagDataServiceClient {
+    if (!this.client) {
+      this.client = new VertexRagDataServiceClient({
+        apiEndpoint: `${this.options.location}-aiplatform.googleapis.com`,
+      });
+    }
+    return this.client;
+  }
+
+  private getFirestore() {
+    if (getApps().length === 0) {
+      initializeApp({ projectId: this.options.projectId });
+    }
+    return getFirestore();
+  }
+}
+
+/**
+ * The text imported for each chunk: the document title and section
+ * headings, which help the embedding place it, then the chunk text
+ */
+function chunkTexts(document: CorpusDocument): string[] {
+  return document.chunks.map((chunk) => {
+    const heading = [document.metadata.title, ...(chunk.sectionPath ?? [])].join(" › ");
+    return `${heading}\n\n${chunk.text}\n`;
+  });
+}
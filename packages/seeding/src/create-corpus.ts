@@ -1,8 +1,11 @@
 /**
  * Corpus Creation for Vertex AI RAG
- * Creates and manages the RAG corpus in Vertex AI
+ * Creates the RAG corpus in Vertex AI. `seeding corpus` manages its
+ * documents.
  */
 
+import { VertexCorpusTarget } from "./corpus/vertex.target";
+
 interface CorpusConfig {
   projectId: string;
   location: string;
@@ -10,16 +13,18 @@ interface CorpusConfig {
   description?: string;
 }
 
-export async function createCorpus(config: CorpusConfig): Promise<void> {
+/**
+ * Creates the corpus unless one with the same name exists; false if it did
+ */
+export async function createCorpus(config: CorpusConfig): Promise<boolean> {
   console.log(`Creating corpus: ${config.corpusName} in project ${config.projectId}`);
-  
-  // TODO: Implement Vertex AI RAG corpus creation
-  // 1. Initialize Vertex AI client
-  // 2. Create corpus with metadata
-  // 3. Upload documents to corpus
-  // 4. Configure indexing settings
-  
-  throw new Error("Not implemented yet");
+
+  const target = new VertexCorpusTarget({
+    ...config,
+    bucketName: process.env.GCS_BUCKET_NAME || "umoyo-health-corpus",
+    prefix: process.env.RAG_STAGING_PREFIX || "rag/",
+  });
+  return target.create();
 }
 
 // CLI entry point
@@ -35,11 +40,11 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   createCorpus({
     projectId,
     location,
-    corpusName: "umoyo-health-corpus",
+    corpusName: process.env.RAG_CORPUS_NAME || "umoyo-health-corpus",
     description: "Umoyo Health Hub medical knowledge corpus",
   })
-    .then(() => {
-      console.log("Corpus creation completed");
+    .then((created) => {
+      console.log(created ? "Corpus creation completed" : "Corpus already exists");
       process.exit(0);
     })
     .catch((error) => {
@@ -47,4 +52,3 @@ if (import.meta.url === `file://${process.argv[1]}`) {
       process.exit(1);
     });
 }
-
@@ -0,0 +1,57 @@
+/**
+ * Drug Alerts Ingestion
+ * Fetches FDA drug recalls and safety communications into the drug alert
+ * store that chat answers are checked against. Set OPENFDA_MODE=replay to
+ * run from recorded fixtures.
+ */
+
+import { getApps, initializeApp } from "firebase-admin/app";
+import {
+  openFdaService,
+  type DrugAlertIngestion,
+} from "@umoyo/functions/src/services/openfda.service";
+
+/** First-run lookback when no start date is given */
+const DEFAULT_LOOKBACK_DAYS = 365;
+
+interface DrugAlertsIngestionConfig {
+  /** Earliest alert date, `YYYY-MM-DD` */
+  since?: string;
+  /** Recalls fetched in one run */
+  maxResults?: number;
+}
+
+export async function ingestDrugAlerts(
+  config: DrugAlertsIngestionConfig = {}
+): Promise<DrugAlertIngestion> {
+  const since =
+    config.since ??
+    new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  console.log(`Fetching FDA drug alerts since ${since}`);
+
+  if ((process.env.DRUG_ALERTS_STORE || "firestore") === "firestore" && getApps().length === 0) {
+    initializeApp({ projectId: process.env.GCP_PROJECT_ID || undefined });
+  }
+  return openFdaService.ingest({ since, maxResults: config.maxResults });
+}
+
+// CLI entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  ingestDrugAlerts({
+    since: process.env.DRUG_ALERTS_SINCE,
+    maxResults: process.env.DRUG_ALERTS_MAX_RESULTS
+      ? parseInt(process.env.DRUG_ALERTS_MAX_RESULTS, 10)
+      : undefined,
+  })
+    .then((result) => {
+      console.log(
+        `${result.recalls} recalls, ${result.safetyCommunications} safety communications, ` +
+          `${result.active} active`
+      );
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Drug alerts ingestion failed:", error);
+      process.exit(1);
+    });
+}
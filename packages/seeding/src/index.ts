@@ -1,4 +1,7 @@
 export * from "./ingest-pdfs";
 export * from "./create-corpus";
+export * from "./corpus";
 export * from "./pubmed-ingestion";
+export * from "./drug-alerts-ingestion";
+export * from "./who-outbreaks-ingestion";
 
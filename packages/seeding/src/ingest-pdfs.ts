@@ -1,45 +1,224 @@
 /**
  * PDF Ingestion Pipeline
- * Processes PDF files from Google Cloud Storage and prepares them for RAG ingestion
+ * Extracts guideline PDFs from a local folder or Google Cloud Storage into
+ * section-aware chunks with page numbers, written as corpus documents
  */
 
-import { Storage } from "@google-cloud/storage";
-
-const storage = new Storage();
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CorpusDocument, DocumentMetadata } from "@umoyo/shared";
+import { writeCorpusDocument } from "./local-corpus";
+import { isManifest, ManifestResolver, type ManifestTags } from "./manifests";
+import {
+  chunkBlocks,
+  createPdfSource,
+  extractPages,
+  isPdf,
+  toBlocks,
+  type Block,
+  type SourceFile,
+} from "./pdf";
 
 interface PDFIngestionConfig {
-  bucketName: string;
-  sourcePath: string;
-  metadata?: Record<string, string>;
+  /** Folder of PDFs, or a `gs://bucket/prefix/` URI */
+  source: string;
+  /** Corpus folder the chunked documents are written to */
+  corpusDir?: string;
+  /** Tags applied below every manifest */
+  metadata?: ManifestTags;
+  /** Target chunk size in characters */
+  maxChunkChars?: number;
+  /** What happens to PDFs whose tags are missing or invalid (default: reject) */
+  onInvalid?: "reject" | "quarantine";
+  /** Where quarantined PDFs are copied with their issues (default: ./quarantine) */
+  quarantineDir?: string;
+  /** Check the manifests without extracting or writing anything */
+  validateOnly?: boolean;
+}
+
+export type PdfIngestionStatus = "ingested" | "valid" | "rejected" | "quarantined" | "failed";
+
+export interface PdfIngestionResult {
+  file: string;
+  status: PdfIngestionStatus;
+  documentId?: string;
+  /** Manifests applied, most general first */
+  manifests: string[];
+  /** Why the PDF was not indexed */
+  issues: string[];
+  pages?: number;
+  chunks?: number;
+}
+
+export interface PdfIngestionReport {
+  source: string;
+  results: PdfIngestionResult[];
+  /** Unknown tags and manifests without a PDF */
+  warnings: string[];
+}
+
+/** "WHO/Malaria Guidelines 2023.pdf" to "who-malaria-guidelines-2023" */
+export function documentIdFromPath(file: string): string {
+  return file
+    .replace(/\.pdf$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * The first top-level heading on the first two pages
+ */
+function detectTitle(blocks: Block[]): string | undefined {
+  const heading = blocks.find(
+    (block) => block.type === "heading" && block.level === 1 && block.pageNumber <= 2
+  );
+  return heading?.type === "heading" ? heading.text : undefined;
+}
+
+/**
+ * Extracts and chunks a PDF. Without `keepTitle` the title becomes the
+ * document's first heading when one is found.
+ */
+export async function convertPdf(
+  data: Uint8Array,
+  metadata: DocumentMetadata,
+  options: { maxChunkChars?: number; keepTitle?: boolean } = {}
+): Promise<{ document: CorpusDocument; pages: number }> {
+  const pages = await extractPages(data);
+  const blocks = toBlocks(pages);
+  const { documentId } = metadata;
+  const chunks = chunkBlocks(blocks, { maxChars: options.maxChunkChars });
+
+  return {
+    pages: pages.length,
+    document: {
+      metadata: options.keepTitle ? metadata : { ...metadata, title: detectTitle(blocks) ?? metadata.title },
+      chunks: chunks.map((chunk, index) => ({
+        chunkId: `${documentId}#${index}`,
+        text: chunk.text,
+        pageNumber: chunk.pageNumber,
+        ...(chunk.sectionPath.length > 0 ? { sectionPath: chunk.sectionPath } : {}),
+      })),
+    },
+  };
 }
 
-export async function ingestPDFs(config: PDFIngestionConfig): Promise<void> {
-  console.log(`Starting PDF ingestion from bucket: ${config.bucketName}`);
-  
-  // TODO: Implement PDF processing logic
-  // 1. List PDFs in GCS bucket
-  // 2. Extract text from PDFs
-  // 3. Chunk text appropriately
-  // 4. Add metadata tags
-  // 5. Prepare for corpus creation
-  
-  throw new Error("Not implemented yet");
+/**
+ * Copies the PDF into the quarantine folder with a file listing its issues
+ */
+async function quarantine(file: SourceFile, result: PdfIngestionResult, quarantineDir: string) {
+  const target = path.join(quarantineDir, ...file.name.split("/"));
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, await file.read());
+  await writeFile(
+    `${target}.issues.json`,
+    `${JSON.stringify({ file: file.name, manifests: result.manifests, issues: result.issues }, null, 2)}\n`,
+    "utf8"
+  );
+}
+
+export async function ingestPDFs(config: PDFIngestionConfig): Promise<PdfIngestionReport> {
+  const source = createPdfSource(config.source);
+  const corpusDir = path.resolve(config.corpusDir ?? "./corpus");
+  const quarantineDir = path.resolve(config.quarantineDir ?? "./quarantine");
+  console.log(`Starting PDF ingestion from ${source.location} into ${corpusDir}`);
+
+  const files = await source.list();
+  const pdfs = files.filter((file) => isPdf(file.name));
+  const resolver = await ManifestResolver.load(files.filter((file) => isManifest(file.name)), config.metadata);
+  const warnings = new Set(resolver.orphans(pdfs.map((file) => file.name)).map((file) => `${file}: no matching PDF`));
+  const documentIds = new Map<string, string>();
+  const results: PdfIngestionResult[] = [];
+
+  for (const file of pdfs) {
+    const resolved = resolver.resolve(file.name, documentIdFromPath(file.name));
+    resolved.warnings.forEach((warning) => warnings.add(warning));
+    const documentId = resolved.metadata?.documentId;
+    const issues = [...resolved.issues];
+    if (documentId && documentIds.has(documentId)) {
+      issues.push(`documentId "${documentId}" is already used by ${documentIds.get(documentId)}`);
+    }
+
+    const result: PdfIngestionResult = {
+      file: file.name,
+      status: "valid",
+      documentId,
+      manifests: resolved.manifests,
+      issues,
+    };
+    results.push(result);
+
+    if (issues.length > 0 || !resolved.metadata) {
+      result.status = config.onInvalid === "quarantine" ? "quarantined" : "rejected";
+      if (result.status === "quarantined" && !config.validateOnly) {
+        await quarantine(file, result, quarantineDir);
+      }
+      console.warn(`${file.name}: ${result.status}, ${issues.join("; ")}`);
+      continue;
+    }
+    documentIds.set(resolved.metadata.documentId, file.name);
+    if (config.validateOnly) continue;
+
+    try {
+      const { document, pages } = await convertPdf(await file.read(), resolved.metadata, {
+        maxChunkChars: config.maxChunkChars,
+        keepTitle: resolver.hasTitle(file.name),
+      });
+      if (document.chunks.length === 0) {
+        // Scanned PDFs have no text layer
+        throw new Error("No extractable text; the PDF may need OCR");
+      }
+      await writeCorpusDocument(corpusDir, document);
+      Object.assign(result, { status: "ingested", pages, chunks: document.chunks.length });
+      console.log(`${file.name}: ${pages} pages, ${document.chunks.length} chunks`);
+    } catch (error) {
+      result.status = "failed";
+      result.issues.push(error instanceof Error ? error.message : String(error));
+      console.warn(`${file.name}: failed, ${result.issues.join("; ")}`);
+    }
+  }
+
+  return { source: source.location, results, warnings: [...warnings] };
+}
+
+export function formatPdfReport(report: PdfIngestionReport): string {
+  const counts = new Map<PdfIngestionStatus, number>();
+  for (const result of report.results) {
+    counts.set(result.status, (counts.get(result.status) ?? 0) + 1);
+  }
+  const lines = [
+    `${report.source}: ${report.results.length} PDFs, ` +
+      [...counts.entries()].map(([status, count]) => `${count} ${status}`).join(", "),
+  ];
+  for (const result of report.results.filter((result) => result.issues.length > 0)) {
+    lines.push(`  ${result.status} ${result.file}`, ...result.issues.map((issue) => `    - ${issue}`));
+  }
+  lines.push(...report.warnings.map((warning) => `  warning: ${warning}`));
+  return lines.join("\n");
 }
 
 // CLI entry point
 if (import.meta.url === `file://${process.argv[1]}`) {
   const bucketName = process.env.GCS_BUCKET_NAME || "umoyo-health-corpus";
   ingestPDFs({
-    bucketName,
-    sourcePath: "pdfs/",
+    source: process.argv[2] || process.env.PDF_SOURCE || `gs://${bucketName}/pdfs/`,
+    corpusDir: process.env.LOCAL_CORPUS_DIR,
+    maxChunkChars: process.env.PDF_CHUNK_CHARS ? parseInt(process.env.PDF_CHUNK_CHARS, 10) : undefined,
+    onInvalid: process.env.PDF_ON_INVALID === "quarantine" ? "quarantine" : "reject",
+    quarantineDir: process.env.PDF_QUARANTINE_DIR,
+    validateOnly: process.argv.includes("--validate-only"),
   })
-    .then(() => {
-      console.log("PDF ingestion completed");
-      process.exit(0);
+    .then(async (report) => {
+      console.log(formatPdfReport(report));
+      if (process.env.PDF_REPORT_FILE) {
+        await writeFile(process.env.PDF_REPORT_FILE, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+      }
+      const invalid = report.results.some((result) => result.status === "rejected" || result.status === "quarantined");
+      process.exit(invalid && process.argv.includes("--validate-only") ? 1 : 0);
     })
     .catch((error) => {
       console.error("PDF ingestion failed:", error);
       process.exit(1);
     });
 }
-
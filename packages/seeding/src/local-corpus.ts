@@ -0,0 +1,64 @@
+/**
+ * Local Corpus Files
+ * Reads, writes and removes corpus documents in the folder format the local
+ * retrieval backend loads: one `<documentId>.json` file per document
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { corpusDocumentSchema, type CorpusDocument } from "@umoyo/shared";
+
+function documentPath(corpusDir: string, documentId: string): string {
+  return path.join(corpusDir, `${encodeURIComponent(documentId)}.json`);
+}
+
+/** Identifies a document's exact content, to skip unchanged uploads */
+export function contentHash(document: CorpusDocument): string {
+  return createHash("sha256").update(JSON.stringify(document)).digest("hex");
+}
+
+/**
+ * Loads every valid document in the folder, sorted by file name. Invalid
+ * files are returned by name rather than failing the whole read.
+ */
+export async function readCorpusDocuments(
+  corpusDir: string
+): Promise<{ documents: CorpusDocument[]; invalid: string[] }> {
+  const files = (await readdir(corpusDir)).filter((file) => file.endsWith(".json")).sort();
+  const documents: CorpusDocument[] = [];
+  const invalid: string[] = [];
+
+  for (const file of files) {
+    try {
+      const parsed = corpusDocumentSchema.safeParse(
+        JSON.parse(await readFile(path.join(corpusDir, file), "utf8"))
+      );
+      if (parsed.success) {
+        documents.push(parsed.data);
+        continue;
+      }
+    } catch {
+      // Unparseable JSON is reported like a schema failure
+    }
+    invalid.push(file);
+  }
+  return { documents, invalid };
+}
+
+export async function writeCorpusDocument(
+  corpusDir: string,
+  document: CorpusDocument
+): Promise<void> {
+  const valid = corpusDocumentSchema.parse(document);
+  await mkdir(corpusDir, { recursive: true });
+  await writeFile(
+    documentPath(corpusDir, valid.metadata.documentId),
+    `${JSON.stringify(valid, null, 2)}\n`,
+    "utf8"
+  );
+}
+
+export async function removeCorpusDocument(corpusDir: string, documentId: string): Promise<void> {
+  await rm(documentPath(corpusDir, documentId), { force: true });
+}
@@ -0,0 +1,189 @@
+/**
+ * Metadata Manifests
+ * Sidecar JSON or YAML files carrying the corpus tags for PDFs:
+ * - `_metadata.yaml` in a folder applies to every PDF below it. Nested
+ *   folders override their parents.
+ * - `<name>.meta.yaml` next to `<name>.pdf` applies to that PDF only and
+ *   overrides the folder defaults.
+ * `.json`, `.yaml` and `.yml` are accepted. Merged tags are validated with
+ * `documentMetadataSchema` before a PDF is indexed.
+ */
+
+import path from "node:path";
+import { JSON_SCHEMA, load } from "js-yaml";
+import { documentMetadataSchema, type DocumentMetadata } from "@umoyo/shared";
+import type { SourceFile } from "./pdf";
+
+/** Tags a manifest may set; `documentId` and `title` fall back to the file */
+export type ManifestTags = Partial<DocumentMetadata>;
+
+const FOLDER_MANIFEST = "_metadata";
+const DOCUMENT_MANIFEST_SUFFIX = ".meta";
+const EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/** Spellings used in the data-sources workflow, mapped to schema fields */
+const KEY_ALIASES: Record<string, keyof DocumentMetadata> = {
+  document_id: "documentId",
+  effective_from: "effectiveFrom",
+  last_updated: "lastUpdated",
+  source_url: "sourceUrl",
+};
+
+const KNOWN_KEYS = new Set(Object.keys(documentMetadataSchema.shape));
+
+interface Manifest {
+  file: string;
+  tags: ManifestTags;
+  /** Unreadable manifests make every PDF they cover invalid */
+  error?: string;
+  warnings: string[];
+}
+
+export interface ResolvedMetadata {
+  /** Merged tags, validated when `issues` is empty */
+  metadata?: DocumentMetadata;
+  /** Manifests applied, most general first */
+  manifests: string[];
+  issues: string[];
+  warnings: string[];
+}
+
+/**
+ * Which PDFs a manifest file covers: a folder prefix ("" for the root) or
+ * one PDF path. Null for files that are not manifests.
+ */
+function manifestTarget(name: string): { folder: string } | { pdf: string } | null {
+  const extension = EXTENSIONS.find((candidate) => name.toLowerCase().endsWith(candidate));
+  if (!extension) return null;
+
+  const stem = name.slice(0, -extension.length);
+  if (path.posix.basename(stem) === FOLDER_MANIFEST) {
+    const folder = path.posix.dirname(stem);
+    return { folder: folder === "." ? "" : `${folder}/` };
+  }
+  if (stem.endsWith(DOCUMENT_MANIFEST_SUFFIX)) {
+    return { pdf: `${stem.slice(0, -DOCUMENT_MANIFEST_SUFFIX.length)}.pdf` };
+  }
+  return null;
+}
+
+export function isManifest(name: string): boolean {
+  return manifestTarget(name) !== null;
+}
+
+async function readManifest(file: SourceFile): Promise<Manifest> {
+  const warnings: string[] = [];
+  try {
+    const text = new TextDecoder().decode(await file.read());
+    // The JSON schema keeps dates such as 2024-01-15 as strings
+    const raw: unknown = file.name.toLowerCase().endsWith(".json")
+      ? JSON.parse(text)
+      : load(text, { schema: JSON_SCHEMA });
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error("expected an object of tags");
+    }
+
+    const tags: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      const field = KEY_ALIASES[key] ?? key;
+      if (!KNOWN_KEYS.has(field)) {
+        warnings.push(`${file.name}: unknown tag "${key}" ignored`);
+        continue;
+      }
+      tags[field] = value;
+    }
+    return { file: file.name, tags: tags as ManifestTags, warnings };
+  } catch (error) {
+    // YAML errors carry a multi-line code excerpt after the message
+    const message = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+    return { file: file.name, tags: {}, error: `${file.name}: ${message}`, warnings };
+  }
+}
+
+function validate(tags: ManifestTags): string[] {
+  const parsed = documentMetadataSchema.safeParse(tags);
+  const issues = parsed.success
+    ? []
+    : parsed.error.issues.map((issue) =>
+        issue.code === "invalid_type" && issue.received === "undefined"
+          ? `missing tag "${issue.path.join(".")}"`
+          : `${issue.path.join(".") || "tags"}: ${issue.message}`
+      );
+  if (typeof tags.lastUpdated === "string" && Number.isNaN(Date.parse(tags.lastUpdated))) {
+    issues.push(`lastUpdated: "${tags.lastUpdated}" is not an ISO date`);
+  }
+  return issues;
+}
+
+export class ManifestResolver {
+  private readonly folders = new Map<string, Manifest>();
+  private readonly documents = new Map<string, Manifest>();
+
+  private constructor(private readonly defaults: ManifestTags) {}
+
+  /**
+   * Reads every manifest among the source files. `defaults` sit below all
+   * manifests, e.g. tags passed on the command line.
+   */
+  static async load(files: SourceFile[], defaults: ManifestTags = {}): Promise<ManifestResolver> {
+    const resolver = new ManifestResolver(defaults);
+    for (const file of files) {
+      const target = manifestTarget(file.name);
+      if (!target) continue;
+      const manifest = await readManifest(file);
+      if ("folder" in target) {
+        resolver.folders.set(target.folder, manifest);
+      } else {
+        resolver.documents.set(target.pdf, manifest);
+      }
+    }
+    return resolver;
+  }
+
+  /** Document manifests whose PDF is not among the files */
+  orphans(pdfNames: string[]): string[] {
+    const names = new Set(pdfNames);
+    return [...this.documents.entries()]
+      .filter(([pdf]) => !names.has(pdf))
+      .map(([, manifest]) => manifest.file);
+  }
+
+  /**
+   * Merges the root, folder and document manifests for a PDF. The title
+   * falls back to the file name here; ingestion may replace it with the
+   * heading found in the PDF.
+   */
+  resolve(pdfName: string, documentId: string): ResolvedMetadata {
+    const segments = pdfName.split("/").slice(0, -1);
+    const folders = ["", ...segments.map((_, index) => `${segments.slice(0, index + 1).join("/")}/`)];
+    const applied = [
+      ...folders.map((folder) => this.folders.get(folder)),
+      this.documents.get(pdfName),
+    ].filter((manifest): manifest is Manifest => manifest !== undefined);
+
+    const tags: ManifestTags = {
+      documentId,
+      title: path.posix.basename(pdfName).replace(/\.pdf$/i, ""),
+      ...this.defaults,
+    };
+    for (const manifest of applied) {
+      Object.assign(tags, manifest.tags);
+    }
+
+    const issues = [
+      ...applied.flatMap((manifest) => (manifest.error ? [manifest.error] : [])),
+      ...validate(tags),
+    ];
+    return {
+      metadata: issues.length === 0 ? (tags as DocumentMetadata) : undefined,
+      manifests: applied.map((manifest) => manifest.file),
+      issues,
+      warnings: applied.flatMap((manifest) => manifest.warnings),
+    };
+  }
+
+  /** Whether a manifest sets the title explicitly */
+  hasTitle(pdfName: string): boolean {
+    return this.documents.get(pdfName)?.tags.title !== undefined;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Layout Blocks
+ * Classifies extracted lines into headings, paragraphs, lists and tables.
+ * Lists and tables are kept whole so chunking can treat them as one unit.
+ */
+
+import type { PdfPage, TextLine } from "./extract";
+
+export type Block =
+  | { type: "heading"; level: number; text: string; pageNumber: number }
+  | { type: "paragraph"; text: string; pageNumber: number }
+  | { type: "list"; items: string[]; pageNumber: number }
+  | { type: "table"; rows: string[][]; pageNumber: number };
+
+const MAX_HEADING_LEVEL = 4;
+const MAX_HEADING_LENGTH = 120;
+
+/** "1.", "2)", "a.", "iv)", or a bullet, followed by text */
+const LIST_MARKER = /^(\d{1,2}[.)]|[a-z][.)]|[ivx]{1,4}[.)]|[•●▪◦‣○■□–\-*])\s+\S/i;
+/** "2.1 Treatment" or "3.4.2. Dosing": numbered section headings */
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)+)\.?\s+\S/;
+
+interface Line extends TextLine {
+  pageNumber: number;
+}
+
+/**
+ * Body text size: the size covering the most characters
+ */
+function bodyFontSize(lines: Line[]): number {
+  const chars = new Map<number, number>();
+  for (const line of lines) {
+    chars.set(line.fontSize, (chars.get(line.fontSize) ?? 0) + line.text.length);
+  }
+  return [...chars.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 10;
+}
+
+/**
+ * Sizes noticeably larger than body text used for short lines, largest
+ * first. Their position gives the heading level.
+ */
+function headingSizes(lines: Line[], body: number): number[] {
+  const sizes = new Set(
+    lines
+      .filter((line) => line.fontSize >= body * 1.15 && line.text.length <= MAX_HEADING_LENGTH)
+      .map((line) => line.fontSize)
+  );
+  return [...sizes].sort((a, b) => b - a).slice(0, MAX_HEADING_LEVEL - 1);
+}
+
+function headingLevel(line: Line, body: number, sizes: number[]): number | null {
+  if (line.text.length > MAX_HEADING_LENGTH || line.cells.length > 1) return null;
+
+  const sizeIndex = sizes.indexOf(line.fontSize);
+  if (sizeIndex !== -1) return sizeIndex + 1;
+  if (line.fontSize < body || LIST_MARKER.test(line.text)) return null;
+
+  const numbered = line.text.match(NUMBERED_HEADING);
+  if (numbered && !/[.;,]$/.test(line.text)) {
+    return Math.min(numbered[1].split(".").length, MAX_HEADING_LEVEL);
+  }
+  // Short all-capitals lines at body size, e.g. "DOSAGE AND ADMINISTRATION"
+  const letters = line.text.replace(/[^a-z]/gi, "");
+  if (letters.length >= 4 && line.text.length <= 80 && letters === letters.toUpperCase()) {
+    return Math.min(sizes.length + 1, MAX_HEADING_LEVEL);
+  }
+  return null;
+}
+
+/** Joins wrapped lines, undoing end-of-line hyphenation */
+function appendLine(text: string, line: string): string {
+  if (/[a-z]-$/.test(text) && /^[a-z]/.test(line)) {
+    return text.slice(0, -1) + line;
+  }
+  return text ? `${text} ${line}` : line;
+}
+
+export function toBlocks(pages: PdfPage[]): Block[] {
+  const lines: Line[] = pages.flatMap((page) =>
+    page.lines.map((line) => ({ ...line, pageNumber: page.pageNumber }))
+  );
+  const body = bodyFontSize(lines);
+  const sizes = headingSizes(lines, body);
+  const isTableRow = (index: number) => {
+    const line = lines[index];
+    if (!line || line.cells.length < 2) return false;
+    // A lone two-cell line is more likely a gap in a paragraph than a table
+    return (
+      line.cells.length >= 3 ||
+      (lines[index - 1]?.cells.length ?? 0) >= 2 ||
+      (lines[index + 1]?.cells.length ?? 0) >= 2
+    );
+  };
+
+  const blocks: Block[] = [];
+  let previous: Line | null = null;
+  /** Left edge of the current list item's marker */
+  let markerX = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const current = blocks[blocks.length - 1];
+    // Text moved to a new page or column rather than down the same one
+    const wrapped =
+      previous !== null && (previous.pageNumber !== line.pageNumber || line.y <= previous.y);
+    const sameFlow =
+      previous !== null && !wrapped && line.y - previous.y <= line.fontSize * 1.8;
+    previous = line;
+
+    const level = headingLevel(line, body, sizes);
+    if (level !== null) {
+      // Headings wrapped over two lines at the same size are one heading
+      if (current?.type === "heading" && current.level === level && sameFlow) {
+        current.text = appendLine(current.text, line.text);
+      } else {
+        blocks.push({ type: "heading", level, text: line.text, pageNumber: line.pageNumber });
+      }
+      continue;
+    }
+
+    if (isTableRow(index)) {
+      if (current?.type === "table") {
+        current.rows.push(line.cells);
+      } else {
+        blocks.push({ type: "table", rows: [line.cells], pageNumber: line.pageNumber });
+      }
+      continue;
+    }
+
+    if (LIST_MARKER.test(line.text)) {
+      markerX = line.x;
+      if (current?.type === "list") {
+        current.items.push(line.text);
+      } else {
+        blocks.push({ type: "list", items: [line.text], pageNumber: line.pageNumber });
+      }
+      continue;
+    }
+
+    // A list item continues on indented lines, or over a page or column break
+    // when it has not ended
+    if (current?.type === "list") {
+      const last = current.items.length - 1;
+      const continues = sameFlow
+        ? line.x > markerX + line.fontSize * 0.5
+        : wrapped && !/[.:;]$/.test(current.items[last]);
+      if (continues) {
+        current.items[last] = appendLine(current.items[last], line.text);
+        continue;
+      }
+    }
+
+    const unfinished = current?.type === "paragraph" && !/[.:;!?]$/.test(current.text);
+    if (current?.type === "paragraph" && (sameFlow || (wrapped && unfinished))) {
+      current.text = appendLine(current.text, line.text);
+    } else {
+      blocks.push({ type: "paragraph", text: line.text, pageNumber: line.pageNumber });
+    }
+  }
+
+  return blocks;
+}
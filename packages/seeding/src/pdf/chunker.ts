@@ -0,0 +1,113 @@
+/**
+ * Section-aware Chunking
+ * Groups blocks into chunks that never cross a heading. Lists and tables
+ * are never split; long paragraphs are split at sentence boundaries.
+ */
+
+import type { Block } from "./blocks";
+
+export interface PdfChunk {
+  text: string;
+  /** Page the chunk starts on */
+  pageNumber: number;
+  /** Headings above the chunk, outermost first */
+  sectionPath: string[];
+}
+
+export interface ChunkOptions {
+  /** Target chunk size in characters; a single list or table may exceed it */
+  maxChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+
+type ContentBlock = Exclude<Block, { type: "heading" }>;
+
+interface Piece {
+  text: string;
+  pageNumber: number;
+  /** Introduces what follows, e.g. "Give the following doses:" */
+  leadIn: boolean;
+}
+
+function renderBlock(block: ContentBlock): string {
+  switch (block.type) {
+    case "paragraph":
+      return block.text;
+    case "list":
+      return block.items.join("\n");
+    case "table":
+      return block.rows.map((row) => row.join(" | ")).join("\n");
+  }
+}
+
+/** Splits text into sentence-aligned parts no longer than `maxChars` where possible */
+function splitSentences(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+(?=\s|$)|$)\s*/g) ?? [text];
+  const parts: string[] = [];
+  let part = "";
+  for (const sentence of sentences) {
+    if (part && part.length + sentence.length > maxChars) {
+      parts.push(part.trim());
+      part = "";
+    }
+    part += sentence;
+  }
+  if (part.trim()) parts.push(part.trim());
+  return parts;
+}
+
+function toPieces(block: ContentBlock, maxChars: number): Piece[] {
+  const text = renderBlock(block);
+  if (block.type !== "paragraph") {
+    return [{ text, pageNumber: block.pageNumber, leadIn: false }];
+  }
+  return splitSentences(text, maxChars).map((part) => ({
+    text: part,
+    pageNumber: block.pageNumber,
+    leadIn: /:$/.test(part),
+  }));
+}
+
+export function chunkBlocks(blocks: Block[], options: ChunkOptions = {}): PdfChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const chunks: PdfChunk[] = [];
+  const sectionPath: string[] = [];
+  let pieces: Piece[] = [];
+
+  const flush = (keep: Piece[] = []) => {
+    const content = pieces.slice(0, pieces.length - keep.length);
+    if (content.length > 0) {
+      chunks.push({
+        text: content.map((piece) => piece.text).join("\n\n"),
+        pageNumber: content[0].pageNumber,
+        sectionPath: [...sectionPath],
+      });
+    }
+    pieces = keep;
+  };
+  const length = () => pieces.reduce((total, piece) => total + piece.text.length + 2, 0);
+
+  for (const block of blocks) {
+    if (block.type === "heading") {
+      flush();
+      sectionPath.splice(block.level - 1);
+      // Fill skipped levels so the path depth matches the heading level
+      while (sectionPath.length < block.level - 1) sectionPath.push("");
+      sectionPath.push(block.text);
+      continue;
+    }
+
+    for (const piece of toPieces(block, maxChars)) {
+      if (pieces.length > 0 && length() + piece.text.length > maxChars) {
+        // A lead-in line moves with the list or table it introduces
+        const last = pieces[pieces.length - 1];
+        flush(last.leadIn && block.type !== "paragraph" ? [last] : []);
+      }
+      pieces.push(piece);
+    }
+  }
+  flush();
+
+  return chunks.map((chunk) => ({ ...chunk, sectionPath: chunk.sectionPath.filter(Boolean) }));
+}
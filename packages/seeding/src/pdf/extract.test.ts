@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { extractPages } from "./extract";
+
+interface PlacedText {
+  text: string;
+  x: number;
+  /** Baseline, from the top of the page */
+  y: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+/**
+ * One-page PDF with each text drawn in 10pt Helvetica at its position
+ */
+function buildPdf(texts: PlacedText[]): Uint8Array {
+  const content = texts
+    .map(({ text, x, y }) => `BT /F1 10 Tf ${x} ${PAGE_HEIGHT - y} Td (${text}) Tj ET`)
+    .join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      "/Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+/** Two 25-line columns with a gutter-crossing cell halfway down */
+function twoColumnPage(): PlacedText[] {
+  const texts: PlacedText[] = [];
+  for (let row = 0; row < 25; row++) {
+    const y = 100 + row * 20;
+    if (row === 12) {
+      // A table row: one cell in the left column, one crossing the gutter
+      texts.push({ text: "LEFTCELL", x: 72, y });
+      texts.push({ text: "A cell wide enough to cross the column gutter", x: 220, y });
+      continue;
+    }
+    texts.push({ text: `Left ${row}`, x: 72, y });
+    texts.push({ text: `Right ${row}`, x: 340, y });
+  }
+  return texts;
+}
+
+describe("extractPages", () => {
+  it("reads two-column pages column by column", async () => {
+    const [page] = await extractPages(buildPdf(twoColumnPage()));
+    const lines = page.lines.map((line) => line.text);
+
+    expect(lines.indexOf("Left 11")).toBeLessThan(lines.indexOf("Right 0"));
+    expect(lines.indexOf("Right 11")).toBeLessThan(lines.indexOf("Left 13"));
+    expect(lines.indexOf("Left 13")).toBeLessThan(lines.indexOf("Right 13"));
+  });
+
+  it("keeps column lines sharing a baseline with a full-width line", async () => {
+    const texts = twoColumnPage();
+    const [page] = await extractPages(buildPdf(texts));
+    const lines = page.lines.map((line) => line.text);
+
+    expect(lines).toHaveLength(texts.length);
+    expect(lines).toContain("LEFTCELL");
+    expect(lines.indexOf("LEFTCELL")).toBeLessThan(
+      lines.indexOf("A cell wide enough to cross the column gutter")
+    );
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * PDF Text Extraction
+ * Reads positioned text from each page with pdf.js and rebuilds lines in
+ * reading order: two-column pages are read column by column, and running
+ * headers, footers and page numbers are dropped.
+ */
+
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+/** A run of text on one baseline */
+export interface TextSpan {
+  text: string;
+  x: number;
+  /** Distance of the baseline from the top of the page */
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface TextLine {
+  text: string;
+  /** Text split at wide horizontal gaps; more than one cell suggests a table row */
+  cells: string[];
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
+export interface PdfPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  /** In reading order */
+  lines: TextLine[];
+}
+
+/** Gap between spans, in font sizes, that separates table cells */
+const CELL_GAP = 2;
+/** Share of the page height treated as header or footer margin */
+const MARGIN = 0.08;
+/** Narrowest empty vertical band accepted as a column gutter, in points */
+const MIN_GUTTER = 8;
+
+function toSpan(item: TextItem, pageHeight: number): TextSpan {
+  const [, , c, d, x, y] = item.transform;
+  return {
+    text: item.str,
+    x,
+    y: pageHeight - y,
+    width: item.width,
+    fontSize: Math.round((Math.hypot(c, d) || item.height) * 2) / 2,
+  };
+}
+
+/**
+ * Groups spans sharing a baseline into lines, top to bottom
+ */
+function buildLines(spans: TextSpan[]): TextLine[] {
+  const sorted = [...spans].sort((a, b) => a.y - b.y || a.x - b.x);
+  const groups: TextSpan[][] = [];
+
+  for (const span of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group[0].y - span.y) <= Math.max(group[0].fontSize, span.fontSize) * 0.4) {
+      group.push(span);
+    } else {
+      groups.push([span]);
+    }
+  }
+
+  return groups.map((group) => {
+    const ordered = group.sort((a, b) => a.x - b.x);
+    const fontSize = Math.max(...ordered.map((span) => span.fontSize));
+    const cells: string[] = [];
+    let text = "";
+    let cell = "";
+    let right = -Infinity;
+
+    for (const span of ordered) {
+      const gap = span.x - right;
+      if (cell && gap > fontSize * CELL_GAP) {
+        cells.push(cell.trim());
+        cell = "";
+      }
+      const joiner = text && gap > fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(span.text) ? " " : "";
+      text += joiner + span.text;
+      cell += (cell ? joiner : "") + span.text;
+      right = span.x + span.width;
+    }
+    cells.push(cell.trim());
+
+    return {
+      text: text.replace(/\s+/g, " ").trim(),
+      cells: cells.filter(Boolean),
+      x: ordered[0].x,
+      y: ordered[0].y,
+      fontSize,
+    };
+  });
+}
+
+/**
+ * Finds an empty vertical band in the middle of the page with text on both
+ * sides. Spans crossing it (titles, wide tables) are read as full width.
+ */
+function findGutter(spans: TextSpan[], width: number): number | null {
+  const from = Math.floor(width * 0.3);
+  const to = Math.ceil(width * 0.7);
+  const covered = new Array<number>(to - from).fill(0);
+
+  for (const span of spans) {
+    const start = Math.max(from, Math.floor(span.x));
+    const end = Math.min(to, Math.ceil(span.x + span.width));
+    for (let x = start; x < end; x++) covered[x - from]++;
+  }
+
+  // Allow a few crossings for full-width headings and tables
+  const threshold = Math.max(1, spans.length * 0.02);
+  let best: { start: number; length: number } | null = null;
+  let start = -1;
+  for (let i = 0; i <= covered.length; i++) {
+    if (i < covered.length && covered[i] <= threshold) {
+      if (start === -1) start = i;
+    } else if (start !== -1) {
+      if (!best || i - start > best.length) best = { start, length: i - start };
+      start = -1;
+    }
+  }
+  if (!best || best.length < MIN_GUTTER) return null;
+
+  const gutter = from + best.start + best.length / 2;
+  const left = spans.filter((span) => span.x + span.width <= gutter).length;
+  const right = spans.filter((span) => span.x >= gutter).length;
+  return left > spans.length * 0.2 && right > spans.length * 0.2 ? gutter : null;
+}
+
+/**
+ * Full-width lines split the page into bands; within a band the left
+ * column is read before the right one. A column line on the same baseline
+ * as a full-width line belongs to the band above it.
+ */
+function readingOrder(spans: TextSpan[], width: number): TextLine[] {
+  const gutter = findGutter(spans, width);
+  if (gutter === null) {
+    return buildLines(spans);
+  }
+
+  const full = buildLines(spans.filter((span) => span.x < gutter && span.x + span.width > gutter));
+  const left = buildLines(spans.filter((span) => span.x + span.width <= gutter));
+  const right = buildLines(spans.filter((span) => span.x >= gutter));
+
+  const lines: TextLine[] = [];
+  let top = -Infinity;
+  for (const separator of [...full, null]) {
+    const bottom = separator ? separator.y : Infinity;
+    const inBand = (line: TextLine) => line.y > top && line.y <= bottom;
+    lines.push(...left.filter(inBand), ...right.filter(inBand));
+    if (separator) lines.push(separator);
+    top = bottom;
+  }
+  return lines;
+}
+
+function isPageNumber(text: string): boolean {
+  return /^(page\s+)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i.test(text) || /^-\s*\d{1,4}\s*-$/.test(text);
+}
+
+/**
+ * Drops page numbers and lines repeated in the top or bottom margin of at
+ * least half the pages (digits ignored, so "Page 3" matches "Page 4")
+ */
+function removeRunningText(pages: PdfPage[]): void {
+  const inMargin = (line: TextLine, page: PdfPage) =>
+    line.y < page.height * MARGIN || line.y > page.height * (1 - MARGIN);
+  const key = (text: string) => text.toLowerCase().replace(/\d+/g, "#");
+
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    const keys = new Set(page.lines.filter((line) => inMargin(line, page)).map((line) => key(line.text)));
+    for (const lineKey of keys) counts.set(lineKey, (counts.get(lineKey) ?? 0) + 1);
+  }
+  const minRepeats = Math.max(3, Math.ceil(pages.length / 2));
+
+  for (const page of pages) {
+    page.lines = page.lines.filter(
+      (line) =>
+        !inMargin(line, page) ||
+        (!isPageNumber(line.text) && (counts.get(key(line.text)) ?? 0) < minRepeats)
+    );
+  }
+}
+
+export async function extractPages(data: Uint8Array): Promise<PdfPage[]> {
+  const pdf = await getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+  const pages: PdfPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const spans = content.items
+        .filter((item): item is TextItem => "str" in item && item.str.trim().length > 0)
+        .map((item) => toSpan(item, height));
+
+      pages.push({ pageNumber, width, height, lines: readingOrder(spans, width) });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  removeRunningText(pages);
+  return pages;
+}
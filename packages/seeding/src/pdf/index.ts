@@ -0,0 +1,8 @@
+export type { Block } from "./blocks";
+export type { ChunkOptions, PdfChunk } from "./chunker";
+export type { PdfPage, TextLine } from "./extract";
+export type { PdfSource, SourceFile } from "./sources";
+export { toBlocks } from "./blocks";
+export { chunkBlocks } from "./chunker";
+export { extractPages } from "./extract";
+export { createPdfSource, isPdf } from "./sources";
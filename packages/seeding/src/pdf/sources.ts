@@ -0,0 +1,89 @@
+/**
+ * PDF Sources
+ * Lists and reads PDFs and their metadata manifests from a local folder or
+ * a Cloud Storage prefix
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { Storage } from "@google-cloud/storage";
+
+export interface SourceFile {
+  /** Path relative to the source root, with forward slashes */
+  name: string;
+  read(): Promise<Uint8Array>;
+}
+
+export interface PdfSource {
+  /** Where the files come from, for logs and reports */
+  readonly location: string;
+  /** Every file under the source root */
+  list(): Promise<SourceFile[]>;
+}
+
+export const isPdf = (name: string) => name.toLowerCase().endsWith(".pdf");
+
+/**
+ * Every file below a directory. Walked by hand: recursive `readdir` and
+ * `Dirent.parentPath` need newer Node versions than the engines allow.
+ */
+async function walk(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const file = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(file)));
+    } else if (entry.isFile()) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+export class LocalPdfSource implements PdfSource {
+  readonly location: string;
+
+  constructor(directory: string) {
+    this.location = path.resolve(directory);
+  }
+
+  async list(): Promise<SourceFile[]> {
+    return (await walk(this.location)).sort().map((file) => ({
+      name: path.relative(this.location, file).split(path.sep).join("/"),
+      read: async () => new Uint8Array(await readFile(file)),
+    }));
+  }
+}
+
+export class GcsPdfSource implements PdfSource {
+  readonly location: string;
+  private readonly storage = new Storage();
+
+  constructor(
+    private readonly bucketName: string,
+    private readonly prefix: string
+  ) {
+    this.location = `gs://${bucketName}/${prefix}`;
+  }
+
+  async list(): Promise<SourceFile[]> {
+    const [files] = await this.storage.bucket(this.bucketName).getFiles({ prefix: this.prefix });
+    return files
+      .filter((file) => !file.name.endsWith("/"))
+      .map((file) => ({
+        name: file.name.slice(this.prefix.length).replace(/^\//, ""),
+        read: async () => {
+          const [contents] = await file.download();
+          return new Uint8Array(contents);
+        },
+      }));
+  }
+}
+
+/**
+ * `gs://bucket/prefix/` reads from Cloud Storage; anything else is a folder
+ */
+export function createPdfSource(location: string): PdfSource {
+  const match = location.match(/^gs:\/\/([^/]+)\/?(.*)$/);
+  return match ? new GcsPdfSource(match[1], match[2]) : new LocalPdfSource(location);
+}
@@ -1,38 +1,390 @@
 /**
  * PubMed API Ingestion
- * Fetches latest medical research papers from PubMed API
+ * Runs the saved queries against PubMed and turns new or changed articles
+ * into corpus documents. Each query keeps a modification-date watermark, so
+ * a run only fetches records changed since the last one.
  */
 
+import path from "node:path";
+import type { CorpusDocument, DocumentChunk } from "@umoyo/shared";
+import { pubmedService } from "@umoyo/functions/src/services/pubmed.service";
+import type { PubMedArticle } from "@umoyo/functions/src/services/pubmed";
+import { contentHash, removeCorpusDocument, writeCorpusDocument } from "./local-corpus";
+import { DEFAULT_QUERIES, loadSavedQueries, type SavedQuery } from "./pubmed-queries";
+import { loadState, saveState, type IngestionState, type PendingRange } from "./pubmed-state";
+
+/** PMIDs requested per esearch page */
+const PAGE_SIZE = 200;
+/** First-run lookback for queries without a watermark */
+const DEFAULT_LOOKBACK_YEARS = 5;
+
+const NOTICE_TYPES = new Set(["Retraction of Publication", "Published Erratum"]);
+const GUIDELINE_TYPES = new Set(["Practice Guideline", "Guideline", "Consensus Development Conference"]);
+
 interface PubMedIngestionConfig {
-  query?: string;
+  queries?: SavedQuery[];
+  /** PMIDs processed per query in one run; the rest are resumed next run */
   maxResults?: number;
-  dateFrom?: string; // ISO date string
-  dateTo?: string; // ISO date string
+  /** Start date for queries without a watermark, `YYYY-MM-DD` */
+  dateFrom?: string;
+  /** End of the date range, `YYYY-MM-DD`; today by default */
+  dateTo?: string;
+  /** Corpus folder the documents are written to */
+  corpusDir?: string;
+  /** JSON file holding watermarks and ingested PMIDs */
+  statePath?: string;
+}
+
+export type IngestionAction = "added" | "updated" | "skipped" | "retracted";
+
+export interface IngestionItem {
+  pmid: string;
+  queryId: string;
+  action: IngestionAction;
+  documentId?: string;
+  reason?: string;
+}
+
+export interface QueryReport {
+  queryId: string;
+  from: string;
+  to: string;
+  /** PMIDs in the date range */
+  matched: number;
+  /** PMIDs processed this run */
+  processed: number;
+  /** False when `maxResults` stopped the run; the range resumes next time */
+  complete: boolean;
+}
+
+export interface IngestionReport {
+  startedAt: string;
+  finishedAt: string;
+  queries: QueryReport[];
+  items: IngestionItem[];
+  counts: Record<IngestionAction, number>;
+}
+
+function toEutilsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "/");
+}
+
+function isRetracted(article: PubMedArticle): boolean {
+  return (
+    article.publicationTypes.includes("Retracted Publication") ||
+    article.corrections.some((correction) => correction.type === "RetractionIn")
+  );
+}
+
+function documentIdFor(pmid: string): string {
+  return `pubmed-${pmid}`;
 }
 
-export async function ingestFromPubMed(config: PubMedIngestionConfig = {}): Promise<void> {
-  console.log("Starting PubMed ingestion");
-  
-  // TODO: Implement PubMed API integration
-  // 1. Query PubMed API with search parameters
-  // 2. Fetch article abstracts and metadata
-  // 3. Filter and validate articles
-  // 4. Convert to corpus format
-  // 5. Update RAG corpus with new articles
-  
-  throw new Error("Not implemented yet");
+function citationLine(article: PubMedArticle): string {
+  const authors =
+    article.authors.length > 3 ? `${article.authors.slice(0, 3).join(", ")}, et al` : article.authors.join(", ");
+  const journal = article.journalAbbreviation ?? article.journal;
+  return [authors, `${journal}. ${article.publicationDate.slice(0, 4)}`].filter(Boolean).join(". ");
+}
+
+/**
+ * One chunk per abstract section. The first chunk carries the title and
+ * citation; an erratum notice is added to the last.
+ */
+function toCorpusDocument(article: PubMedArticle, owner: SavedQuery, tags: string[]): CorpusDocument {
+  const documentId = documentIdFor(article.pmid);
+  const errata = article.corrections.filter((correction) => correction.type === "ErratumIn");
+
+  const texts = article.abstractSections.map((section) =>
+    section.label ? `${section.label}: ${section.text}` : section.text
+  );
+  texts[0] = `${article.title}\n${citationLine(article)}\n\n${texts[0]}`;
+  if (errata.length > 0) {
+    const notices = errata.map((erratum) => (erratum.pmid ? `PMID ${erratum.pmid}` : "PubMed"));
+    texts[texts.length - 1] += `\n\nAn erratum to this article has been published (${notices.join(", ")}).`;
+  }
+
+  const chunks: DocumentChunk[] = texts.map((text, index) => ({
+    chunkId: `${documentId}#${index}`,
+    text,
+  }));
+
+  return {
+    metadata: {
+      documentId,
+      title: article.title,
+      category: article.publicationTypes.some((type) => GUIDELINE_TYPES.has(type))
+        ? "clinical-guideline"
+        : owner.category,
+      language: "en",
+      audience: "healthcare-professional",
+      region: article.meshTerms.includes("Zambia") ? "zambia" : owner.region,
+      lastUpdated: article.publicationDate || new Date().toISOString().slice(0, 10),
+      sourceUrl: article.url,
+      tags: [...new Set(["pubmed", ...tags, ...(errata.length > 0 ? ["erratum"] : [])])],
+    },
+    chunks,
+  };
+}
+
+class PubMedIngestion {
+  private readonly items: IngestionItem[] = [];
+  /** PMIDs already handled this run, by any query */
+  private readonly seen = new Set<string>();
+
+  constructor(
+    private readonly state: IngestionState,
+    private readonly queries: SavedQuery[],
+    private readonly corpusDir: string
+  ) {}
+
+  get results(): IngestionItem[] {
+    return this.items;
+  }
+
+  private record(item: IngestionItem) {
+    this.items.push(item);
+  }
+
+  /**
+   * Adds, updates, retracts or skips one article. Returns the PMIDs a
+   * retraction or erratum notice points at, so they can be re-checked.
+   */
+  async process(article: PubMedArticle, query: SavedQuery): Promise<string[]> {
+    const { pmid } = article;
+    const existing = this.state.articles[pmid];
+    const now = new Date().toISOString();
+
+    if (this.seen.has(pmid)) {
+      if (existing && !existing.queries.includes(query.id)) existing.queries.push(query.id);
+      this.record({ pmid, queryId: query.id, action: "skipped", reason: "duplicate" });
+      return [];
+    }
+    this.seen.add(pmid);
+
+    if (article.publicationTypes.some((type) => NOTICE_TYPES.has(type))) {
+      this.record({ pmid, queryId: query.id, action: "skipped", reason: "retraction or erratum notice" });
+      return article.corrections
+        .filter((correction) => correction.type === "RetractionOf" || correction.type === "ErratumFor")
+        .map((correction) => correction.pmid)
+        .filter((target): target is string => target !== undefined);
+    }
+
+    if (isRetracted(article)) {
+      const documentId = documentIdFor(pmid);
+      if (existing?.status === "indexed") {
+        await removeCorpusDocument(this.corpusDir, documentId);
+        this.record({ pmid, queryId: query.id, action: "retracted", documentId });
+      } else {
+        this.record({ pmid, queryId: query.id, action: "skipped", reason: "retracted" });
+      }
+      this.state.articles[pmid] = {
+        documentId,
+        status: "retracted",
+        contentHash: "",
+        queries: existing?.queries ?? [query.id],
+        updatedAt: now,
+      };
+      return [];
+    }
+
+    if (article.abstractSections.length === 0) {
+      this.record({ pmid, queryId: query.id, action: "skipped", reason: "no abstract" });
+      return [];
+    }
+    if (article.language && article.language !== "eng") {
+      this.record({ pmid, queryId: query.id, action: "skipped", reason: `language ${article.language}` });
+      return [];
+    }
+
+    // The first query to find an article decides its category and region
+    const claimedBy = existing?.queries.includes(query.id)
+      ? existing.queries
+      : [...(existing?.queries ?? []), query.id];
+    const claiming = claimedBy
+      .map((id) => this.queries.find((saved) => saved.id === id))
+      .filter((saved): saved is SavedQuery => saved !== undefined);
+    const owner = claiming[0] ?? query;
+    const document = toCorpusDocument(
+      article,
+      owner,
+      claiming.flatMap((saved) => saved.tags ?? [])
+    );
+    const hash = contentHash(document);
+    const { documentId } = document.metadata;
+
+    if (existing?.status === "indexed" && existing.contentHash === hash) {
+      existing.queries = claimedBy;
+      this.record({ pmid, queryId: query.id, action: "skipped", documentId, reason: "unchanged" });
+      return [];
+    }
+
+    await writeCorpusDocument(this.corpusDir, document);
+    this.state.articles[pmid] = {
+      documentId,
+      status: "indexed",
+      contentHash: hash,
+      queries: claimedBy,
+      updatedAt: now,
+    };
+    this.record({ pmid, queryId: query.id, action: existing ? "updated" : "added", documentId });
+    return [];
+  }
+
+  /**
+   * Re-fetches articles named by retraction and erratum notices. Only
+   * articles already in the corpus are checked.
+   */
+  async recheck(pmids: string[], query: SavedQuery): Promise<void> {
+    const indexed = pmids.filter(
+      (pmid) => this.state.articles[pmid]?.status === "indexed" && !this.seen.has(pmid)
+    );
+    if (indexed.length === 0) return;
+    for (const article of await pubmedService.fetchArticles(indexed)) {
+      await this.process(article, query);
+    }
+  }
+}
+
+/**
+ * Processes one saved query from its watermark (or an unfinished range) to
+ * `dateTo`, saving a checkpoint after every page. The watermark only moves
+ * once the whole range is done.
+ */
+async function ingestQuery(
+  ingestion: PubMedIngestion,
+  query: SavedQuery,
+  state: IngestionState,
+  options: { maxResults: number; dateFrom: string; dateTo: string; statePath: string }
+): Promise<QueryReport> {
+  const checkpoint = (state.queries[query.id] ??= {});
+  const range: PendingRange = checkpoint.pending ?? {
+    minDate: checkpoint.watermark ?? options.dateFrom,
+    maxDate: options.dateTo,
+    offset: 0,
+  };
+  let matched = 0;
+  let processed = 0;
+
+  for (;;) {
+    const page = await pubmedService.searchIds({
+      query: query.term,
+      dateFrom: range.minDate,
+      dateTo: range.maxDate,
+      dateType: "mdat",
+      sort: "pub_date",
+      offset: range.offset,
+      maxResults: Math.min(PAGE_SIZE, options.maxResults - processed),
+    });
+    matched = page.count;
+    if (page.pmids.length === 0) break;
+
+    const notices: string[] = [];
+    for (const article of await pubmedService.fetchArticles(page.pmids)) {
+      notices.push(...(await ingestion.process(article, query)));
+    }
+    await ingestion.recheck(notices, query);
+
+    range.offset += page.pmids.length;
+    processed += page.pmids.length;
+    checkpoint.pending = range;
+    await saveState(options.statePath, state);
+
+    if (range.offset >= page.count || processed >= options.maxResults) break;
+  }
+
+  const complete = range.offset >= matched;
+  if (complete) {
+    checkpoint.watermark = range.maxDate;
+    delete checkpoint.pending;
+  }
+  checkpoint.lastRunAt = new Date().toISOString();
+  await saveState(options.statePath, state);
+
+  return { queryId: query.id, from: range.minDate, to: range.maxDate, matched, processed, complete };
+}
+
+export async function ingestFromPubMed(config: PubMedIngestionConfig = {}): Promise<IngestionReport> {
+  const startedAt = new Date();
+  const queries = config.queries ?? DEFAULT_QUERIES;
+  const corpusDir = path.resolve(config.corpusDir ?? "./corpus");
+  const statePath = path.resolve(config.statePath ?? "./pubmed-state.json");
+  const lookback = new Date(startedAt);
+  lookback.setFullYear(lookback.getFullYear() - DEFAULT_LOOKBACK_YEARS);
+
+  console.log(`Starting PubMed ingestion of ${queries.length} saved queries into ${corpusDir}`);
+
+  const state = await loadState(statePath);
+  const ingestion = new PubMedIngestion(state, queries, corpusDir);
+  const options = {
+    maxResults: config.maxResults ?? 100,
+    dateFrom: config.dateFrom ? config.dateFrom.replace(/-/g, "/") : toEutilsDate(lookback),
+    dateTo: config.dateTo ? config.dateTo.replace(/-/g, "/") : toEutilsDate(startedAt),
+    statePath,
+  };
+
+  const reports: QueryReport[] = [];
+  for (const query of queries) {
+    reports.push(await ingestQuery(ingestion, query, state, options));
+  }
+
+  const items = ingestion.results;
+  const counts: Record<IngestionAction, number> = { added: 0, updated: 0, skipped: 0, retracted: 0 };
+  for (const item of items) {
+    counts[item.action]++;
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    queries: reports,
+    items,
+    counts,
+  };
+}
+
+export function formatReport(report: IngestionReport): string {
+  const lines = report.queries.map((query) => {
+    const items = report.items.filter((item) => item.queryId === query.queryId);
+    const count = (action: IngestionAction) => items.filter((item) => item.action === action).length;
+    return (
+      `${query.queryId} (${query.from}-${query.to}): ${query.processed}/${query.matched} processed, ` +
+      `${count("added")} added, ${count("updated")} updated, ${count("skipped")} skipped, ` +
+      `${count("retracted")} retracted${query.complete ? "" : " (incomplete, resumes next run)"}`
+    );
+  });
+  const { added, updated, skipped, retracted } = report.counts;
+  lines.push(`Total: ${added} added, ${updated} updated, ${skipped} skipped, ${retracted} retracted`);
+  return lines.join("\n");
+}
+
+async function queriesFromEnv(): Promise<SavedQuery[] | undefined> {
+  const term = process.env.PUBMED_QUERY;
+  if (term) {
+    const slug = term.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40);
+    return [{ id: `custom-${slug}`, term, category: "disease-reference", region: "global" }];
+  }
+  const file = process.env.PUBMED_QUERIES_FILE;
+  return file ? loadSavedQueries(file) : undefined;
 }
 
 // CLI entry point
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const query = process.env.PUBMED_QUERY || "";
   const maxResults = parseInt(process.env.PUBMED_MAX_RESULTS || "100", 10);
-  
-  ingestFromPubMed({
-    query,
-    maxResults,
-  })
-    .then(() => {
+
+  queriesFromEnv()
+    .then((queries) =>
+      ingestFromPubMed({
+        queries,
+        maxResults,
+        dateFrom: process.env.PUBMED_DATE_FROM,
+        dateTo: process.env.PUBMED_DATE_TO,
+        corpusDir: process.env.LOCAL_CORPUS_DIR,
+        statePath: process.env.PUBMED_STATE_FILE,
+      })
+    )
+    .then((report) => {
+      console.log(formatReport(report));
       console.log("PubMed ingestion completed");
       process.exit(0);
     })
@@ -41,4 +393,3 @@ if (import.meta.url === `file://${process.argv[1]}`) {
       process.exit(1);
     });
 }
-
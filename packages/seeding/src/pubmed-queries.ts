@@ -0,0 +1,94 @@
+/**
+ * Saved PubMed Queries
+ * The searches PubMed ingestion runs on every pass, with the corpus tags
+ * given to the articles they find
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  documentCategorySchema,
+  documentRegionSchema,
+  type DocumentCategory,
+  type DocumentRegion,
+} from "@umoyo/shared";
+
+export interface SavedQuery {
+  /** Stable id; the ingestion watermark is stored under it */
+  id: string;
+  /** PubMed search term, in PubMed query syntax */
+  term: string;
+  category: DocumentCategory;
+  region: DocumentRegion;
+  tags?: string[];
+}
+
+const SUB_SAHARAN_AFRICA = '(Zambia[mh] OR "Africa South of the Sahara"[mh])';
+const WITH_ABSTRACT = "hasabstract[text] AND english[lang]";
+
+/**
+ * Sub-Saharan studies are tagged `southern-africa`, the closest corpus
+ * region. Articles indexed under Zambia are tagged `zambia` at conversion.
+ */
+export const DEFAULT_QUERIES: SavedQuery[] = [
+  {
+    id: "malaria-ssa",
+    term: `malaria[mh] AND ${SUB_SAHARAN_AFRICA} AND ${WITH_ABSTRACT}`,
+    category: "disease-reference",
+    region: "southern-africa",
+    tags: ["malaria"],
+  },
+  {
+    id: "tuberculosis-ssa",
+    term: `tuberculosis[mh] AND ${SUB_SAHARAN_AFRICA} AND ${WITH_ABSTRACT}`,
+    category: "disease-reference",
+    region: "southern-africa",
+    tags: ["tuberculosis"],
+  },
+  {
+    id: "hiv-ssa",
+    term: `(HIV Infections[mh] OR Anti-HIV Agents[mh]) AND ${SUB_SAHARAN_AFRICA} AND ${WITH_ABSTRACT}`,
+    category: "disease-reference",
+    region: "southern-africa",
+    tags: ["hiv"],
+  },
+  {
+    id: "maternal-health-ssa",
+    term: `(Maternal Health[mh] OR Pregnancy Complications[mh] OR Prenatal Care[mh]) AND ${SUB_SAHARAN_AFRICA} AND ${WITH_ABSTRACT}`,
+    category: "disease-reference",
+    region: "southern-africa",
+    tags: ["maternal-health"],
+  },
+];
+
+function parseSavedQuery(value: unknown, index: number): SavedQuery {
+  const query = value as Partial<Record<keyof SavedQuery, unknown>>;
+  if (typeof query?.id !== "string" || !query.id || typeof query.term !== "string" || !query.term) {
+    throw new Error(`Saved query ${index} needs an id and a term`);
+  }
+  const tags = Array.isArray(query.tags) ? query.tags.filter((tag) => typeof tag === "string") : [];
+
+  return {
+    id: query.id,
+    term: query.term,
+    category: documentCategorySchema.parse(query.category ?? "disease-reference"),
+    region: documentRegionSchema.parse(query.region ?? "global"),
+    tags,
+  };
+}
+
+/**
+ * Reads saved queries from a JSON array, e.g.
+ * `[{ "id": "cholera", "term": "cholera[mh] AND Zambia[mh]", "region": "zambia" }]`
+ */
+export async function loadSavedQueries(file: string): Promise<SavedQuery[]> {
+  const raw: unknown = JSON.parse(await readFile(file, "utf8"));
+  if (!Array.isArray(raw)) {
+    throw new Error(`${file} must contain a JSON array of saved queries`);
+  }
+  const queries = raw.map(parseSavedQuery);
+  const ids = new Set(queries.map((query) => query.id));
+  if (ids.size !== queries.length) {
+    throw new Error(`${file} has duplicate saved query ids`);
+  }
+  return queries;
+}
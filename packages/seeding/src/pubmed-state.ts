@@ -0,0 +1,68 @@
+/**
+ * PubMed Ingestion State
+ * Watermarks per saved query and the PMIDs already in the corpus, persisted
+ * as JSON between runs
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/** A date range being worked through, and how far into it the run got */
+export interface PendingRange {
+  /** `YYYY/MM/DD`, inclusive */
+  minDate: string;
+  /** `YYYY/MM/DD`, inclusive */
+  maxDate: string;
+  /** PMIDs of the range already processed */
+  offset: number;
+}
+
+export interface QueryCheckpoint {
+  /** Records modified up to this date (`YYYY/MM/DD`) have been ingested */
+  watermark?: string;
+  /** Set while a range is only partly processed; the next run resumes it */
+  pending?: PendingRange;
+  lastRunAt?: string;
+}
+
+export interface ArticleRecord {
+  documentId: string;
+  status: "indexed" | "retracted";
+  /** Hash of the corpus document last written, to detect changed records */
+  contentHash: string;
+  /** Saved queries that matched the article, first match first */
+  queries: string[];
+  updatedAt: string;
+}
+
+export interface IngestionState {
+  version: 1;
+  queries: Record<string, QueryCheckpoint>;
+  articles: Record<string, ArticleRecord>;
+}
+
+export async function loadState(file: string): Promise<IngestionState> {
+  try {
+    const state = JSON.parse(await readFile(file, "utf8")) as IngestionState;
+    if (state.version !== 1) {
+      throw new Error(`Unsupported PubMed ingestion state version in ${file}`);
+    }
+    return state;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: 1, queries: {}, articles: {} };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes through a temporary file so an interrupted run never leaves a
+ * truncated state behind
+ */
+export async function saveState(file: string, state: IngestionState): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.tmp`;
+  await writeFile(temporary, `${JSON.stringify(state, null, 2)}\n`, "utf8");
+  await rename(temporary, file);
+}
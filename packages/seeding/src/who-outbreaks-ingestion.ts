@@ -0,0 +1,99 @@
+/**
+ * WHO Outbreak News Ingestion
+ * Fetches WHO Disease Outbreak News into the outbreak store behind the chat
+ * banner, and writes each item as a corpus document so answers can cite
+ * it. Set WHO_DON_MODE=replay to run from recorded fixtures.
+ */
+
+import { getApps, initializeApp } from "firebase-admin/app";
+import type { CorpusDocument, OutbreakAlert } from "@umoyo/shared";
+import { outbreakService } from "@umoyo/functions/src/services/outbreak.service";
+import { writeCorpusDocument } from "./local-corpus";
+
+/** First-run lookback when no start date is given */
+const DEFAULT_LOOKBACK_DAYS = 180;
+
+interface OutbreakIngestionConfig {
+  /** Earliest publication date, `YYYY-MM-DD` */
+  since?: string;
+  /** Corpus folder the documents are written to */
+  corpusDir?: string;
+}
+
+export interface OutbreakIngestionReport {
+  since: string;
+  outbreaks: number;
+  /** Items concerning Zambia or southern Africa */
+  regional: number;
+}
+
+/**
+ * A single-chunk corpus document for an outbreak news item, readable by
+ * patients and professionals
+ */
+export function outbreakDocument(outbreak: OutbreakAlert): CorpusDocument {
+  const countries = outbreak.countries.map((country) =>
+    country.replace(/\b\w/g, (letter) => letter.toUpperCase())
+  );
+  const text = [
+    outbreak.title,
+    `Disease outbreak news published by ${outbreak.source} on ${outbreak.date}.` +
+      (countries.length > 0 ? ` Countries: ${countries.join(", ")}.` : ""),
+    outbreak.summary,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    metadata: {
+      documentId: outbreak.outbreakId,
+      title: outbreak.title,
+      category: "disease-reference",
+      language: "en",
+      audience: "both",
+      region: outbreak.region,
+      lastUpdated: outbreak.date,
+      sourceUrl: outbreak.url,
+      tags: [...new Set(["outbreak", "who-don", outbreak.disease, ...outbreak.countries])],
+    },
+    chunks: [{ chunkId: `${outbreak.outbreakId}#0`, text }],
+  };
+}
+
+export async function ingestOutbreaks(
+  config: OutbreakIngestionConfig = {}
+): Promise<OutbreakIngestionReport> {
+  const since =
+    config.since ??
+    new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const corpusDir = config.corpusDir ?? "./corpus";
+  console.log(`Fetching WHO Disease Outbreak News since ${since}`);
+
+  if ((process.env.OUTBREAKS_STORE || "firestore") === "firestore" && getApps().length === 0) {
+    initializeApp({ projectId: process.env.GCP_PROJECT_ID || undefined });
+  }
+  const { outbreaks, regional } = await outbreakService.ingest(since);
+  for (const outbreak of outbreaks) {
+    await writeCorpusDocument(corpusDir, outbreakDocument(outbreak));
+  }
+  return { since, outbreaks: outbreaks.length, regional };
+}
+
+// CLI entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  ingestOutbreaks({
+    since: process.env.WHO_DON_SINCE,
+    corpusDir: process.env.LOCAL_CORPUS_DIR,
+  })
+    .then((report) => {
+      console.log(
+        `${report.outbreaks} outbreak news items since ${report.since}, ` +
+          `${report.regional} in Zambia or southern Africa`
+      );
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("WHO outbreak ingestion failed:", error);
+      process.exit(1);
+    });
+}
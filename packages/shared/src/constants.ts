@@ -0,0 +1,5 @@
+/**
+ * Region the `api` function is deployed to. The Hosting rewrite in
+ * firebase.json cannot import it and must name the same region.
+ */
+export const API_FUNCTION_REGION = "us-central1";
@@ -7,3 +7,6 @@ export * from "./schemas";
 // Utils
 export * from "./utils";
 
+// Constants
+export * from "./constants";
+
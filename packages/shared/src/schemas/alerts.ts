@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { documentRegionSchema } from "./document";
+
+export const drugAlertSchema = z.object({
+  alertId: z.string(),
+  kind: z.enum(["recall", "safety-communication"]),
+  title: z.string(),
+  drugs: z.array(z.string()),
+  summary: z.string(),
+  date: z.string(), // ISO date string
+  url: z.string().url(),
+  classification: z.string().optional(),
+  active: z.boolean(),
+  source: z.string(),
+});
+
+export type DrugAlert = z.infer<typeof drugAlertSchema>;
+
+export const outbreakAlertSchema = z.object({
+  outbreakId: z.string(),
+  title: z.string(),
+  disease: z.string(),
+  countries: z.array(z.string()),
+  region: documentRegionSchema,
+  summary: z.string(),
+  date: z.string(), // ISO date string
+  url: z.string().url(),
+  source: z.string(),
+});
+
+export type OutbreakAlert = z.infer<typeof outbreakAlertSchema>;
+
+/**
+ * `zambia` lists outbreaks in Zambia, `southern-africa` adds neighbouring
+ * countries and `global` lists all of them
+ */
+export const outbreakQuerySchema = z.object({
+  region: documentRegionSchema.default("southern-africa"),
+});
+
+export type OutbreakQuery = z.infer<typeof outbreakQuerySchema>;
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { drugAlertSchema } from "./alerts";
+import { documentLanguageSchema } from "./document";
 
 export const chatQuerySchema = z.object({
   message: z.string().min(1, "Message cannot be empty"),
@@ -14,26 +16,126 @@ export const chatQuerySchema = z.object({
 
 export type ChatQuery = z.infer<typeof chatQuerySchema>;
 
+const citationCheckSchema = z.object({
+  cited: z.array(z.number().int().positive()),
+  dropped: z.array(z.number().int()),
+  uncited: z.boolean(),
+});
+
+const confidenceLevelSchema = z.enum(["high", "medium", "low", "insufficient"]);
+
+const claimSupportSchema = z.object({
+  text: z.string(),
+  status: z.enum(["supported", "partial", "unsupported"]),
+  sources: z.array(z.number().int().positive()),
+});
+
+const groundingSchema = z.object({
+  confidence: confidenceLevelSchema,
+  claims: z.array(claimSupportSchema),
+});
+
+const emergencyGuidanceSchema = z.object({
+  language: documentLanguageSchema.optional(),
+  signs: z.array(z.string()),
+  headline: z.string(),
+  instructions: z.array(z.string()),
+  contacts: z.array(z.object({ label: z.string(), number: z.string() })),
+});
+
+const promptRefSchema = z.object({
+  templateId: z.string(),
+  version: z.number().int().positive(),
+});
+
+const queryTraceSchema = z.object({
+  original: z.string(),
+  language: documentLanguageSchema,
+  translated: z.string().optional(),
+  retrievalQuery: z.string(),
+});
+
+const chatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+  timestamp: z.date(),
+  citations: citationCheckSchema.optional(),
+  grounding: groundingSchema.optional(),
+  emergency: emergencyGuidanceSchema.optional(),
+  prompt: promptRefSchema.optional(),
+  disclaimer: z.string().optional(),
+  query: queryTraceSchema.optional(),
+  drugAlerts: z.array(drugAlertSchema).optional(),
+  stopped: z.boolean().optional(),
+});
+
+const documentSourceSchema = z.object({
+  documentId: z.string(),
+  documentTitle: z.string(),
+  chunkId: z.string().optional(),
+  pageNumber: z.number().optional(),
+  sectionPath: z.array(z.string()).optional(),
+  excerpt: z.string(),
+  relevanceScore: z.number().optional(),
+  status: z.enum(["superseded", "withdrawn"]).optional(),
+  replacedBy: z.object({ documentId: z.string(), documentTitle: z.string() }).optional(),
+});
+
 export const chatResponseSchema = z.object({
-  message: z.object({
-    id: z.string(),
-    role: z.enum(["user", "assistant", "system"]),
-    content: z.string(),
-    timestamp: z.date(),
-  }),
-  sources: z
-    .array(
-      z.object({
-        documentId: z.string(),
-        documentTitle: z.string(),
-        pageNumber: z.number().optional(),
-        excerpt: z.string(),
-        relevanceScore: z.number().optional(),
-      })
-    )
-    .optional(),
+  message: chatMessageSchema,
+  sources: z.array(documentSourceSchema).optional(),
   sessionId: z.string(),
+  confidence: confidenceLevelSchema,
+  claims: z.array(claimSupportSchema),
+  prompt: promptRefSchema.optional(),
+  drugAlerts: z.array(drugAlertSchema),
 });
 
 export type ChatResponse = z.infer<typeof chatResponseSchema>;
 
+export const chatSessionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  audience: z.string().optional(),
+  messageCount: z.number().int().nonnegative(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ChatSession = z.infer<typeof chatSessionSchema>;
+
+export const sessionIdSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+export const listSessionsSchema = z.object({
+  limit: z.number().int().positive().max(50).optional().default(20),
+  cursor: z.string().optional(),
+});
+
+export type ListSessionsParams = z.infer<typeof listSessionsSchema>;
+
+export const renameSessionSchema = z.object({
+  sessionId: z.string().min(1),
+  title: z.string().trim().min(1, "Title cannot be empty").max(120),
+});
+
+export const chatStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("sources"),
+    sessionId: z.string(),
+    sources: z.array(documentSourceSchema),
+  }),
+  z.object({
+    type: z.literal("token"),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("done"),
+    message: chatMessageSchema,
+  }),
+]);
+
+export type ChatStreamEvent = z.infer<typeof chatStreamEventSchema>;
+
@@ -21,6 +21,8 @@ export const documentRegionSchema = z.enum([
   "global",
 ]);
 
+export const documentStatusSchema = z.enum(["current", "superseded", "withdrawn"]);
+
 export const documentMetadataSchema = z.object({
   documentId: z.string(),
   title: z.string(),
@@ -31,7 +33,38 @@ export const documentMetadataSchema = z.object({
   lastUpdated: z.string(), // ISO date string
   sourceUrl: z.string().url().optional(),
   tags: z.array(z.string()).optional(),
+  status: documentStatusSchema.optional(),
+  supersedes: z.array(z.string()).optional(),
+  effectiveFrom: z.string().optional(), // ISO date string
 });
 
 export type DocumentMetadata = z.infer<typeof documentMetadataSchema>;
 
+
+export const documentChunkSchema = z.object({
+  chunkId: z.string(),
+  text: z.string().min(1),
+  pageNumber: z.number().int().positive().optional(),
+  sectionPath: z.array(z.string()).optional(),
+  embedding: z.array(z.number()).optional(),
+});
+
+export type DocumentChunk = z.infer<typeof documentChunkSchema>;
+
+export const corpusDocumentSchema = z.object({
+  metadata: documentMetadataSchema,
+  chunks: z.array(documentChunkSchema),
+});
+
+export type CorpusDocument = z.infer<typeof corpusDocumentSchema>;
+
+export const documentIdSchema = z.object({
+  documentId: z.string().min(1),
+});
+
+export const documentDetailSchema = z.object({
+  metadata: documentMetadataSchema,
+  chunks: z.array(documentChunkSchema.omit({ embedding: true })),
+});
+
+export type DocumentDetail = z.infer<typeof documentDetailSchema>;
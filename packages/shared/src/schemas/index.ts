@@ -2,6 +2,11 @@
 export {
   chatQuerySchema,
   chatResponseSchema,
+  chatStreamEventSchema,
+  chatSessionSchema,
+  sessionIdSchema,
+  listSessionsSchema,
+  renameSessionSchema,
 } from "./chat";
 export {
   userRoleSchema,
@@ -12,26 +17,50 @@ export {
   documentLanguageSchema,
   documentAudienceSchema,
   documentRegionSchema,
+  documentStatusSchema,
   documentMetadataSchema,
+  documentChunkSchema,
+  corpusDocumentSchema,
+  documentIdSchema,
+  documentDetailSchema,
 } from "./document";
 export {
+  drugAlertSchema,
+  outbreakAlertSchema,
+  outbreakQuerySchema,
+} from "./alerts";
+export {
+  dateRangeSchema,
   searchParamsSchema,
   searchResultSchema,
+  searchResponseSchema,
 } from "./search";
 
 // Export inferred types with different names to avoid conflicts with types folder
 export type {
   ChatQuery as ChatQuerySchemaType,
   ChatResponse as ChatResponseSchemaType,
+  ChatStreamEvent as ChatStreamEventSchemaType,
+  ChatSession as ChatSessionSchemaType,
+  ListSessionsParams as ListSessionsParamsSchemaType,
 } from "./chat";
 export type {
   UserProfile as UserProfileSchemaType,
 } from "./user";
 export type {
   DocumentMetadata as DocumentMetadataSchemaType,
+  DocumentChunk as DocumentChunkSchemaType,
+  CorpusDocument as CorpusDocumentSchemaType,
+  DocumentDetail as DocumentDetailSchemaType,
 } from "./document";
+export type {
+  DrugAlert as DrugAlertSchemaType,
+  OutbreakAlert as OutbreakAlertSchemaType,
+  OutbreakQuery as OutbreakQuerySchemaType,
+} from "./alerts";
 export type {
   SearchParams as SearchParamsSchemaType,
   SearchResult as SearchResultSchemaType,
+  SearchResponse as SearchResponseSchemaType,
 } from "./search";
 
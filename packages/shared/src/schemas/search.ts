@@ -1,13 +1,41 @@
 import { z } from "zod";
+import {
+  documentAudienceSchema,
+  documentCategorySchema,
+  documentLanguageSchema,
+  documentRegionSchema,
+} from "./document";
+
+/**
+ * Accepts a single value or a list and always yields a list
+ */
+function oneOrMany<T extends z.ZodTypeAny>(schema: T) {
+  return z
+    .union([schema, z.array(schema)])
+    .transform((value): z.infer<T>[] => (Array.isArray(value) ? value : [value]));
+}
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const dateRangeSchema = z
+  .object({
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+  })
+  .refine((range) => !range.from || !range.to || range.from <= range.to, {
+    message: "`from` must not be after `to`",
+  });
 
 export const searchParamsSchema = z.object({
   query: z.string().min(1, "Search query cannot be empty"),
-  category: z.string().optional(),
-  language: z.string().optional(),
-  audience: z.string().optional(),
-  region: z.string().optional(),
+  category: oneOrMany(documentCategorySchema).optional(),
+  language: oneOrMany(documentLanguageSchema).optional(),
+  audience: oneOrMany(documentAudienceSchema).optional(),
+  region: oneOrMany(documentRegionSchema).optional(),
+  tags: oneOrMany(z.string().min(1)).optional(),
+  lastUpdated: dateRangeSchema.optional(),
   limit: z.number().int().positive().max(100).optional().default(20),
-  offset: z.number().int().nonnegative().optional().default(0),
+  cursor: z.string().optional(),
 });
 
 export type SearchParams = z.infer<typeof searchParamsSchema>;
@@ -16,13 +44,39 @@ export const searchResultSchema = z.object({
   documentId: z.string(),
   title: z.string(),
   excerpt: z.string(),
+  chunkId: z.string().optional(),
+  pageNumber: z.number().int().positive().optional(),
   relevanceScore: z.number(),
   metadata: z.object({
-    category: z.string(),
-    language: z.string(),
+    category: documentCategorySchema,
+    language: documentLanguageSchema,
+    audience: documentAudienceSchema,
+    region: documentRegionSchema,
     lastUpdated: z.string(),
+    tags: z.array(z.string()).optional(),
   }),
 });
 
 export type SearchResult = z.infer<typeof searchResultSchema>;
 
+const facetCountsSchema = z.array(
+  z.object({
+    value: z.string(),
+    count: z.number().int().nonnegative(),
+  })
+);
+
+export const searchResponseSchema = z.object({
+  results: z.array(searchResultSchema),
+  total: z.number().int().nonnegative(),
+  nextCursor: z.string().nullable(),
+  facets: z.object({
+    category: facetCountsSchema,
+    language: facetCountsSchema,
+    audience: facetCountsSchema,
+    region: facetCountsSchema,
+    tags: facetCountsSchema,
+  }),
+});
+
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
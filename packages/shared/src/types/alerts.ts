@@ -0,0 +1,46 @@
+import type { DocumentRegion } from "./document";
+
+export type DrugAlertKind = "recall" | "safety-communication";
+
+/**
+ * A drug recall or safety communication, matched to chat questions and
+ * answers by drug name
+ */
+export interface DrugAlert {
+  alertId: string;
+  kind: DrugAlertKind;
+  title: string;
+  /** Generic and brand names the alert covers, lowercase */
+  drugs: string[];
+  summary: string;
+  /** ISO date the alert was issued */
+  date: string;
+  url: string;
+  /** Recall severity, e.g. "Class I" */
+  classification?: string;
+  /** Recalls become inactive once completed or terminated */
+  active: boolean;
+  /** Issuing agency, e.g. "FDA" */
+  source: string;
+}
+
+/**
+ * A WHO Disease Outbreak News item, tagged with the disease and the
+ * countries it reports on
+ */
+export interface OutbreakAlert {
+  outbreakId: string;
+  title: string;
+  /** Lowercase disease name, e.g. "cholera" */
+  disease: string;
+  /** Lowercase country names */
+  countries: string[];
+  /** Narrowest region covering the countries */
+  region: DocumentRegion;
+  summary: string;
+  /** ISO date the item was published */
+  date: string;
+  url: string;
+  /** Issuing agency, e.g. "WHO" */
+  source: string;
+}
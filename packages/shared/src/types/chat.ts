@@ -1,22 +1,136 @@
+import type { DrugAlert } from "./alerts";
+import type { DocumentLanguage, DocumentStatus } from "./document";
+
 export interface ChatMessage {
   id: string;
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: Date;
   sources?: DocumentSource[];
+  /** Result of checking the answer's [n] markers against `sources` */
+  citations?: CitationCheck;
+  /** How well the retrieved evidence and the answer's claims hold up */
+  grounding?: Grounding;
+  /** Set when triage detected danger signs; replaces a retrieved answer */
+  emergency?: EmergencyGuidance;
+  /** Prompt template the answer was generated with */
+  prompt?: PromptRef;
+  /** Template disclaimer to show with the answer */
+  disclaimer?: string;
+  /** How the question was interpreted for retrieval, kept for auditing */
+  query?: QueryTrace;
+  /** Active recalls and safety communications for drugs in the question or answer */
+  drugAlerts?: DrugAlert[];
+  /** The user stopped the answer before it was complete */
+  stopped?: boolean;
+}
+
+export interface QueryTrace {
+  /** Question as the user typed it */
+  original: string;
+  language: DocumentLanguage;
+  /** English translation, when the question was not in English */
+  translated?: string;
+  /** Query retrieval actually ran with, after translation and follow-up rewriting */
+  retrievalQuery: string;
+}
+
+export interface PromptRef {
+  templateId: string;
+  version: number;
+}
+
+export interface EmergencyContact {
+  label: string;
+  number: string;
+}
+
+export interface EmergencyGuidance {
+  /** Language of the texts below; absent on guidance saved before it was localised */
+  language?: DocumentLanguage;
+  /** Danger signs found in the message, e.g. "Convulsions" */
+  signs: string[];
+  headline: string;
+  /** Ordered steps, most urgent first */
+  instructions: string[];
+  contacts: EmergencyContact[];
+}
+
+export interface CitationCheck {
+  /** 1-based source numbers cited in the answer, in order of first use */
+  cited: number[];
+  /** Out-of-range markers removed from the answer */
+  dropped: number[];
+  /** True when sources were available but the answer cites none */
+  uncited: boolean;
+}
+
+/**
+ * "insufficient" means retrieval found nothing trustworthy and the
+ * assistant declined to answer
+ */
+export type ConfidenceLevel = "high" | "medium" | "low" | "insufficient";
+
+export type ClaimStatus = "supported" | "partial" | "unsupported";
+
+export interface ClaimSupport {
+  /** Sentence from the answer, without citation markers */
+  text: string;
+  status: ClaimStatus;
+  /** 1-based source numbers the claim was checked against */
+  sources: number[];
+}
+
+export interface Grounding {
+  confidence: ConfidenceLevel;
+  claims: ClaimSupport[];
+  /** Absent when no answer was generated (abstention or emergency) */
+  prompt?: PromptRef;
 }
 
 export interface DocumentSource {
   documentId: string;
   documentTitle: string;
+  /** Lets links open the document at the cited chunk */
+  chunkId?: string;
   pageNumber?: number;
+  /** Headings above the cited passage, outermost first */
+  sectionPath?: string[];
   excerpt: string;
   relevanceScore?: number;
+  /** Set when the document is no longer current */
+  status?: Exclude<DocumentStatus, "current">;
+  /** The in-force document that replaced this one, when known */
+  replacedBy?: { documentId: string; documentTitle: string };
 }
 
 export interface ChatResponse {
   message: ChatMessage;
   sources: DocumentSource[];
   sessionId: string;
+  confidence: ConfidenceLevel;
+  claims: ClaimSupport[];
+  /** Absent when no answer was generated (abstention or emergency) */
+  prompt?: PromptRef;
+  drugAlerts: DrugAlert[];
+}
+
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  audience?: string;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatSessionDetail {
+  session: ChatSession;
+  messages: ChatMessage[];
 }
 
+export type ChatStreamEvent =
+  | { type: "sources"; sessionId: string; sources: DocumentSource[] }
+  | { type: "token"; text: string }
+  | { type: "done"; message: ChatMessage };
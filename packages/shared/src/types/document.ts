@@ -10,6 +10,12 @@ export type DocumentAudience = "healthcare-professional" | "patient" | "both";
 
 export type DocumentRegion = "zambia" | "southern-africa" | "global";
 
+/**
+ * `superseded` and `withdrawn` documents are kept for reference but are
+ * not used for answers by default
+ */
+export type DocumentStatus = "current" | "superseded" | "withdrawn";
+
 export interface DocumentMetadata {
   documentId: string;
   title: string;
@@ -20,5 +26,31 @@ export interface DocumentMetadata {
   lastUpdated: string; // ISO date string
   sourceUrl?: string;
   tags?: string[];
+  /** Treated as `current` when absent */
+  status?: DocumentStatus;
+  /** Ids of the earlier versions this document replaces */
+  supersedes?: string[];
+  /** ISO date the document takes effect; it replaces earlier versions from then on */
+  effectiveFrom?: string;
+}
+
+
+export interface DocumentChunk {
+  chunkId: string;
+  text: string;
+  pageNumber?: number;
+  /** Headings above the chunk, outermost first */
+  sectionPath?: string[];
+  embedding?: number[];
 }
 
+export interface CorpusDocument {
+  metadata: DocumentMetadata;
+  chunks: DocumentChunk[];
+}
+
+/** A document as shown in the viewer: chunks in reading order, no embeddings */
+export interface DocumentDetail {
+  metadata: DocumentMetadata;
+  chunks: Array<Omit<DocumentChunk, "embedding">>;
+}
@@ -1,8 +1,20 @@
 // Export TypeScript interfaces
 export type {
   ChatMessage,
+  CitationCheck,
+  ClaimStatus,
+  ClaimSupport,
+  ConfidenceLevel,
+  Grounding,
+  EmergencyContact,
+  EmergencyGuidance,
+  PromptRef,
+  QueryTrace,
   DocumentSource,
   ChatResponse,
+  ChatStreamEvent,
+  ChatSession,
+  ChatSessionDetail,
 } from "./chat";
 export type {
   UserRole,
@@ -13,10 +25,23 @@ export type {
   DocumentLanguage,
   DocumentAudience,
   DocumentRegion,
+  DocumentStatus,
   DocumentMetadata,
+  DocumentChunk,
+  CorpusDocument,
+  DocumentDetail,
 } from "./document";
 export type {
+  DateRange,
   SearchParams,
   SearchResult,
+  SearchFacetField,
+  FacetCount,
+  SearchFacets,
+  SearchResponse,
 } from "./search";
-
+export type {
+  DrugAlertKind,
+  DrugAlert,
+  OutbreakAlert,
+} from "./alerts";
@@ -1,22 +1,69 @@
+import type {
+  DocumentAudience,
+  DocumentCategory,
+  DocumentLanguage,
+  DocumentRegion,
+} from "./document";
+
+/** Inclusive `YYYY-MM-DD` bounds; either end may be left open */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Filter fields accept one value or several. Values within a field are
+ * ORed, fields are ANDed.
+ */
 export interface SearchParams {
   query: string;
-  category?: string;
-  language?: string;
-  audience?: string;
-  region?: string;
+  category?: DocumentCategory | DocumentCategory[];
+  language?: DocumentLanguage | DocumentLanguage[];
+  audience?: DocumentAudience | DocumentAudience[];
+  region?: DocumentRegion | DocumentRegion[];
+  tags?: string | string[];
+  lastUpdated?: DateRange;
   limit?: number;
-  offset?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string;
 }
 
 export interface SearchResult {
   documentId: string;
   title: string;
+  /** Best-matching chunk of the document */
   excerpt: string;
+  /** Absent when the backend cannot tell which stored chunk matched */
+  chunkId?: string;
+  pageNumber?: number;
   relevanceScore: number;
   metadata: {
-    category: string;
-    language: string;
+    category: DocumentCategory;
+    language: DocumentLanguage;
+    audience: DocumentAudience;
+    region: DocumentRegion;
     lastUpdated: string;
+    tags?: string[];
   };
 }
 
+export type SearchFacetField = "category" | "language" | "audience" | "region" | "tags";
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Document counts per facet value. Each facet ignores its own filter so
+ * the other values stay selectable.
+ */
+export type SearchFacets = Record<SearchFacetField, FacetCount[]>;
+
+export interface SearchResponse {
+  results: SearchResult[];
+  /** Matching documents across all pages */
+  total: number;
+  nextCursor: string | null;
+  facets: SearchFacets;
+}
@@ -0,0 +1,80 @@
+import type { CitationCheck } from "../types";
+
+/** Matches markers such as [2] and [1, 3] */
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export type CitationSegment =
+  | { type: "text"; text: string }
+  | { type: "citation"; numbers: number[] };
+
+/**
+ * Splits text into plain runs and citation markers for rendering
+ */
+export function splitCitations(text: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: "citation", numbers: parseNumbers(match[1]) });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Checks the [n] markers in an answer against the number of sources.
+ * Out-of-range numbers are removed; a marker left empty is removed whole.
+ */
+export function validateCitations(
+  content: string,
+  sourceCount: number
+): { content: string; citations: CitationCheck } {
+  const cited: number[] = [];
+  const dropped: number[] = [];
+
+  const cleaned = content.replace(
+    new RegExp(`\\s?${CITATION_PATTERN.source}`, "g"),
+    (marker: string, group: string) => {
+      const valid = parseNumbers(group).filter((number) => {
+        const inRange = number >= 1 && number <= sourceCount;
+        if (!inRange) {
+          dropped.push(number);
+        }
+        return inRange;
+      });
+
+      for (const number of valid) {
+        if (!cited.includes(number)) {
+          cited.push(number);
+        }
+      }
+
+      if (valid.length === 0) {
+        return "";
+      }
+      const leading = marker.startsWith("[") ? "" : marker[0];
+      return `${leading}[${valid.join(", ")}]`;
+    }
+  );
+
+  return {
+    content: cleaned,
+    citations: {
+      cited,
+      dropped,
+      uncited: sourceCount > 0 && cited.length === 0,
+    },
+  };
+}
+
+function parseNumbers(group: string): number[] {
+  return group.split(",").map((part) => Number(part.trim()));
+}
@@ -14,3 +14,5 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
+export { splitCitations, validateCitations } from "./citations";
+export type { CitationSegment } from "./citations";